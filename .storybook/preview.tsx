@@ -1,12 +1,27 @@
-// Настройки отображения для Storybook (настройки тулбара: добавление кнопки переключения локализаций) [★★★☆☆]
+// Настройки отображения для Storybook (настройки тулбара: добавление кнопки переключения локализаций, mock-провайдер кошелька) [★★★☆☆]
 
 import 'antd/dist/reset.css';
 import '@/index.css';
 
 import type { Decorator, StoryContext, StoryFn } from '@storybook/react';
 import * as React from 'react';
+import { disconnect } from 'wagmi/actions';
 
+import { ApprovalModes } from '@/constants/approvalFlow';
 import i18n from '@/i18n';
+import {
+    installMockEthereumProvider,
+    type MockProviderOptions,
+    uninstallMockEthereumProvider,
+} from '@/mocks/mockEthereumProvider';
+import { DEFAULT_NETWORK_ID } from '@/services/networkRegistry';
+import { useConnectionStore } from '@/stores/useConnectionStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { useSiweSessionStore } from '@/stores/useSiweSessionStore';
+import { useTransactionStore } from '@/stores/useTransactionStore';
+import { useWalletProvidersStore } from '@/stores/useWalletProvidersStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+import { wagmiConfig } from '@/wagmi';
 
 // noinspection JSUnusedGlobalSymbols
 export const globalTypes = {
@@ -35,6 +50,45 @@ const LocaleEffect = ({ locale }: { locale: string }) => {
     return null;
 };
 
+// Сбрасывает подключение и хранилища, оставшиеся от предыдущей истории
+const resetWalletState = async () => {
+    await disconnect(wagmiConfig).catch(() => undefined);
+    useWalletProvidersStore.getState().resetProviders();
+    useWalletStore.getState().resetState();
+    useWalletStore.setState({ preferredAccounts: {} });
+    useSettingsStore.setState({ networkId: DEFAULT_NETWORK_ID, approvalMode: ApprovalModes.EXACT });
+    useSiweSessionStore.getState().clearSession();
+    useConnectionStore.getState().fullReset();
+    useTransactionStore.setState({ transactions: {} });
+};
+
+/*
+ Устанавливает mock-провайдер кошелька по параметру истории `mockEthereum` (сценарий, задержка ответов)
+ и отображает историю только после установки, чтобы её компоненты сразу работали с mock-провайдером:
+    parameters: { mockEthereum: { scenario: MockProviderScenarios.WRONG_CHAIN, delayMs: 100 } }
+ */
+const MockEthereumEffect = ({ options, children }: { options: MockProviderOptions; children: React.ReactNode }) => {
+    const [isReady, setIsReady] = React.useState(false);
+    const { scenario, delayMs, privateKey, authorized, balance, accountsCount } = options;
+
+    React.useEffect(() => {
+        let isActive = true;
+
+        void resetWalletState().then(() => {
+            if (!isActive) return;
+            installMockEthereumProvider({ scenario, delayMs, privateKey, authorized, balance, accountsCount });
+            setIsReady(true);
+        });
+
+        return () => {
+            isActive = false;
+            uninstallMockEthereumProvider();
+        };
+    }, [scenario, delayMs, privateKey, authorized, balance, accountsCount]);
+
+    return isReady ? children : null;
+};
+
 // noinspection JSUnusedGlobalSymbols
 export const decorators: Decorator[] = [
     (Story: StoryFn<React.ReactNode>, context: StoryContext) => (
@@ -43,6 +97,17 @@ export const decorators: Decorator[] = [
             <Story />
         </>
     ),
+    (Story, context) => {
+        const options = context.parameters.mockEthereum as MockProviderOptions | undefined;
+
+        return options ? (
+            <MockEthereumEffect options={options}>
+                <Story />
+            </MockEthereumEffect>
+        ) : (
+            <Story />
+        );
+    },
 ];
 
 // noinspection JSUnusedGlobalSymbols
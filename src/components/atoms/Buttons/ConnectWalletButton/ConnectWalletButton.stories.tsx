@@ -1,12 +1,32 @@
-// История для компонента ConnectWalletButton (без теста)
+// История для компонента ConnectWalletButton (с тестами)
 
-import { PoweroffOutlined,WalletOutlined } from '@ant-design/icons';
+import { WalletOutlined } from '@ant-design/icons';
 import { type Meta, type StoryObj } from '@storybook/react';
+import { expect, fn, userEvent, waitFor, within } from '@storybook/test';
 import { I18nextProvider } from 'react-i18next';
 
+import { ConnectionPhases, PhaseStatuses } from '@/constants/connectionPhases';
+import { useWalletProviderEvents } from '@/hooks/useWalletProviderEvents';
 import i18n from '@/i18n';
+import { getMockEthereumProvider, MockProviderScenarios } from '@/mocks/mockEthereumProvider';
+import { CONNECTION_PHASE_ORDER } from '@/services/connectionPhaseRegistry';
+import { findMetaMaskProvider } from '@/services/eip6963ProviderDiscovery';
+import { shortenAddress } from '@/services/formatAddress';
+import { useConnectionStore } from '@/stores/useConnectionStore';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+import { useWalletStore } from '@/stores/useWalletStore';
 
-import { ConnectWalletButton } from './ConnectWalletButton';
+import { ConnectWalletButton, type ConnectWalletButtonProps } from './ConnectWalletButton';
+
+// Адрес подключённого кошелька в историях без mock-провайдера
+const ACCOUNT = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+
+// Кнопка с подпиской на события кошелька (в приложении события обрабатывает AppShell)
+const ButtonWithProviderEvents = (props: ConnectWalletButtonProps) => {
+    useWalletProviderEvents();
+
+    return <ConnectWalletButton {...props} />;
+};
 
 const meta: Meta<typeof ConnectWalletButton> = {
     title: 'Atoms/Buttons/ConnectWalletButton',
@@ -26,6 +46,11 @@ const meta: Meta<typeof ConnectWalletButton> = {
             page: undefined,
         },
     },
+    // Состояние кнопки выводится из хранилищ, поэтому каждая история начинается с отключённого кошелька
+    beforeEach: () => {
+        useConnectionStore.getState().fullReset();
+        useWalletStore.getState().resetState();
+    },
 };
 
 export default meta;
@@ -33,7 +58,16 @@ export default meta;
 type Story = StoryObj<typeof ConnectWalletButton>;
 
 export const Default: Story = {
-    args: {},
+    args: {
+        onConnect: fn(),
+    },
+    play: async ({ canvasElement, args }) => {
+        const button = within(canvasElement).getByTestId('connect-wallet-button');
+
+        await expect(button).toHaveAttribute('data-state', 'disconnected');
+        await userEvent.click(button);
+        await expect(args.onConnect).toHaveBeenCalledTimes(1);
+    },
 };
 
 export const CustomText: Story = {
@@ -42,20 +76,171 @@ export const CustomText: Story = {
     },
 };
 
+// Идёт подключение: на кнопке название текущей фазы
+export const Connecting: Story = {
+    beforeEach: () => {
+        useConnectionStore.getState().firstStart();
+        useConnectionStore.getState().goOn();
+    },
+    play: async ({ canvasElement }) => {
+        const button = within(canvasElement).getByTestId('connect-wallet-button');
+
+        await expect(button).toHaveAttribute('data-state', 'connecting');
+        await expect(button).toHaveTextContent(i18n.t(`mmConnectionPhases.${ConnectionPhases.CHECK_IF_UNLOCKED}.header`));
+    },
+};
+
+// Отмена подключения возвращает кнопку в исходное состояние
+export const ConnectingCancelled: Story = {
+    beforeEach: () => {
+        useConnectionStore.getState().firstStart();
+    },
+    play: async ({ canvasElement }) => {
+        const button = within(canvasElement).getByTestId('connect-wallet-button');
+
+        await expect(button).toHaveAttribute('data-state', 'connecting');
+        useConnectionStore.getState().cancel();
+        await waitFor(() => expect(button).toHaveAttribute('data-state', 'disconnected'));
+        await expect(useConnectionStore.getState().phaseStatuses[ConnectionPhases.CHECK_IF_INSTALLED])
+            .toBe(PhaseStatuses.CANCELLED);
+    },
+};
+
 export const Connected: Story = {
+    beforeEach: () => {
+        useConnectionStore.getState().restore();
+        useWalletStore.getState().setState({
+            isConnected: true,
+            isCorrectNetwork: true,
+            account: ACCOUNT,
+            chainId: selectTargetNetwork(useSettingsStore.getState()).chainId,
+        });
+    },
+    play: async ({ canvasElement }) => {
+        const button = within(canvasElement).getByTestId('connect-wallet-button');
+
+        await expect(button).toHaveAttribute('data-state', 'connected');
+        await expect(button).toHaveTextContent(shortenAddress(ACCOUNT));
+    },
+};
+
+export const WrongNetwork: Story = {
+    args: {
+        onConnect: fn(),
+    },
+    beforeEach: () => {
+        useConnectionStore.getState().restore();
+        useWalletStore.getState().setState({
+            isConnected: true,
+            isCorrectNetwork: false,
+            account: ACCOUNT,
+            chainId: 1,
+        });
+    },
+    play: async ({ canvasElement, args }) => {
+        const button = within(canvasElement).getByTestId('connect-wallet-button');
+
+        await expect(button).toHaveAttribute('data-state', 'wrongNetwork');
+        await expect(button).toHaveTextContent(selectTargetNetwork(useSettingsStore.getState()).name);
+        await userEvent.click(button);
+        await expect(args.onConnect).toHaveBeenCalledTimes(1);
+    },
+};
+
+// После подключения кошелёк перешёл в другую сеть: событие chainChanged понижает только фазу сети,
+// поэтому кнопка показывает неверную сеть, а не отключённый кошелёк
+export const WrongNetworkAfterChainChanged: Story = {
+    render: (args) => <ButtonWithProviderEvents {...args} />,
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.CONNECTED, authorized: true },
+    },
+    play: async ({ canvasElement }) => {
+        const provider = getMockEthereumProvider();
+        await findMetaMaskProvider();
+
+        useConnectionStore.getState().restore();
+        useWalletStore.getState().setState({
+            isConnected: true,
+            isCorrectNetwork: true,
+            account: provider?.address ?? null,
+            chainId: selectTargetNetwork(useSettingsStore.getState()).chainId,
+        });
+
+        const button = within(canvasElement).getByTestId('connect-wallet-button');
+        await waitFor(() => expect(button).toHaveAttribute('data-state', 'connected'));
+
+        provider?.setChainId('0x1');
+
+        await waitFor(() => expect(button).toHaveAttribute('data-state', 'wrongNetwork'));
+        await expect(useWalletStore.getState().chainId).toBe(1);
+        await expect(useConnectionStore.getState().phaseStatuses[ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK])
+            .toBe(PhaseStatuses.FAIL);
+    },
+};
+
+// Доступ к аккаунту получен, но последняя фаза (вход с подписью, если он включён) не пройдена: подключение
+// не завершено, поэтому кнопка предлагает подключиться снова, а не показывает адрес
+export const AuthorizedButSignInFailed: Story = {
     args: {
-        type: 'default',
-        danger: true,
-        icon: <PoweroffOutlined />,
-        children: 'Отключить кошелёк',
+        onConnect: fn(),
+    },
+    beforeEach: () => {
+        useConnectionStore.getState().restore();
+        useConnectionStore.getState().setPhaseStatus(
+            CONNECTION_PHASE_ORDER[CONNECTION_PHASE_ORDER.length - 1],
+            PhaseStatuses.FAIL,
+        );
+        useWalletStore.getState().setState({
+            isConnected: true,
+            isCorrectNetwork: true,
+            account: ACCOUNT,
+            chainId: selectTargetNetwork(useSettingsStore.getState()).chainId,
+        });
+    },
+    play: async ({ canvasElement, args }) => {
+        const button = within(canvasElement).getByTestId('connect-wallet-button');
+
+        await expect(useConnectionStore.getState().phaseStatuses[ConnectionPhases.CHECK_IF_AUTHORIZED])
+            .toBe(PhaseStatuses.SUCCESS);
+        await expect(button).toHaveAttribute('data-state', 'disconnected');
+        await expect(button).not.toHaveTextContent(shortenAddress(ACCOUNT));
+        await userEvent.click(button);
+        await expect(args.onConnect).toHaveBeenCalledTimes(1);
+    },
+};
+
+// Отключение: разрешение сайта отзывается в кошельке, хранилища очищаются
+export const Disconnect: Story = {
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.CONNECTED, authorized: true },
+    },
+    play: async ({ canvasElement }) => {
+        const provider = getMockEthereumProvider();
+        await findMetaMaskProvider();
+
+        useConnectionStore.getState().restore();
+        useWalletStore.getState().setState({
+            isConnected: true,
+            isCorrectNetwork: true,
+            account: provider?.address ?? null,
+            chainId: selectTargetNetwork(useSettingsStore.getState()).chainId,
+        });
+
+        const button = within(canvasElement).getByTestId('connect-wallet-button');
+        await waitFor(() => expect(button).toHaveAttribute('data-state', 'connected'));
+
+        await userEvent.click(button);
+
+        await waitFor(() => expect(button).toHaveAttribute('data-state', 'disconnected'));
+        await expect(provider?.requests.map(({ method }) => method)).toContain('wallet_revokePermissions');
+        await expect(useWalletStore.getState().account).toBeNull();
+        await expect(useConnectionStore.getState().lastSuccessfulConnection).toBeNull();
     },
 };
 
 export const Loading: Story = {
     args: {
         loading: true,
-        icon: <WalletOutlined />,
-        children: 'Подключение...',
     },
 };
 
@@ -63,4 +248,4 @@ export const WithIconOnly: Story = {
     args: {
         icon: <WalletOutlined />,
     },
-};
\ No newline at end of file
+};
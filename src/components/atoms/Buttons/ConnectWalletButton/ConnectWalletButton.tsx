@@ -1,34 +1,66 @@
 // Атомарный компонент: кнопка подключения кошелька (MetaMask) [★★★★★]
 
-import { PoweroffOutlined, WalletOutlined } from '@ant-design/icons';
-import { Button,type ButtonProps } from 'antd';
+import { PoweroffOutlined, SwapOutlined, WalletOutlined } from '@ant-design/icons';
+import { Button, type ButtonProps } from 'antd';
 import * as React from "react";
 import { useTranslation } from 'react-i18next';
 
+import { PhaseStatuses } from '@/constants/connectionPhases';
 import { useConnectWallet } from '@/hooks/useConnectWallet';
-import { useWalletButtonState } from '@/hooks/useWalletButtonState';
+import { useWalletButtonState, type WalletButtonState } from '@/hooks/useWalletButtonState';
 import log from '@/log';
+import { shortenAddress } from '@/services/formatAddress';
+import { mmConnectionComments } from '@/services/mmConnectionComments';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
 
 import classes from './ConnectWalletButton.module.scss';
 
+/**
+ * @description Свойства кнопки (кроме onClick: действие кнопки определяется её состоянием)
+ *
+ * @property {Function} [onConnect] - Запуск подключения (например, открытие панели подключения); без него
+ *                                    кнопка подключается сама через useConnectWallet
+ * @property {boolean}  [loading]   - Внешний признак загрузки (например, тихое восстановление сессии); дополняет
+ *                                    собственные состояния загрузки кнопки
+ */
+export interface ConnectWalletButtonProps extends Omit<ButtonProps, 'onClick'> {
+    onConnect?: () => void;
+}
+
+// Иконки состояний кнопки
+const stateIcons: Record<WalletButtonState, React.ReactNode> = {
+    disconnected: <WalletOutlined />,
+    connecting:   <WalletOutlined />,
+    connected:    <PoweroffOutlined />,
+    wrongNetwork: <SwapOutlined />,
+};
+
 /**
  * ConnectWalletButton — атомарная кнопка на базе Ant Design для управления подключением или отключением кошелька
- * MetaMask (или иного совместимого кошелька, если это предусмотрено в проекте). Поддерживает состояния: основное
- * (при нажатии будет осуществлено подключение), промежуточное (происходит подключение), и реверсивное (при нажатии
- * будет выполнено отключение). Поддерживает локализацию с помощью i18n (при необходимости может быть установлена
- * любая надпись через props.children). Поддерживает логирование при нажатии и при изменении состояния.
+ * MetaMask (или иного совместимого кошелька, если это предусмотрено в проекте). Состояние кнопки не хранится
+ * локально, а выводится из хранилищ кошелька и подключения (useWalletButtonState): не подключено (нажатие
+ * запускает подключение), подключение (с названием текущей фазы), подключено (сокращённый адрес, нажатие
+ * отключает кошелёк) и неверная сеть (нажатие повторяет подключение, которое предложит сменить сеть).
+ * Поддерживает локализацию с помощью i18n (при необходимости может быть установлена любая надпись через
+ * props.children). Поддерживает логирование при нажатии и при изменении состояния.
  *
  * @component ConnectWalletButton
  * @category Atoms
  * @example
- *   <ConnectWalletButton>Подключить кошелёк</ConnectWalletButton>
+ *   <ConnectWalletButton onConnect={() => setDrawerOpen(true)} />
  */
 
-export const ConnectWalletButton: React.FC<ButtonProps> = (props) => {
+export const ConnectWalletButton: React.FC<ConnectWalletButtonProps> = ({
+    onConnect,
+    loading: externalLoading,
+    children,
+    ...props
+}) => {
     const { t } = useTranslation();
     const componentName = 'ConnectWalletButton';
-    const { connect, disconnect, loading } = useConnectWallet();              // хук для подключения/отключения кошелька
-    const { state, setConnected, setDisconnected } = useWalletButtonState();  // хук для управления состоянием кнопки
+    const { connect, disconnect, loading } = useConnectWallet();  // хук для подключения/отключения кошелька
+    const { state, phase, account } = useWalletButtonState();      // состояние кнопки по хранилищам
+    const networkName = useSettingsStore((store) => selectTargetNetwork(store).name); // целевая сеть
 
     // Логируем текущее состояние и статус загрузки при изменении
     React.useEffect(() => {
@@ -39,34 +71,46 @@ export const ConnectWalletButton: React.FC<ButtonProps> = (props) => {
     // Обработчик нажатия на кнопку
     const handleClick = async (): Promise<void> => {
         log.debug(`Кнопка ${componentName}: нажата пользователем в состоянии "${state}"`);
+
         if (state === 'connected') {
-            // Если уже подключено — отключаемся
+            // Если уже подключено — отключаемся (хранилища очищаются, кнопка вернётся в "disconnected")
             await disconnect(componentName);
-            setDisconnected();  // Сбрасываем состояние кнопки на "disconnected"
+        } else if (onConnect) {
+            // Иначе — подключаемся (в т.ч. повторно, если кошелёк в другой сети)
+            onConnect();
         } else {
-            // Иначе — подключаемся
             await connect(componentName);
-            setConnected(); // Переключаем состояние кнопки на "connected"
         }
     };
 
+    // Надпись по умолчанию для каждого состояния
+    const label: Record<WalletButtonState, string> = {
+        disconnected: t('connectWalletButton.connect'),
+        connecting:   t('connectWalletButton.connecting', {
+            phase: phase ? mmConnectionComments(phase, PhaseStatuses.IN_PROGRESS, null, { networkName }).header : '',
+        }),
+        connected:    account ? shortenAddress(account) : t('connectWalletButton.disconnect'),
+        wrongNetwork: t('connectWalletButton.wrongNetwork', { network: networkName }),
+    };
+
     // Флаг текущего состояния
     const isConnected = state === 'connected';
 
     return (
         <Button
             type={isConnected ? 'default' : 'primary'}     // "primary" — для подключения, "default" — для отключения
-            danger={isConnected}                           // Красная кнопка, если отключение
-            icon={                                         // Иконка зависит от состояния
-                isConnected ? <PoweroffOutlined /> : <WalletOutlined />
-            }
-            loading={loading}                              // Показываем лоадер во время асинхронной операции
+            danger={isConnected || state === 'wrongNetwork'} // Красная кнопка, если отключение или неверная сеть
+            icon={stateIcons[state]}                       // Иконка зависит от состояния
+            loading={externalLoading || loading || state === 'connecting'} // Лоадер во время подключения и отключения
+            title={isConnected ? t('connectWalletButton.disconnect') : undefined}
             onClick={handleClick}                          // Обработчик клика
             className={classes['connect-wallet-button']}   // Класс для стилизации (min-width: 230px)
+            data-testid="connect-wallet-button"
+            data-state={state}
             {...props}                                     // Дополнительные пропсы, если переданы
         >
             {/* Если переданы children — используем их, иначе — локализованный текст */}
-            {props.children ?? t(isConnected ? 'connectWalletButton.disconnect' : 'connectWalletButton.connect')}
+            {children ?? label[state]}
         </Button>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,51 @@
+// История для компонента Identicon (с тестом)
+
+import { type Meta, type StoryObj } from '@storybook/react';
+import { expect, within } from '@storybook/test';
+
+import { Identicon } from './Identicon';
+
+const ADDRESS = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+
+const meta: Meta<typeof Identicon> = {
+    title: 'Atoms/Identicon',
+    component: Identicon,
+    tags: ['autodocs'],
+    decorators: [
+        (Story) => (
+            <div style={{ padding: '20px', background: '#f0f2f5' }}>
+                <Story />
+            </div>
+        ),
+    ],
+    args: {
+        address: ADDRESS,
+    },
+};
+
+export default meta;
+
+type Story = StoryObj<typeof Identicon>;
+
+export const Default: Story = {};
+
+export const Large: Story = {
+    args: {
+        size: 64,
+    },
+};
+
+// Регистр букв адреса (checksum) не меняет картинку
+export const SameForChecksumAndLowercase: Story = {
+    render: (args) => (
+        <>
+            <Identicon {...args} />
+            <Identicon {...args} address={args.address.toLowerCase()} />
+        </>
+    ),
+    play: async ({ canvasElement }) => {
+        const [checksum, lowercase] = within(canvasElement).getAllByTestId('identicon');
+
+        await expect(checksum.innerHTML).toBe(lowercase.innerHTML);
+    },
+};
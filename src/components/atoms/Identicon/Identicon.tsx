@@ -0,0 +1,49 @@
+// Атомарный компонент: identicon (узнаваемая картинка) адреса кошелька [★★☆☆☆]
+
+import * as React from 'react';
+
+import { createIdenticon, IDENTICON_SIZE } from '@/services/identicon';
+
+import classes from './Identicon.module.scss';
+
+/**
+ * @description Свойства identicon
+ *
+ * @property {string} address - Адрес кошелька
+ * @property {number} [size]  - Размер картинки в пикселях (по умолчанию 24)
+ */
+export interface IdenticonProps {
+    address: string;
+    size?: number;
+}
+
+/**
+ * Identicon — атомарный компонент, рисующий по адресу кошелька симметричный узор 5×5 (SVG). Одинаковые адреса
+ * дают одинаковую картинку, поэтому пользователь может узнать свой аккаунт, не сверяя адрес посимвольно.
+ *
+ * @component Identicon
+ * @category Atoms
+ * @example
+ *   <Identicon address={account} size={32} />
+ */
+export const Identicon: React.FC<IdenticonProps> = ({ address, size = 24 }) => {
+    const { cells, color, background } = React.useMemo(() => createIdenticon(address), [address]);
+
+    return (
+        <svg
+            className={classes.identicon}
+            width={size}
+            height={size}
+            viewBox={`0 0 ${IDENTICON_SIZE} ${IDENTICON_SIZE}`}
+            shapeRendering="crispEdges"
+            role="img"
+            aria-label={address}
+            data-testid="identicon"
+        >
+            <rect width={IDENTICON_SIZE} height={IDENTICON_SIZE} fill={background} />
+            {cells.flatMap((row, y) => row.map((isFilled, x) => isFilled && (
+                <rect key={`${x}-${y}`} x={x} y={y} width={1} height={1} fill={color} />
+            )))}
+        </svg>
+    );
+};
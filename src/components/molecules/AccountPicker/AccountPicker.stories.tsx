@@ -0,0 +1,69 @@
+// Истории для выбора аккаунта на фазе получения аккаунта (с тестами)
+
+import { type Meta, type StoryObj } from '@storybook/react';
+import { expect, userEvent, within } from '@storybook/test';
+import { I18nextProvider } from 'react-i18next';
+
+import i18n from '@/i18n';
+import { useAccountSelectionStore } from '@/stores/useAccountSelectionStore';
+
+import { AccountPicker } from './AccountPicker';
+
+const ACCOUNTS = [
+    '0x8ba1f109551bD432803012645Ac136ddd64DBA72',
+    '0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B',
+    '0x71C7656EC7ab88b098defB751B7401B5f6d8976F',
+];
+
+// Результат последнего запроса выбора (для проверки в play)
+let selection: Promise<string | null> | null = null;
+
+const meta: Meta<typeof AccountPicker> = {
+    title: 'Molecules/AccountPicker',
+    component: AccountPicker,
+    tags: ['autodocs'],
+    decorators: [
+        (Story) => (
+            <I18nextProvider i18n={i18n}>
+                <div style={{ padding: '20px', maxWidth: 420 }}>
+                    <Story />
+                </div>
+            </I18nextProvider>
+        ),
+    ],
+};
+
+export default meta;
+
+type Story = StoryObj<typeof AccountPicker>;
+
+// Аккаунт, выбранный в прошлый раз, выделен; выбор другого аккаунта завершает запрос
+export const Default: Story = {
+    beforeEach: () => {
+        selection = useAccountSelectionStore.getState().requestSelection({ accounts: ACCOUNTS, preferred: ACCOUNTS[1] });
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+
+        await expect(within(canvas.getByTestId(`account-option-${ACCOUNTS[1]}`)).getByRole('radio')).toBeChecked();
+
+        await userEvent.click(canvas.getByTestId(`account-option-${ACCOUNTS[2]}`));
+        await userEvent.click(canvas.getByTestId('account-picker-continue'));
+
+        await expect(selection).resolves.toBe(ACCOUNTS[2]);
+        await expect(canvas.queryByTestId('account-picker')).toBeNull();
+    },
+};
+
+// Отмена (AbortSignal) снимает запрос без выбора
+export const Aborted: Story = {
+    beforeEach: () => {
+        const controller = new AbortController();
+        selection = useAccountSelectionStore.getState().requestSelection({ accounts: ACCOUNTS, preferred: null }, controller.signal);
+        controller.abort();
+    },
+    play: async ({ canvasElement }) => {
+        await expect(selection).resolves.toBeNull();
+        await expect(within(canvasElement).queryByTestId('account-picker')).toBeNull();
+    },
+};
@@ -0,0 +1,85 @@
+// Молекула: выбор одного из нескольких авторизованных аккаунтов кошелька [★★★☆☆]
+
+import { CheckOutlined } from '@ant-design/icons';
+import { Button, Radio, Space, Typography } from 'antd';
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+import { getAddress } from 'viem';
+
+import { Identicon } from '@/components/atoms/Identicon/Identicon';
+import log from '@/log';
+import { shortenAddress } from '@/services/formatAddress';
+import { useAccountSelectionStore } from '@/stores/useAccountSelectionStore';
+
+import classes from './AccountPicker.module.scss';
+
+/**
+ * AccountPicker — молекула, показывающая список авторизованных аккаунтов (identicon и сокращённый адрес),
+ * когда кошелёк вернул больше одного аккаунта. Данные берёт из useAccountSelectionStore: аккаунт, выбранный
+ * в прошлый раз, выделен заранее. Кнопка «Продолжить» передаёт выбор фазе получения аккаунта.
+ * Если запроса выбора нет, ничего не отображает.
+ *
+ * @component AccountPicker
+ * @category Molecules
+ * @example
+ *   {status === PhaseStatuses.SELECTING && <AccountPicker />}
+ */
+export const AccountPicker: React.FC = () => {
+    const { t } = useTranslation();
+    const componentName = 'AccountPicker';
+    const request = useAccountSelectionStore((state) => state.request);
+    const choose = useAccountSelectionStore((state) => state.choose);
+    const [selected, setSelected] = React.useState<string | null>(null);
+
+    // Новый запрос — выделяем аккаунт, выбранный в прошлый раз (или первый)
+    React.useEffect(() => {
+        setSelected(request ? request.preferred ?? request.accounts[0] ?? null : null);
+    }, [request]);
+
+    if (!request) return null;
+
+    const handleContinue = () => {
+        if (!selected) return;
+
+        log.debug(`${componentName}: пользователь выбрал аккаунт ${selected}.`);
+        choose(selected);
+    };
+
+    return (
+        <div className={classes.picker} data-testid="account-picker">
+            <Typography.Text type="secondary">{t('accountPicker.hint')}</Typography.Text>
+
+            <Radio.Group
+                className={classes.list}
+                value={selected}
+                onChange={(event) => setSelected(event.target.value as string)}
+            >
+                <Space direction="vertical" size={4}>
+                    {request.accounts.map((account) => (
+                        <Radio key={account} value={account} data-testid={`account-option-${account}`}>
+                            <Space size={8} align="center">
+                                <Identicon address={account} size={20} />
+                                <span className={classes.address} title={getAddress(account)}>
+                                    {shortenAddress(getAddress(account))}
+                                </span>
+                                {account === request.preferred && (
+                                    <Typography.Text type="secondary">{t('accountPicker.lastUsed')}</Typography.Text>
+                                )}
+                            </Space>
+                        </Radio>
+                    ))}
+                </Space>
+            </Radio.Group>
+
+            <Button
+                type="primary"
+                icon={<CheckOutlined />}
+                disabled={!selected}
+                onClick={handleContinue}
+                data-testid="account-picker-continue"
+            >
+                {t('accountPicker.continue')}
+            </Button>
+        </div>
+    );
+};
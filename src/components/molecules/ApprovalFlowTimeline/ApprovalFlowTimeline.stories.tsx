@@ -0,0 +1,178 @@
+// Истории для таймлайна процесса разрешения на списание токена (с тестами)
+
+import { type Meta, type StoryObj } from '@storybook/react';
+import { expect, fn, userEvent, within } from '@storybook/test';
+import { I18nextProvider } from 'react-i18next';
+
+import {
+    ApprovalModes,
+    type ApprovalStep,
+    ApprovalSteps,
+    type ApprovalStepStatus,
+    ApprovalStepStatuses,
+} from '@/constants/approvalFlow';
+import { TransactionErrors } from '@/constants/transactions';
+import { WalletErrorReasons } from '@/constants/walletErrors';
+import i18n from '@/i18n';
+import { approvalFlowComments } from '@/services/approvalFlowComments';
+import { formatDateTime } from '@/services/formatDateTime';
+
+import { ApprovalFlowTimeline } from './ApprovalFlowTimeline';
+
+const STARTED_AT = new Date('2024-05-09T20:43:23').getTime();
+
+// Значения для подстановки: перевод 12.5 RUBAS при разрешении 5 RUBAS
+const PARAMS = { spender: '0xAb58…eC9B', amount: '12.5', allowance: '5', symbol: 'RUBAS' };
+
+const createStatuses = (
+    statuses: Partial<Record<ApprovalStep, ApprovalStepStatus>>,
+): Record<ApprovalStep, ApprovalStepStatus> => ({
+    [ApprovalSteps.CHECK_ALLOWANCE]: ApprovalStepStatuses.WAITING,
+    [ApprovalSteps.APPROVE]: ApprovalStepStatuses.WAITING,
+    [ApprovalSteps.WAIT_CONFIRMATION]: ApprovalStepStatuses.WAITING,
+    [ApprovalSteps.EXECUTE]: ApprovalStepStatuses.WAITING,
+    ...statuses,
+});
+
+const meta: Meta<typeof ApprovalFlowTimeline> = {
+    title: 'Molecules/ApprovalFlowTimeline',
+    component: ApprovalFlowTimeline,
+    tags: ['autodocs'],
+    decorators: [
+        (Story) => (
+            <I18nextProvider i18n={i18n}>
+                <div style={{ padding: '20px', maxWidth: 480 }}>
+                    <Story />
+                </div>
+            </I18nextProvider>
+        ),
+    ],
+};
+
+export default meta;
+
+type Story = StoryObj<typeof ApprovalFlowTimeline>;
+
+// Процесс не начат: выбор вида разрешения сообщается через onModeChange
+export const Default: Story = {
+    args: {
+        statuses: createStatuses({}),
+        params: PARAMS,
+        mode: ApprovalModes.EXACT,
+        onModeChange: fn(),
+    },
+    play: async ({ canvasElement, args }) => {
+        const canvas = within(canvasElement);
+
+        await expect(canvas.getByTestId(`timeline-item-${ApprovalSteps.APPROVE}`))
+            .toHaveAttribute('data-status', ApprovalStepStatuses.WAITING);
+        await expect(canvas.getByTestId(`timeline-item-${ApprovalSteps.APPROVE}`)).toHaveTextContent('12.5 RUBAS');
+
+        await userEvent.click(canvas.getByLabelText(i18n.t('approvalFlow.mode.unlimited')));
+
+        await expect(args.onModeChange).toHaveBeenCalledWith(ApprovalModes.UNLIMITED);
+    },
+};
+
+// Разрешения не хватило: approve подписан, ожидается подтверждение; выбор вида разрешения недоступен
+export const WaitingConfirmation: Story = {
+    args: {
+        statuses: createStatuses({
+            [ApprovalSteps.CHECK_ALLOWANCE]: ApprovalStepStatuses.SUCCESS,
+            [ApprovalSteps.APPROVE]: ApprovalStepStatuses.SUCCESS,
+            [ApprovalSteps.WAIT_CONFIRMATION]: ApprovalStepStatuses.IN_PROGRESS,
+        }),
+        timestamps: {
+            [ApprovalSteps.CHECK_ALLOWANCE]: STARTED_AT,
+            [ApprovalSteps.APPROVE]: STARTED_AT + 8_000,
+            [ApprovalSteps.WAIT_CONFIRMATION]: STARTED_AT + 8_000,
+        },
+        params: PARAMS,
+        mode: ApprovalModes.UNLIMITED,
+        isRunning: true,
+        onModeChange: fn(),
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+        const { comment } = approvalFlowComments(
+            ApprovalSteps.CHECK_ALLOWANCE,
+            ApprovalStepStatuses.SUCCESS,
+            formatDateTime(new Date(STARTED_AT)),
+            PARAMS,
+        );
+
+        await expect(canvas.getByTestId(`timeline-item-${ApprovalSteps.CHECK_ALLOWANCE}`)).toHaveTextContent(comment);
+        await expect(canvas.getByTestId(`timeline-item-${ApprovalSteps.WAIT_CONFIRMATION}`))
+            .toHaveAttribute('data-status', ApprovalStepStatuses.IN_PROGRESS);
+        await expect(canvas.getByLabelText(i18n.t('approvalFlow.mode.exact'))).toBeDisabled();
+    },
+};
+
+// Разрешения хватает: approve и ожидание подтверждения пропущены, выполняется целевой вызов
+export const AllowanceSufficient: Story = {
+    args: {
+        statuses: createStatuses({
+            [ApprovalSteps.CHECK_ALLOWANCE]: ApprovalStepStatuses.SUCCESS,
+            [ApprovalSteps.APPROVE]: ApprovalStepStatuses.SKIPPED,
+            [ApprovalSteps.WAIT_CONFIRMATION]: ApprovalStepStatuses.SKIPPED,
+            [ApprovalSteps.EXECUTE]: ApprovalStepStatuses.IN_PROGRESS,
+        }),
+        params: { ...PARAMS, allowance: i18n.t('approvalFlow.unlimited') },
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+
+        await expect(canvas.getByTestId(`timeline-item-${ApprovalSteps.APPROVE}`))
+            .toHaveAttribute('data-status', ApprovalStepStatuses.SKIPPED);
+        await expect(canvas.getByTestId(`timeline-item-${ApprovalSteps.CHECK_ALLOWANCE}`))
+            .toHaveTextContent(i18n.t('approvalFlow.unlimited'));
+        await expect(canvas.queryByTestId('approval-mode')).toBeNull();
+    },
+};
+
+// Транзакция approve отклонена: комментарий выбирается по причине неудачи шага
+export const ApproveRejected: Story = {
+    args: {
+        statuses: createStatuses({
+            [ApprovalSteps.CHECK_ALLOWANCE]: ApprovalStepStatuses.SUCCESS,
+            [ApprovalSteps.APPROVE]: ApprovalStepStatuses.FAIL,
+        }),
+        timestamps: { [ApprovalSteps.APPROVE]: STARTED_AT },
+        reasons: { [ApprovalSteps.APPROVE]: WalletErrorReasons.USER_REJECTED },
+        params: PARAMS,
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+        const approve = canvas.getByTestId(`timeline-item-${ApprovalSteps.APPROVE}`);
+        const { comment } = approvalFlowComments(
+            ApprovalSteps.APPROVE,
+            ApprovalStepStatuses.FAIL,
+            formatDateTime(new Date(STARTED_AT)),
+            PARAMS,
+            WalletErrorReasons.USER_REJECTED,
+        );
+
+        await expect(approve).toHaveAttribute('data-status', ApprovalStepStatuses.FAIL);
+        await expect(approve).toHaveTextContent(comment);
+        await expect(canvas.getByTestId(`timeline-item-${ApprovalSteps.EXECUTE}`))
+            .toHaveAttribute('data-status', ApprovalStepStatuses.WAITING);
+    },
+};
+
+// Транзакция approve отклонена сетью (reverted)
+export const ApproveReverted: Story = {
+    args: {
+        statuses: createStatuses({
+            [ApprovalSteps.CHECK_ALLOWANCE]: ApprovalStepStatuses.SUCCESS,
+            [ApprovalSteps.APPROVE]: ApprovalStepStatuses.SUCCESS,
+            [ApprovalSteps.WAIT_CONFIRMATION]: ApprovalStepStatuses.FAIL,
+        }),
+        reasons: { [ApprovalSteps.WAIT_CONFIRMATION]: TransactionErrors.REVERTED },
+        params: PARAMS,
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+
+        await expect(canvas.getByTestId(`timeline-item-${ApprovalSteps.WAIT_CONFIRMATION}`)).toHaveTextContent('reverted');
+    },
+};
@@ -0,0 +1,170 @@
+// Таймлайн шагов процесса «разрешение на списание токена → целевой вызов» [★★★☆☆]
+
+import {
+    ClockCircleOutlined,
+    FieldTimeOutlined,
+    LoadingOutlined,
+    MinusCircleOutlined,
+    StopOutlined,
+} from '@ant-design/icons';
+import { Radio, Timeline, Typography } from 'antd';
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+
+import classes from '@/components/molecules/MetaMaskConnectionTimeline/MetaMaskConnectionTimeline.module.scss';
+import {
+    APPROVAL_STEP_ORDER,
+    type ApprovalFailReason,
+    type ApprovalMode,
+    ApprovalModes,
+    type ApprovalStep,
+    type ApprovalStepStatus,
+    ApprovalStepStatuses,
+} from '@/constants/approvalFlow';
+import { approvalFlowComments } from '@/services/approvalFlowComments';
+import { formatDateTime } from '@/services/formatDateTime';
+import { type MMConnectionCommentParams } from '@/services/mmConnectionComments';
+
+import styles from './ApprovalFlowTimeline.module.scss';
+
+/**
+ * @description Свойства таймлайна (состояние шагов — из хука useApprovalFlow)
+ *
+ * @property {Record}       statuses       - Статусы шагов
+ * @property {Record}       [timestamps]   - Время последней смены статуса каждого шага (мс)
+ * @property {Record}       [reasons]      - Причины неудачи шагов
+ * @property {Record}       [params]       - Значения для подстановки в заголовки и комментарии ({amount}, {symbol} и т.п.)
+ * @property {ApprovalMode} [mode]         - Выбранный вид разрешения на списание
+ * @property {boolean}      [isRunning]    - Процесс выполняется (выбор вида разрешения недоступен)
+ * @property {Function}     [onModeChange] - Выбор вида разрешения; без него переключатель не отображается
+ */
+export interface ApprovalFlowTimelineProps {
+    statuses: Record<ApprovalStep, ApprovalStepStatus>;
+    timestamps?: Partial<Record<ApprovalStep, number | null>>;
+    reasons?: Partial<Record<ApprovalStep, ApprovalFailReason | null>>;
+    params?: MMConnectionCommentParams;
+    mode?: ApprovalMode;
+    isRunning?: boolean;
+    onModeChange?: (mode: ApprovalMode) => void;
+}
+
+/**
+ * ApprovalFlowTimeline — молекула, отображающая шаги процесса разрешения на списание токена (проверка разрешения,
+ * approve, ожидание подтверждения, целевой вызов), их статусы, время и комментарии — по тем же правилам, что
+ * MetaMaskConnectionTimeline для фаз подключения (цвета и значки статусов, комментарии approvalFlowComments).
+ * Собственного состояния не содержит: процессом управляет хук useApprovalFlow. Если передан onModeChange,
+ * над шагами отображается выбор вида разрешения: ровно на сумму вызова или без ограничения.
+ *
+ * @component ApprovalFlowTimeline
+ * @category Molecules
+ * @example
+ *   const flow = useApprovalFlow({ spender, amount, execute });
+ *   <ApprovalFlowTimeline {...flow} onModeChange={flow.setMode} />
+ */
+export const ApprovalFlowTimeline: React.FC<ApprovalFlowTimelineProps> = ({
+    statuses,
+    timestamps = {},
+    reasons = {},
+    params,
+    mode,
+    isRunning = false,
+    onModeChange,
+}) => {
+    const { t } = useTranslation();
+
+    const timelineItems = APPROVAL_STEP_ORDER.map((step) => {
+        const state = statuses[step];
+        const timestamp = timestamps[step];
+        const formattedTime = timestamp ? formatDateTime(new Date(timestamp)) : null;
+        const { header, comment } = approvalFlowComments(step, state, formattedTime, params, reasons[step]);
+
+        let color: string | undefined;
+        let dot: React.ReactNode;
+
+        switch (state) {
+            case ApprovalStepStatuses.SUCCESS:
+                color = 'green';
+                break;
+            case ApprovalStepStatuses.FAIL:
+                color = 'red';
+                break;
+            case ApprovalStepStatuses.SKIPPED:
+                color = 'gray';
+                dot = (
+                    <span className={classes.transparentDot}>
+                        <MinusCircleOutlined style={{ fontSize: '16px' }} />
+                    </span>
+                );
+                break;
+            case ApprovalStepStatuses.CANCELLED:
+                color = 'gray';
+                dot = (
+                    <span className={classes.transparentDot}>
+                        <StopOutlined style={{ fontSize: '16px' }} />
+                    </span>
+                );
+                break;
+            case ApprovalStepStatuses.TIMEOUT:
+                color = 'purple';
+                dot = (
+                    <span className={classes.transparentDot}>
+                        <FieldTimeOutlined style={{ fontSize: '16px' }} />
+                    </span>
+                );
+                break;
+            case ApprovalStepStatuses.WAITING:
+                color = 'blue';
+                dot = (
+                    <span className={classes.transparentDot}>
+                        <ClockCircleOutlined style={{ fontSize: '16px' }} />
+                    </span>
+                );
+                break;
+            case ApprovalStepStatuses.IN_PROGRESS:
+                dot = (
+                    <span className={classes.transparentDot}>
+                        <LoadingOutlined style={{ fontSize: '16px' }} spin />
+                    </span>
+                );
+                break;
+        }
+
+        return {
+            color,
+            dot,
+            children: (
+                <div className={classes.timelineItem} data-testid={`timeline-item-${step}`} data-status={state}>
+                    <Typography.Text strong>{header}</Typography.Text>
+                    <br />
+                    <Typography.Text type="secondary">{comment}</Typography.Text>
+                </div>
+            ),
+        };
+    });
+
+    return (
+        <div data-testid="approval-flow">
+            {onModeChange && (
+                <div className={styles.mode}>
+                    <Typography.Text strong>{t('approvalFlow.mode.title')}</Typography.Text>
+                    <Radio.Group
+                        value={mode}
+                        disabled={isRunning}
+                        onChange={(event) => onModeChange(event.target.value as ApprovalMode)}
+                        data-testid="approval-mode"
+                    >
+                        {Object.values(ApprovalModes).map((value) => (
+                            <Radio key={value} value={value}>
+                                {t(`approvalFlow.mode.${value}`)}
+                            </Radio>
+                        ))}
+                    </Radio.Group>
+                    <Typography.Text type="secondary">{t(`approvalFlow.mode.${mode ?? ApprovalModes.EXACT}Hint`)}</Typography.Text>
+                </div>
+            )}
+            <div className={classes.container}>
+                <Timeline items={timelineItems} />
+            </div>
+        </div>
+    );
+};
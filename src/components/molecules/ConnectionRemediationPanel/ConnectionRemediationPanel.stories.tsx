@@ -0,0 +1,105 @@
+// Истории для панели помощи при неудаче фазы подключения (с тестами)
+
+import { action } from '@storybook/addon-actions';
+import { type Meta, type StoryObj } from '@storybook/react';
+import { expect, fn, userEvent, within } from '@storybook/test';
+import { I18nextProvider } from 'react-i18next';
+
+import { ConnectionPhases, PhaseStatuses } from '@/constants/connectionPhases';
+import { WalletErrorReasons } from '@/constants/walletErrors';
+import i18n from '@/i18n';
+
+import { ConnectionRemediationPanel } from './ConnectionRemediationPanel';
+
+const meta: Meta<typeof ConnectionRemediationPanel> = {
+    title: 'Molecules/ConnectionRemediationPanel',
+    component: ConnectionRemediationPanel,
+    tags: ['autodocs'],
+    decorators: [
+        (Story) => (
+            <I18nextProvider i18n={i18n}>
+                <div style={{ padding: '20px', maxWidth: 420 }}>
+                    <Story />
+                </div>
+            </I18nextProvider>
+        ),
+    ],
+    args: {
+        onRetry: action('retry'),
+        onSwitchNetwork: action('switch-network'),
+    },
+};
+
+export default meta;
+
+type Story = StoryObj<typeof ConnectionRemediationPanel>;
+
+export const InstallMetaMask: Story = {
+    args: {
+        phase: ConnectionPhases.CHECK_IF_INSTALLED,
+        status: PhaseStatuses.FAIL,
+        reason: WalletErrorReasons.NOT_INSTALLED,
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+
+        await expect(canvas.getByTestId('remediation-installMetaMask')).toBeInTheDocument();
+        await expect(canvas.getByRole('link', { name: /metamask/i })).toHaveAttribute('target', '_blank');
+        await expect(canvas.getByTestId('remediation-action-installMetaMask')).toBeInTheDocument();
+        await expect(canvas.getByTestId('remediation-action-retry')).toBeInTheDocument();
+    },
+};
+
+export const UnlockWallet: Story = {
+    args: {
+        phase: ConnectionPhases.CHECK_IF_UNLOCKED,
+        status: PhaseStatuses.TIMEOUT,
+        onRetry: fn(),
+    },
+    play: async ({ canvasElement, args }) => {
+        const canvas = within(canvasElement);
+
+        await expect(canvas.getByTestId('remediation-unlockWallet')).toBeInTheDocument();
+        await userEvent.click(canvas.getByTestId('remediation-action-retry'));
+        await expect(args.onRetry).toHaveBeenCalledTimes(1);
+    },
+};
+
+export const ApproveRequest: Story = {
+    args: {
+        phase: ConnectionPhases.CHECK_IF_AUTHORIZED,
+        status: PhaseStatuses.FAIL,
+        reason: WalletErrorReasons.REQUEST_PENDING,
+    },
+    play: async ({ canvasElement }) => {
+        await expect(within(canvasElement).getByTestId('remediation-approveRequest')).toBeInTheDocument();
+    },
+};
+
+export const AddBscNetwork: Story = {
+    args: {
+        phase: ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK,
+        status: PhaseStatuses.FAIL,
+        reason: WalletErrorReasons.UNKNOWN_CHAIN,
+        onSwitchNetwork: fn(),
+    },
+    play: async ({ canvasElement, args }) => {
+        const canvas = within(canvasElement);
+
+        await expect(canvas.getByTestId('remediation-addNetwork')).toBeInTheDocument();
+        await userEvent.click(canvas.getByTestId('remediation-action-switchNetwork'));
+        await expect(args.onSwitchNetwork).toHaveBeenCalledTimes(1);
+    },
+};
+
+// Для успешной фазы и для неудачи без инструкции панель не отображается
+export const NoRemediation: Story = {
+    args: {
+        phase: ConnectionPhases.CHECK_OUT_ACCOUNT,
+        status: PhaseStatuses.FAIL,
+        reason: WalletErrorReasons.INTERNAL_ERROR,
+    },
+    play: async ({ canvasElement }) => {
+        await expect(within(canvasElement).queryByTestId(/^remediation-/)).toBeNull();
+    },
+};
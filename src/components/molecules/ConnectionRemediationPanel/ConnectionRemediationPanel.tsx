@@ -0,0 +1,126 @@
+// Молекула: панель помощи для неудавшейся фазы подключения к MetaMask [★★★☆☆]
+
+import { DownloadOutlined, ReloadOutlined, SwapOutlined } from '@ant-design/icons';
+import { Button, Space } from 'antd';
+import Markdown from 'markdown-to-jsx';
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { type ConnectionPhase, type PhaseStatus } from '@/constants/connectionPhases';
+import {
+    METAMASK_DOWNLOAD_URL,
+    type RemediationAction,
+    RemediationActions,
+} from '@/constants/connectionRemediation';
+import { type WalletErrorReason } from '@/constants/walletErrors';
+import log from '@/log';
+import { getConnectionRemediation } from '@/services/connectionRemediation';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+
+import classes from './ConnectionRemediationPanel.module.scss';
+
+/**
+ * @description Свойства панели помощи
+ *
+ * @property {ConnectionPhase}          phase             - Неудавшаяся фаза подключения
+ * @property {PhaseStatus}              status            - Статус фазы (панель показывается только для fail и timeout)
+ * @property {WalletErrorReason | null} [reason]          - Причина неудачи фазы
+ * @property {Function}                 onRetry           - Повтор неудавшейся фазы
+ * @property {Function}                 [onSwitchNetwork] - Запрос переключения сети (по умолчанию — onRetry)
+ */
+export interface ConnectionRemediationPanelProps {
+    phase: ConnectionPhase;
+    status: PhaseStatus;
+    reason?: WalletErrorReason | null;
+    onRetry: () => void;
+    onSwitchNetwork?: () => void;
+}
+
+// Ссылки из инструкций открываются в новой вкладке, чтобы не прерывать процесс подключения
+const markdownOptions = {
+    overrides: {
+        a: { props: { target: '_blank', rel: 'noopener noreferrer' } },
+    },
+};
+
+// Иконки кнопок действий
+const actionIcons: Record<RemediationAction, React.ReactNode> = {
+    [RemediationActions.RETRY]:            <ReloadOutlined />,
+    [RemediationActions.SWITCH_NETWORK]:   <SwapOutlined />,
+    [RemediationActions.INSTALL_METAMASK]: <DownloadOutlined />,
+};
+
+/**
+ * ConnectionRemediationPanel — молекула, которая для неудавшейся фазы подключения показывает инструкцию
+ * по устранению ошибки (markdown на языке интерфейса, тема выбирается по фазе и причине неудачи в реестре фаз,
+ * параметры сети подставляются из целевой сети настроек)
+ * и кнопки действий: «Повторить», «Переключить сеть», «Установить MetaMask».
+ * Если для фазы и причины инструкции нет, ничего не отображает.
+ *
+ * @component ConnectionRemediationPanel
+ * @category Molecules
+ * @example
+ *   <ConnectionRemediationPanel phase={currentPhase} status={status} reason={reason} onRetry={handleRetry} />
+ */
+export const ConnectionRemediationPanel: React.FC<ConnectionRemediationPanelProps> = ({
+    phase,
+    status,
+    reason = null,
+    onRetry,
+    onSwitchNetwork,
+}) => {
+    const { t, i18n } = useTranslation();
+    const componentName = 'ConnectionRemediationPanel';
+    const targetNetwork = useSettingsStore(selectTargetNetwork);
+
+    const remediation = React.useMemo(
+        () => getConnectionRemediation(phase, status, reason, i18n.language, {
+            networkName: targetNetwork.name,
+            chainId: targetNetwork.chainId,
+            rpcUrl: targetNetwork.rpcUrls[0],
+            currencySymbol: targetNetwork.nativeCurrency.symbol,
+            explorerUrl: targetNetwork.explorerUrl,
+        }),
+        [phase, status, reason, i18n.language, targetNetwork],
+    );
+
+    if (!remediation) return null;
+
+    const handleAction = (action: RemediationAction) => {
+        log.debug(`${componentName}: действие "${action}" для фазы "${phase}".`);
+
+        switch (action) {
+            case RemediationActions.RETRY:
+                onRetry();
+                break;
+            case RemediationActions.SWITCH_NETWORK:
+                (onSwitchNetwork ?? onRetry)();
+                break;
+            case RemediationActions.INSTALL_METAMASK:
+                window.open(METAMASK_DOWNLOAD_URL, '_blank', 'noopener,noreferrer');
+                break;
+        }
+    };
+
+    return (
+        <div className={classes.panel} data-testid={`remediation-${remediation.topic}`}>
+            <div className={classes.markdown}>
+                <Markdown options={markdownOptions}>{remediation.markdown}</Markdown>
+            </div>
+
+            <Space wrap className={classes.actions}>
+                {remediation.actions.map((action, index) => (
+                    <Button
+                        key={action}
+                        type={index === 0 ? 'primary' : 'default'}
+                        icon={actionIcons[action]}
+                        onClick={() => handleAction(action)}
+                        data-testid={`remediation-action-${action}`}
+                    >
+                        {t(`connectionRemediation.actions.${action}`)}
+                    </Button>
+                ))}
+            </Space>
+        </div>
+    );
+};
@@ -1,10 +1,28 @@
 import { type Meta, type StoryObj } from '@storybook/react';
+import { expect, fn, userEvent, waitFor, within } from '@storybook/test';
 import { useState } from 'react';
 import { I18nextProvider } from 'react-i18next';
 
+import {
+    type ConnectionPhase,
+    ConnectionPhases,
+    type PhaseStatus,
+    PhaseStatuses,
+} from '@/constants/connectionPhases';
+import { WalletErrorReasons } from '@/constants/walletErrors';
 import i18n from '@/i18n';
+import {
+    getMockEthereumProvider,
+    installMockEthereumProvider,
+    MockProviderScenarios,
+} from '@/mocks/mockEthereumProvider';
+import { CONNECTION_PHASE_ORDER } from '@/services/connectionPhaseRegistry';
+import { useAccountSelectionStore } from '@/stores/useAccountSelectionStore';
+import { useConnectionStore } from '@/stores/useConnectionStore';
+import { usePhaseTimelineStore } from '@/stores/usePhaseTimelineStore';
+import { useWalletStore } from '@/stores/useWalletStore';
 
-import { MetaMaskConnectionDrawer } from './MetaMaskConnectionDrawer';
+import { MetaMaskConnectionDrawer, type MetaMaskConnectionDrawerProps } from './MetaMaskConnectionDrawer';
 
 const meta: Meta<typeof MetaMaskConnectionDrawer> = {
     title: 'Molecules/MetaMaskConnectionDrawer',
@@ -30,27 +48,198 @@ export default meta;
 
 type Story = StoryObj<typeof MetaMaskConnectionDrawer>;
 
+// Пример использования: выдвижная панель открыта сразу и закрывается кнопкой отмены (или сама после успеха)
+const DrawerExample = (props: Partial<MetaMaskConnectionDrawerProps>) => {
+    const [open, setOpen] = useState(true);
+
+    return (
+        <MetaMaskConnectionDrawer
+            {...props}
+            open={open}
+            onClose={() => {
+                setOpen(false);
+            }}
+            onCancel={() => {
+                setOpen(false);
+            }}
+        />
+    );
+};
+
+// Ожидает, пока фаза таймлайна (в портале выдвижной панели) примет указанный статус
+const expectPhaseStatus = async (phase: ConnectionPhase, status: PhaseStatus) => {
+    const item = await within(document.body).findByTestId(`timeline-item-${phase}`);
+    await waitFor(() => expect(item).toHaveAttribute('data-status', status), { timeout: 10_000 });
+};
+
 export const Default: Story = {
-    render: () => {
-        const [open, setOpen] = useState(true);
-
-        return (
-            <MetaMaskConnectionDrawer
-                open={open}
-                onClose={() => {
-                    setOpen(false);
-                }}
-                onCancel={() => {
-                    setOpen(false);
-                }}
-            />
-        );
-    },
-
-// ⛔️ Временно отключено (в будущем требуется дописать тесты для данного компонента):
-// play: async ({ canvasElement }) => {
-// const canvas = within(canvasElement);
-// const title = await canvas.findByTestId('metamask-drawer-title');
-// expect(title).toBeInTheDocument();
-// },
-};
\ No newline at end of file
+    render: (args) => <DrawerExample {...args} />,
+    args: {
+        onFinished: fn(),
+        onFailed: fn(),
+    },
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.CONNECTED, delayMs: 50 },
+    },
+    play: async ({ args }) => {
+        const lastPhase = CONNECTION_PHASE_ORDER[CONNECTION_PHASE_ORDER.length - 1];
+        await expectPhaseStatus(lastPhase, PhaseStatuses.SUCCESS);
+
+        const provider = getMockEthereumProvider();
+        await expect(within(document.body).findByText(provider?.address ?? '')).resolves.toBeInTheDocument();
+        await expect(provider?.requests.map(({ method }) => method)).toContain('eth_requestAccounts');
+
+        // Итог сообщается колбэком, после чего панель закрывается сама
+        await waitFor(() => expect(args.onFinished).toHaveBeenCalledWith(expect.objectContaining({ ok: true })));
+        await expect(args.onFailed).not.toHaveBeenCalled();
+        await waitFor(() => expect(document.querySelector('.ant-drawer-open')).toBeNull(), { timeout: 5_000 });
+    },
+};
+
+// Кошелёк открыл сайту несколько аккаунтов: фаза получения аккаунта ждёт выбора, выбор запоминается
+export const MultipleAccounts: Story = {
+    render: () => <DrawerExample />,
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.CONNECTED, delayMs: 50, accountsCount: 3 },
+    },
+    play: async () => {
+        await expectPhaseStatus(ConnectionPhases.CHECK_OUT_ACCOUNT, PhaseStatuses.SELECTING);
+
+        const body = within(document.body);
+        const { accounts } = useAccountSelectionStore.getState().request ?? { accounts: [] };
+        await expect(accounts).toHaveLength(3);
+
+        await userEvent.click(await body.findByTestId(`account-option-${accounts[1]}`));
+        await userEvent.click(body.getByTestId('account-picker-continue'));
+
+        const lastPhase = CONNECTION_PHASE_ORDER[CONNECTION_PHASE_ORDER.length - 1];
+        await expectPhaseStatus(lastPhase, PhaseStatuses.SUCCESS);
+        await expect(useWalletStore.getState().account).toBe(accounts[1]);
+        await expect(Object.values(useWalletStore.getState().preferredAccounts)).toContain(accounts[1]);
+    },
+};
+
+export const NotInstalled: Story = {
+    render: () => <DrawerExample />,
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.NOT_INSTALLED },
+    },
+    play: async () => {
+        await expectPhaseStatus(ConnectionPhases.CHECK_IF_INSTALLED, PhaseStatuses.FAIL);
+    },
+};
+
+// Повтор с неудавшейся фазы: после установки кошелька процесс продолжается без перезапуска с начала
+export const RetryAfterInstall: Story = {
+    render: () => <DrawerExample />,
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.NOT_INSTALLED },
+    },
+    play: async () => {
+        await expectPhaseStatus(ConnectionPhases.CHECK_IF_INSTALLED, PhaseStatuses.FAIL);
+
+        // Панель помощи предлагает установить MetaMask и повторить проверку
+        const body = within(document.body);
+        await expect(body.findByTestId('remediation-installMetaMask')).resolves.toBeInTheDocument();
+
+        installMockEthereumProvider({ scenario: MockProviderScenarios.CONNECTED, delayMs: 50 });
+        await userEvent.click(await body.findByTestId('remediation-action-retry'));
+
+        const lastPhase = CONNECTION_PHASE_ORDER[CONNECTION_PHASE_ORDER.length - 1];
+        await expectPhaseStatus(lastPhase, PhaseStatuses.SUCCESS);
+        await expect(usePhaseTimelineStore.getState().retries[ConnectionPhases.CHECK_IF_INSTALLED]).toBe(1);
+    },
+};
+
+export const Locked: Story = {
+    render: () => <DrawerExample />,
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.LOCKED, delayMs: 50 },
+    },
+    play: async () => {
+        await expectPhaseStatus(ConnectionPhases.CHECK_IF_UNLOCKED, PhaseStatuses.IN_PROGRESS);
+        getMockEthereumProvider()?.unlock();
+        await expectPhaseStatus(ConnectionPhases.CHECK_IF_UNLOCKED, PhaseStatuses.SUCCESS);
+        await expectPhaseStatus(ConnectionPhases.CHECK_IF_AUTHORIZED, PhaseStatuses.SUCCESS);
+    },
+};
+
+// Панель закрыта крестиком, пока фаза ждёт ответа кошелька: процесс подключения отменяется вместе с панелью
+export const ClosedWhileConnecting: Story = {
+    render: () => <DrawerExample />,
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.LOCKED, delayMs: 50 },
+    },
+    play: async () => {
+        await expectPhaseStatus(ConnectionPhases.CHECK_IF_UNLOCKED, PhaseStatuses.IN_PROGRESS);
+
+        await userEvent.click(document.querySelector('.ant-drawer-close') as HTMLElement);
+
+        await waitFor(() => expect(useConnectionStore.getState().phaseStatuses[ConnectionPhases.CHECK_IF_UNLOCKED])
+            .toBe(PhaseStatuses.CANCELLED));
+        await waitFor(() => expect(document.querySelector('.ant-drawer-open')).toBeNull());
+    },
+};
+
+export const UserRejects: Story = {
+    render: (args) => <DrawerExample {...args} />,
+    args: {
+        onFailed: fn(),
+    },
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.USER_REJECTS, delayMs: 50 },
+    },
+    play: async ({ args }) => {
+        await expectPhaseStatus(ConnectionPhases.CHECK_IF_UNLOCKED, PhaseStatuses.SUCCESS);
+        await expectPhaseStatus(ConnectionPhases.CHECK_IF_AUTHORIZED, PhaseStatuses.FAIL);
+
+        await expect(args.onFailed)
+            .toHaveBeenCalledWith(ConnectionPhases.CHECK_IF_AUTHORIZED, WalletErrorReasons.USER_REJECTED);
+    },
+};
+
+export const WrongChain: Story = {
+    render: () => <DrawerExample />,
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.WRONG_CHAIN, delayMs: 50 },
+    },
+    play: async () => {
+        await expectPhaseStatus(ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK, PhaseStatuses.FAIL);
+
+        // Панель помощи предлагает переключить (добавить) целевую сеть
+        const body = within(document.body);
+        await expect(body.findByTestId('remediation-addNetwork')).resolves.toBeInTheDocument();
+        await expect(body.findByTestId('remediation-action-switchNetwork')).resolves.toBeInTheDocument();
+    },
+};
+
+export const ChainSwitchSucceeds: Story = {
+    render: () => <DrawerExample />,
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.CHAIN_SWITCH_SUCCEEDS, delayMs: 50 },
+    },
+    play: async () => {
+        await expectPhaseStatus(ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK, PhaseStatuses.SUCCESS);
+
+        const methods = getMockEthereumProvider()?.requests.map(({ method }) => method);
+        await expect(methods).toContain('wallet_addEthereumChain');
+    },
+};
+
+export const RequestPending: Story = {
+    render: () => <DrawerExample />,
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.REQUEST_PENDING, delayMs: 50 },
+    },
+    play: async () => {
+        await expectPhaseStatus(ConnectionPhases.CHECK_IF_AUTHORIZED, PhaseStatuses.FAIL);
+    },
+};
+
+// Без play-теста: ответы кошелька приходят через MOCK_SLOW_RESPONSE_DELAY_MS
+export const SlowResponses: Story = {
+    render: () => <DrawerExample />,
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.SLOW_RESPONSES },
+    },
+};
@@ -1,25 +1,49 @@
 // Молекула: боковая панель подключения к MetaMask [★★★☆☆]
 
-import { Drawer, Typography } from 'antd';
+import { ReloadOutlined } from '@ant-design/icons';
+import { Button, Drawer, Typography } from 'antd';
 import * as React from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { CancelButton } from '@/components/atoms/Buttons/CancelButton/CancelButton';
-import { type MetaMaskConnectionTimelineRef } from '@/components/molecules/MetaMaskConnectionTimeline/MetaMaskConnectionTimeline';
+import { ConnectionRemediationPanel } from '@/components/molecules/ConnectionRemediationPanel/ConnectionRemediationPanel';
 import { MetaMaskConnectionTimeline } from '@/components/molecules/MetaMaskConnectionTimeline/MetaMaskConnectionTimeline';
-import { useCheckMetaMaskAccount } from '@/hooks/useCheckMetaMaskAccount';
-import { useCheckMetaMaskInstalled } from '@/hooks/useCheckMetaMaskInstalled';
-import { useCheckMetaMaskNetwork } from '@/hooks/useCheckMetaMaskNetwork';
-import { useCheckMetaMaskUnlocked } from '@/hooks/useCheckMetaMaskUnlocked';
+import { CONNECTION_SUCCESS_AUTO_CLOSE_MS } from '@/constants/connection';
+import {
+    type ConnectionFlowResult,
+    type ConnectionPhase,
+    type PhaseStatus,
+    PhaseStatuses,
+} from '@/constants/connectionPhases';
+import { type WalletErrorReason } from '@/constants/walletErrors';
+import { useConnectionOrchestrator } from '@/hooks/useConnectionOrchestrator';
 import log from '@/log';
+import { getConnectionRemediation } from '@/services/connectionRemediation';
+import { useConnectionStore } from '@/stores/useConnectionStore';
 import { useWalletStore } from '@/stores/useWalletStore';
 
 import classes from './MetaMaskConnectionDrawer.module.scss';
 
+/**
+ * @description Свойства боковой панели подключения
+ *
+ * @property {boolean}  open            - Открыта ли панель (при открытии запускается процесс подключения)
+ * @property {Function} onClose         - Закрытие панели (крестик или автоматически после успешного подключения);
+ *                                       при закрытии крестиком незавершённый процесс подключения отменяется
+ * @property {Function} onCancel        - Отмена подключения пользователем
+ * @property {Function} [onFinished]    - Итог процесса подключения (ConnectionFlowResult)
+ * @property {Function} [onPhaseChange] - Изменение статуса фазы (phase, status)
+ * @property {Function} [onFailed]      - Неудача или таймаут фазы (phase, reason)
+ * @property {boolean}  [autoClose]     - Закрывать ли панель после успешного подключения (по умолчанию true)
+ */
 export interface MetaMaskConnectionDrawerProps {
     open: boolean;
     onClose: () => void;
     onCancel: () => void;
+    onFinished?: (result: ConnectionFlowResult) => void;
+    onPhaseChange?: (phase: ConnectionPhase, status: PhaseStatus) => void;
+    onFailed?: (phase: ConnectionPhase, reason: WalletErrorReason | null) => void;
+    autoClose?: boolean;
     getContainer?: () => HTMLElement;
     rootStyle?: React.CSSProperties;
 }
@@ -28,70 +52,140 @@ export const MetaMaskConnectionDrawer: React.FC<MetaMaskConnectionDrawerProps> =
                                                                                       open,
                                                                                       onClose,
                                                                                       onCancel,
+                                                                                      onFinished,
+                                                                                      onPhaseChange,
+                                                                                      onFailed,
+                                                                                      autoClose = true,
                                                                                       getContainer,
                                                                                       rootStyle,
                                                                                   }) => {
-    const { t } = useTranslation();
+    const { t, i18n } = useTranslation();
     const componentName = 'MetaMaskConnectionDrawer';
 
-    const checkMetaMaskInstalled = useCheckMetaMaskInstalled();
-    const checkMetaMaskUnlocked = useCheckMetaMaskUnlocked();
-    const checkMetaMaskNetwork = useCheckMetaMaskNetwork();
-    const checkMetaMaskAccount = useCheckMetaMaskAccount();
+    // Оркестратор выполняет проверки фаз и управляет useConnectionStore; таймлайн лишь отображает хранилище
+    const { start, retry, cancel, isRunning } = useConnectionOrchestrator({ minStageTime: 250 });
 
     const account = useWalletStore((state) => state.account);
 
-    const timelineRef = React.useRef<MetaMaskConnectionTimelineRef>(null);
-    const [isFinished, setIsFinished] = React.useState(false);
+    // Повторить можно только неудавшуюся (fail / timeout) фазу, когда процесс уже остановлен
+    const currentPhase = useConnectionStore((state) => state.currentPhase);
+    const currentPhaseStatus = useConnectionStore((state) => state.phaseStatuses[state.currentPhase]);
+    const currentPhaseReason = useConnectionStore((state) => state.phaseReasons[state.currentPhase]);
+    const canRetry = !isRunning
+        && (currentPhaseStatus === PhaseStatuses.FAIL || currentPhaseStatus === PhaseStatuses.TIMEOUT);
 
-    React.useEffect(() => {
-        if (open) {
-            log.debug(`${componentName}: панель открыта.`);
+    // Если для неудачи есть инструкция, кнопка «Повторить» находится в панели помощи
+    const hasRemediation = canRetry
+        && getConnectionRemediation(currentPhase, currentPhaseStatus, currentPhaseReason, i18n.language) !== null;
 
-            setIsFinished(false);
+    // Итог последнего запуска (сообщает таймлайн); null — процесс ещё идёт
+    const [result, setResult] = React.useState<ConnectionFlowResult | null>(null);
 
-            const interval = setInterval(() => {
-                const finished = timelineRef.current?.isWaiting?.() === false;
-                if (finished) {
-                    setIsFinished(true);
-                    clearInterval(interval);
-                }
-            }, 300);
+    React.useEffect(() => {
+        if (open) {
+            log.debug(`${componentName}: панель открыта. Запускаем процесс подключения.`);
 
-            return () => clearInterval(interval);
+            setResult(null);
+            void start();
         } else {
             log.debug(`${componentName}: панель закрыта.`);
         }
-    }, [open]);
+    }, [open, start]);
+
+    // onClose родителя может меняться при каждом рендере — таймер автозакрытия из-за этого не перезапускается
+    const onCloseRef = React.useRef(onClose);
+    onCloseRef.current = onClose;
+
+    // После успешного подключения панель закрывается сама с небольшой задержкой
+    React.useEffect(() => {
+        if (!open || !autoClose || !result?.ok) return;
+
+        const timer = setTimeout(() => {
+            log.debug(`${componentName}: подключение завершено успешно, закрываем панель.`);
+            onCloseRef.current();
+        }, CONNECTION_SUCCESS_AUTO_CLOSE_MS);
+
+        return () => clearTimeout(timer);
+    }, [open, autoClose, result]);
+
+    const handleFinished = React.useCallback((flowResult: ConnectionFlowResult) => {
+        log.debug(`${componentName}: процесс подключения завершён (${flowResult.ok ? 'успешно' : flowResult.status}).`);
+        setResult(flowResult);
+        onFinished?.(flowResult);
+    }, [onFinished]);
+
+    // Повтор: продолжаем процесс с неудавшейся фазы, пройденные фазы сохраняются
+    const handleRetry = () => {
+        log.debug(`${componentName}: пользователь повторяет неудавшуюся фазу.`);
+        setResult(null);
+        void retry();
+    };
+
+    // Прерываем ожидание ответа кошелька и фиксируем статус cancelled (общий путь для отмены и закрытия панели)
+    const cancelConnection = () => {
+        log.debug(`${componentName}: пользователь отменил подключение.`);
+        cancel();
+    };
+
+    // Отмена: прерываем процесс подключения, затем уведомляем родителя
+    const handleCancel = () => {
+        cancelConnection();
+        onCancel();
+    };
+
+    // Закрытие крестиком: незавершённый процесс прерывается, иначе кнопка подключения осталась бы в ожидании,
+    // а окна MetaMask продолжали бы появляться после закрытия панели
+    const handleClose = () => {
+        if (isRunning) {
+            cancelConnection();
+        }
+        onClose();
+    };
 
     return (
         <Drawer
             title={t('metaMaskDrawer.title')}
             placement="right"
-            onClose={onClose}
+            onClose={handleClose}
             open={open}
             getContainer={getContainer}
             rootStyle={rootStyle}
             className={classes.drawer}
             extra={
-                <CancelButton onCancel={onCancel}>
+                <CancelButton onCancel={handleCancel}>
                     {t('cancelButton.label')}
                 </CancelButton>
             }
         >
             <div className={classes.content}>
                 <MetaMaskConnectionTimeline
-                    ref={timelineRef}
-                    onCheckMetaMaskInstalled={checkMetaMaskInstalled}
-                    onCheckMetaMaskUnlocked={checkMetaMaskUnlocked}
-                    onCheckMetaMaskNetwork={checkMetaMaskNetwork}
-                    onCheckMetaMaskAccount={checkMetaMaskAccount}
-                    minStageTime={250}
+                    onFinished={handleFinished}
+                    onPhaseChange={onPhaseChange}
+                    onFailed={onFailed}
                 />
             </div>
 
+            {canRetry && (
+                <ConnectionRemediationPanel
+                    phase={currentPhase}
+                    status={currentPhaseStatus}
+                    reason={currentPhaseReason}
+                    onRetry={handleRetry}
+                />
+            )}
+
             <div className={classes.footer}>
-                {isFinished && account ? (
+                {canRetry && !hasRemediation && (
+                    <Button
+                        icon={<ReloadOutlined />}
+                        onClick={handleRetry}
+                        className={classes.retry}
+                        data-testid="connection-retry"
+                    >
+                        {t('metaMaskDrawer.retry')}
+                    </Button>
+                )}
+                {result?.ok && account ? (
                     <>
                         <Typography.Text strong>
                             {t('metaMaskDrawer.connected')}
@@ -4,11 +4,13 @@ import { Button, Space } from 'antd';
 import React, { useRef } from 'react';
 import { Meta, StoryObj } from '@storybook/react';
 import { action } from '@storybook/addon-actions';
-import { expect, within, userEvent } from '@storybook/test';
+import { expect, fn, waitFor, within, userEvent } from '@storybook/test';
 import { I18nextProvider } from 'react-i18next';
 import i18n from '@/i18n';
 
-import { MMConnectionPhases, MMConnectionStates } from '@/services/mmConnectionComments';
+import { type ConnectionPhase, ConnectionPhases, type PhaseStatus, PhaseStatuses } from '@/constants/connectionPhases';
+import { WalletErrorReasons } from '@/constants/walletErrors';
+import { useConnectionStore } from '@/stores/useConnectionStore';
 import { MetaMaskConnectionTimeline, type MetaMaskConnectionTimelineRef } from './MetaMaskConnectionTimeline';
 
 const meta: Meta<typeof MetaMaskConnectionTimeline> = {
@@ -29,6 +31,12 @@ const meta: Meta<typeof MetaMaskConnectionTimeline> = {
             page: undefined, // Важно! Используем autodocs
         },
     },
+    // Таймлайн отображает useConnectionStore, поэтому перед каждой историей начинаем подключение с чистого листа
+    beforeEach: () => {
+        const { fullReset, firstStart } = useConnectionStore.getState();
+        fullReset();
+        firstStart();
+    },
 };
 
 export default meta;
@@ -87,11 +95,13 @@ export const Default: Story = {
 // Контролируемый компонент с возможностью изменять состояние снаружи
 export const ControlledComponent: Story = {
     render: (args) => {
-        const [phases, setPhases] = React.useState({
-            [MMConnectionPhases.CHECK_IF_INSTALLED]: MMConnectionStates.SUCCESS,
-            [MMConnectionPhases.CHECK_IF_UNLOCKED]: MMConnectionStates.IN_PROGRESS,
-            [MMConnectionPhases.CHECK_IF_CONNECTED_TO_BSC]: MMConnectionStates.WAITING,
-            [MMConnectionPhases.CHECK_OUT_ACCOUNT]: MMConnectionStates.WAITING,
+        const [phases, setPhases] = React.useState<Record<ConnectionPhase, PhaseStatus>>({
+            [ConnectionPhases.CHECK_IF_INSTALLED]: PhaseStatuses.SUCCESS,
+            [ConnectionPhases.CHECK_IF_UNLOCKED]: PhaseStatuses.IN_PROGRESS,
+            [ConnectionPhases.CHECK_IF_AUTHORIZED]: PhaseStatuses.WAITING,
+            [ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK]: PhaseStatuses.WAITING,
+            [ConnectionPhases.CHECK_OUT_ACCOUNT]: PhaseStatuses.WAITING,
+            [ConnectionPhases.SIGN_IN_WITH_ETHEREUM]: PhaseStatuses.WAITING,
         });
 
         return (
@@ -101,10 +111,12 @@ export const ControlledComponent: Story = {
                     <Button
                         onClick={() => {
                             setPhases({
-                                [MMConnectionPhases.CHECK_IF_INSTALLED]: MMConnectionStates.SUCCESS,
-                                [MMConnectionPhases.CHECK_IF_UNLOCKED]: MMConnectionStates.SUCCESS,
-                                [MMConnectionPhases.CHECK_IF_CONNECTED_TO_BSC]: MMConnectionStates.IN_PROGRESS,
-                                [MMConnectionPhases.CHECK_OUT_ACCOUNT]: MMConnectionStates.WAITING,
+                                [ConnectionPhases.CHECK_IF_INSTALLED]: PhaseStatuses.SUCCESS,
+                                [ConnectionPhases.CHECK_IF_UNLOCKED]: PhaseStatuses.SUCCESS,
+                                [ConnectionPhases.CHECK_IF_AUTHORIZED]: PhaseStatuses.SUCCESS,
+                                [ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK]: PhaseStatuses.IN_PROGRESS,
+                                [ConnectionPhases.CHECK_OUT_ACCOUNT]: PhaseStatuses.WAITING,
+                                [ConnectionPhases.SIGN_IN_WITH_ETHEREUM]: PhaseStatuses.WAITING,
                             });
                         }}
                     >
@@ -139,7 +151,6 @@ export const WithFailedPhase: Story = {
                 <MetaMaskConnectionTimeline
                     {...args}
                     ref={timelineRef}
-                    minStageTime={500}
                 />
                 <Space style={{ marginTop: 16 }}>
                     <Button onClick={() => timelineRef.current?.reset()}>Reset</Button>
@@ -149,3 +160,31 @@ export const WithFailedPhase: Story = {
         );
     },
 };
+
+// Колбэки переходов: таймлайн сообщает об изменении статусов фаз, неудаче и итоге процесса
+export const CompletionCallbacks: Story = {
+    args: {
+        onPhaseChange: fn(),
+        onFailed: fn(),
+        onFinished: fn(),
+    },
+    play: async ({ args }) => {
+        const { goOn, goFail } = useConnectionStore.getState();
+
+        // Первая фаза успешна, вторая завершается неудачей
+        goOn();
+        await waitFor(() => expect(args.onPhaseChange)
+            .toHaveBeenCalledWith(ConnectionPhases.CHECK_IF_INSTALLED, PhaseStatuses.SUCCESS));
+
+        goFail(WalletErrorReasons.USER_REJECTED);
+        await waitFor(() => expect(args.onFailed)
+            .toHaveBeenCalledWith(ConnectionPhases.CHECK_IF_UNLOCKED, WalletErrorReasons.USER_REJECTED));
+
+        await expect(args.onFinished).toHaveBeenCalledWith(expect.objectContaining({
+            ok: false,
+            phase: ConnectionPhases.CHECK_IF_UNLOCKED,
+            status: PhaseStatuses.FAIL,
+            reason: WalletErrorReasons.USER_REJECTED,
+        }));
+    },
+};
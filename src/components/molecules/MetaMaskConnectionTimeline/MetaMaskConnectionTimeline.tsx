@@ -1,233 +1,179 @@
 // Таймлайн для отображения отдельных фаз подключения к MetaMask [★★★★☆]
 
-import { ClockCircleOutlined, LoadingOutlined } from '@ant-design/icons';
+import {
+    ClockCircleOutlined,
+    FieldTimeOutlined,
+    LoadingOutlined,
+    StopOutlined,
+    SyncOutlined,
+    TeamOutlined,
+} from '@ant-design/icons';
 import { Timeline, Typography } from 'antd';
 import * as React from 'react';
 
+import { AccountPicker } from '@/components/molecules/AccountPicker/AccountPicker';
+import {
+    type ConnectionFlowResult,
+    type ConnectionPhase,
+    PHASE_ACTIVE_STATUSES,
+    type PhaseStatus,
+    PhaseStatuses,
+    type PhaseStopStatus,
+} from '@/constants/connectionPhases';
+import { type WalletErrorReason } from '@/constants/walletErrors';
 import log from '@/log';
+import { CONNECTION_PHASE_ORDER } from '@/services/connectionPhaseRegistry';
 import { formatDateTime } from '@/services/formatDateTime';
-import {
-    mmConnectionComments,
-    type MMConnectionPhase,
-    MMConnectionPhases,
-    type MMConnectionState,
-    MMConnectionStates,
-} from '@/services/mmConnectionComments';
+import { mmConnectionComments } from '@/services/mmConnectionComments';
+import { useConnectionStore } from '@/stores/useConnectionStore';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+import { selectWalletsCount, useWalletProvidersStore } from '@/stores/useWalletProvidersStore';
 
 import classes from './MetaMaskConnectionTimeline.module.scss';
 
+/**
+ * @description Свойства таймлайна
+ *
+ * @property {Function} [onGoOn]  - Вызывается после ручного перехода к следующей фазе (через ref)
+ * @property {Function} [onBreak] - Вызывается после ручного прерывания текущей фазы (через ref)
+ * @property {Function} [onReset] - Вызывается после ручного сброса (через ref)
+ * @property {Function} [onPhaseChange] - Вызывается при каждом изменении статуса фазы (phase, status)
+ * @property {Function} [onFailed]      - Вызывается, когда фаза завершилась неудачей или таймаутом (phase, reason)
+ * @property {Function} [onFinished]    - Вызывается по итогу процесса: все фазы пройдены или процесс остановлен (result)
+ * @property {Record}   [phases]  - Контролируемая подмена статусов фаз (для историй); по умолчанию статусы берутся из useConnectionStore
+ */
 export interface MetaMaskConnectionTimelineProps {
     onGoOn?: () => void;
     onBreak?: () => void;
     onReset?: () => void;
-    phases?: Record<MMConnectionPhase, MMConnectionState>;
-    minStageTime?: number;
-
-    onCheckMetaMaskInstalled?: () => Promise<boolean>;
-    onCheckMetaMaskUnlocked?: () => Promise<boolean>;
-    onCheckMetaMaskNetwork?: () => Promise<boolean>;
-    onCheckMetaMaskAccount?: () => Promise<boolean>;
+    onPhaseChange?: (phase: ConnectionPhase, status: PhaseStatus) => void;
+    onFailed?: (phase: ConnectionPhase, reason: WalletErrorReason | null) => void;
+    onFinished?: (result: ConnectionFlowResult) => void;
+    phases?: Record<ConnectionPhase, PhaseStatus>;
 }
 
+// Статусы, на которых процесс останавливается (итог — ok: false)
+const stopStatuses: readonly PhaseStatus[] = [PhaseStatuses.FAIL, PhaseStatuses.TIMEOUT, PhaseStatuses.CANCELLED];
+
 export interface MetaMaskConnectionTimelineRef {
     goOn: () => void;
     break: () => void;
     reset: () => void;
-    getCurrentPhase: () => MMConnectionPhase;
+    getCurrentPhase: () => ConnectionPhase;
     isWaiting: () => boolean;
 }
 
+/**
+ * MetaMaskConnectionTimeline — молекула, отображающая фазы подключения к MetaMask, их статусы, время и комментарии.
+ * Собственного конечного автомата не содержит: статусы и временные метки берутся из useConnectionStore
+ * (процессом управляет хук useConnectionOrchestrator). О переходах статусов сообщает колбэками:
+ * onPhaseChange — каждое изменение статуса фазы, onFailed — неудача или таймаут фазы,
+ * onFinished — итог процесса (ConnectionFlowResult). Пока фаза ждёт выбора аккаунта (selecting), под её комментарием
+ * отображается список аккаунтов (AccountPicker). Методы ref-а (goOn, break, reset) напрямую вызывают
+ * соответствующие методы хранилища и нужны для ручного управления (истории, отладка).
+ *
+ * @component MetaMaskConnectionTimeline
+ * @category Molecules
+ * @example
+ *   <MetaMaskConnectionTimeline ref={timelineRef} />
+ */
 export const MetaMaskConnectionTimeline = React.forwardRef<MetaMaskConnectionTimelineRef, MetaMaskConnectionTimelineProps>
     ((props, ref) => {
         const {
             onGoOn,
             onBreak,
             onReset,
+            onPhaseChange,
+            onFailed,
+            onFinished,
             phases: externalPhases,
-            minStageTime = 500,
-            onCheckMetaMaskInstalled,
-            onCheckMetaMaskUnlocked,
-            onCheckMetaMaskNetwork,
-            onCheckMetaMaskAccount,
         } = props;
 
     const componentName = 'MetaMaskConnectionTimeline';
 
-    const phaseOrder: MMConnectionPhase[] = [
-        MMConnectionPhases.CHECK_IF_INSTALLED,
-        MMConnectionPhases.CHECK_IF_UNLOCKED,
-        MMConnectionPhases.CHECK_IF_CONNECTED_TO_BSC,
-        MMConnectionPhases.CHECK_OUT_ACCOUNT,
-    ];
-
-    const initialPhases: Record<MMConnectionPhase, MMConnectionState> = {
-        [MMConnectionPhases.CHECK_IF_INSTALLED]: MMConnectionStates.IN_PROGRESS,
-        [MMConnectionPhases.CHECK_IF_UNLOCKED]: MMConnectionStates.WAITING,
-        [MMConnectionPhases.CHECK_IF_CONNECTED_TO_BSC]: MMConnectionStates.WAITING,
-        [MMConnectionPhases.CHECK_OUT_ACCOUNT]: MMConnectionStates.WAITING,
-    };
+    const storeStatuses = useConnectionStore((state) => state.phaseStatuses);
+    const storeTimestamps = useConnectionStore((state) => state.phaseTimestamps);
+    const storeCurrentPhase = useConnectionStore((state) => state.currentPhase);
+    const storeReasons = useConnectionStore((state) => state.phaseReasons);
 
-    const [phasesState, setPhasesState] = React.useState<Record<MMConnectionPhase, MMConnectionState>>(
-        externalPhases || initialPhases,
-    );
+    // Количество кошельков, объявленных по EIP-6963 (для комментария к фазе проверки наличия MetaMask)
+    const walletsCount = useWalletProvidersStore(selectWalletsCount);
+    // Целевая сеть (для заголовка и комментариев фазы проверки сети)
+    const networkName = useSettingsStore((state) => selectTargetNetwork(state).name);
 
-    const [phaseTimestamps, setPhaseTimestamps] = React.useState<Record<MMConnectionPhase, string | null>>({
-        [MMConnectionPhases.CHECK_IF_INSTALLED]: null,
-        [MMConnectionPhases.CHECK_IF_UNLOCKED]: null,
-        [MMConnectionPhases.CHECK_IF_CONNECTED_TO_BSC]: null,
-        [MMConnectionPhases.CHECK_OUT_ACCOUNT]: null,
-    });
+    // Статусы фаз: контролируемая подмена (истории) или состояние хранилища
+    const phasesState: Record<ConnectionPhase, PhaseStatus> = externalPhases ?? storeStatuses;
 
-    const [isProcessing, setIsProcessing] = React.useState(false);
-    const [isFinished, setIsFinished] = React.useState(false);
+    const currentPhase = React.useMemo<ConnectionPhase>(() => {
+        if (!externalPhases) {
+            return storeCurrentPhase;
+        }
 
-    const currentPhase = React.useMemo(() => {
         return (
-            phaseOrder.find((phase) => phasesState[phase] === MMConnectionStates.IN_PROGRESS) ||
-            phaseOrder.find((phase) => phasesState[phase] !== MMConnectionStates.SUCCESS) ||
-            MMConnectionPhases.CHECK_IF_INSTALLED
+            CONNECTION_PHASE_ORDER.find((phase) => phasesState[phase] === PhaseStatuses.IN_PROGRESS) ||
+            CONNECTION_PHASE_ORDER.find((phase) => phasesState[phase] !== PhaseStatuses.SUCCESS) ||
+            CONNECTION_PHASE_ORDER[0]
         );
-    }, [phasesState]);
+    }, [externalPhases, phasesState, storeCurrentPhase]);
 
     React.useEffect(() => {
-        if (externalPhases) {
-            setPhasesState(externalPhases);
-        }
-    }, [externalPhases]);
-
-    const breakProcess = () => {
-        if (isProcessing) return;
-
-        log.debug(`${componentName}: прерывание на фазе "${currentPhase}".`);
-        setIsProcessing(true);
-
-        setTimeout(() => {
-            setPhasesState((prev) => ({
-                ...prev,
-                [currentPhase]: MMConnectionStates.FAIL,
-            }));
-
-            setPhaseTimestamps((prev) => ({
-                ...prev,
-                [currentPhase]: prev[currentPhase] || formatDateTime(),
-            }));
+        log.debug(`${componentName}: текущая фаза "${currentPhase}", статус "${phasesState[currentPhase]}".`);
+    }, [currentPhase, phasesState]);
 
-            setIsProcessing(false);
-            onBreak?.();
-        }, minStageTime);
-    };
-
-    const goOn = () => {
-        if (isProcessing) return;
-
-        const currentIndex = phaseOrder.indexOf(currentPhase);
-        const isLastPhase = currentIndex === phaseOrder.length - 1;
-        const nextPhase = isLastPhase ? null : phaseOrder[currentIndex + 1];
+    // Статусы фаз, для которых колбэки уже вызваны: сравнение с ними даёт переходы статусов
+    const notifiedStatusesRef = React.useRef(phasesState);
 
-        log.debug(`${componentName}: успешное завершение фазы "${currentPhase}".`);
-        setIsProcessing(true);
-
-        setTimeout(() => {
-            setPhasesState((prev) => {
-                const updated: Record<MMConnectionPhase, MMConnectionState> = {
-                    ...prev,
-                    [currentPhase]: MMConnectionStates.SUCCESS,
-                };
+    React.useEffect(() => {
+        const previous = notifiedStatusesRef.current;
+        if (previous === phasesState) return;
+        notifiedStatusesRef.current = phasesState;
 
-                if (nextPhase) {
-                    updated[nextPhase] = MMConnectionStates.IN_PROGRESS;
-                }
+        CONNECTION_PHASE_ORDER.forEach((phase) => {
+            const status = phasesState[phase];
+            if (status === previous[phase]) return;
 
-                return updated;
-            });
+            onPhaseChange?.(phase, status);
 
-            setPhaseTimestamps((prev) => ({
-                ...prev,
-                [currentPhase]: prev[currentPhase] || formatDateTime(),
-            }));
+            if (!stopStatuses.includes(status)) return;
 
-            setIsProcessing(false);
-            onGoOn?.();
+            const reason = externalPhases ? null : storeReasons[phase];
+            log.debug(`${componentName}: процесс остановлен на фазе "${phase}" (${status}${reason ? `, ${reason}` : ''}).`);
 
-            if (isLastPhase) {
-                log.debug(`${componentName}: достигнута последняя фаза. Завершаем таймлайн.`);
-                setIsFinished(true);
+            if (status !== PhaseStatuses.CANCELLED) {
+                onFailed?.(phase, reason);
             }
-        }, minStageTime);
-    };
-
-// Проверка завершения всех фаз
-    React.useEffect(() => {
-        const allCompleted = phaseOrder.every(
-            (phase) =>
-                phasesState[phase] === MMConnectionStates.SUCCESS ||
-                phasesState[phase] === MMConnectionStates.FAIL,
-        );
+            onFinished?.({ ok: false, phase, status: status as PhaseStopStatus, reason, finishedAt: Date.now() });
+        });
 
-        if (allCompleted && !isFinished) {
-            log.debug(`${componentName}: все фазы завершены. Останавливаем таймлайн.`);
-            setIsFinished(true);
+        const lastPhase = CONNECTION_PHASE_ORDER[CONNECTION_PHASE_ORDER.length - 1];
+        if (phasesState[lastPhase] === PhaseStatuses.SUCCESS && previous[lastPhase] !== PhaseStatuses.SUCCESS) {
+            log.debug(`${componentName}: все фазы пройдены.`);
+            onFinished?.({ ok: true, finishedAt: Date.now() });
         }
-    }, [phasesState, isFinished]);
-
-// Автоматическая проверка фаз
-    const runPhaseCheck = (
-        phase: MMConnectionPhase,
-        checker?: () => Promise<boolean>,
-    ) => {
-        if (isFinished || currentPhase !== phase || !checker) return;
-
-        const run = async () => {
-            log.debug(`${componentName}: начало проверки фазы "${phase}".`);
-            setIsProcessing(true);
-
-            const start = performance.now();
-            const result = await checker();
-            const elapsed = performance.now() - start;
-            const waitTime = Math.max(minStageTime - elapsed, 0);
-
-            setTimeout(() => {
-                result ? goOn() : breakProcess();
-            }, waitTime);
-        };
+    }, [phasesState, externalPhases, storeReasons, onPhaseChange, onFailed, onFinished]);
 
-        run().catch((err) => {
-            log.error(`${componentName}: ошибка при проверке фазы "${phase}":`, err);
-            breakProcess();
-        });
+    const goOn = () => {
+        log.debug(`${componentName}: ручное завершение фазы "${currentPhase}".`);
+        useConnectionStore.getState().goOn();
+        onGoOn?.();
     };
 
-    React.useEffect(() => {
-        runPhaseCheck(MMConnectionPhases.CHECK_IF_INSTALLED, onCheckMetaMaskInstalled);
-    }, [currentPhase, onCheckMetaMaskInstalled, isFinished]);
-
-    React.useEffect(() => {
-        runPhaseCheck(MMConnectionPhases.CHECK_IF_UNLOCKED, onCheckMetaMaskUnlocked);
-    }, [currentPhase, onCheckMetaMaskUnlocked, isFinished]);
-
-    React.useEffect(() => {
-        runPhaseCheck(MMConnectionPhases.CHECK_IF_CONNECTED_TO_BSC, onCheckMetaMaskNetwork);
-    }, [currentPhase, onCheckMetaMaskNetwork, isFinished]);
-
-    React.useEffect(() => {
-        runPhaseCheck(MMConnectionPhases.CHECK_OUT_ACCOUNT, onCheckMetaMaskAccount);
-    }, [currentPhase, onCheckMetaMaskAccount, isFinished]);
+    const breakProcess = () => {
+        log.debug(`${componentName}: ручное прерывание на фазе "${currentPhase}".`);
+        useConnectionStore.getState().goFail();
+        onBreak?.();
+    };
 
     const reset = () => {
         log.debug(`${componentName}: сброс состояния.`);
-        setPhasesState(initialPhases);
-        setPhaseTimestamps({
-            [MMConnectionPhases.CHECK_IF_INSTALLED]: null,
-            [MMConnectionPhases.CHECK_IF_UNLOCKED]: null,
-            [MMConnectionPhases.CHECK_IF_CONNECTED_TO_BSC]: null,
-            [MMConnectionPhases.CHECK_OUT_ACCOUNT]: null,
-        });
-        setIsFinished(false);
+        const { resetStatuses, firstStart } = useConnectionStore.getState();
+        resetStatuses();
+        firstStart();
         onReset?.();
     };
 
     const isWaiting = (): boolean => {
-        return phaseOrder.some((phase) => phasesState[phase] === MMConnectionStates.IN_PROGRESS);
+        return CONNECTION_PHASE_ORDER.some((phase) => PHASE_ACTIVE_STATUSES.includes(phasesState[phase]));
     };
 
     React.useImperativeHandle(ref, () => ({
@@ -238,21 +184,41 @@ export const MetaMaskConnectionTimeline = React.forwardRef<MetaMaskConnectionTim
         isWaiting,
     }));
 
-    const timelineItems = phaseOrder.map((phase) => {
+    const timelineItems = CONNECTION_PHASE_ORDER.map((phase) => {
         const state = phasesState[phase];
-        const { header, comment } = mmConnectionComments(phase, state, phaseTimestamps[phase]);
+        const timestamp = externalPhases ? null : storeTimestamps[phase];
+        const formattedTime = timestamp ? formatDateTime(new Date(timestamp)) : null;
+        const params = { walletsCount, networkName };
+        const reason = externalPhases ? null : storeReasons[phase];
+        const { header, comment } = mmConnectionComments(phase, state, formattedTime, params, reason);
 
         let color: string | undefined;
         let dot: React.ReactNode;
 
         switch (state) {
-            case MMConnectionStates.SUCCESS:
+            case PhaseStatuses.SUCCESS:
                 color = 'green';
                 break;
-            case MMConnectionStates.FAIL:
+            case PhaseStatuses.FAIL:
                 color = 'red';
                 break;
-            case MMConnectionStates.WAITING:
+            case PhaseStatuses.CANCELLED:
+                color = 'gray';
+                dot = (
+                    <span className={classes.transparentDot}>
+                    <StopOutlined style={{ fontSize: '16px' }} />
+                </span>
+                );
+                break;
+            case PhaseStatuses.TIMEOUT:
+                color = 'purple';
+                dot = (
+                    <span className={classes.transparentDot}>
+                    <FieldTimeOutlined style={{ fontSize: '16px' }} />
+                </span>
+                );
+                break;
+            case PhaseStatuses.WAITING:
                 color = 'blue';
                 dot = (
                     <span className={classes.transparentDot}>
@@ -260,7 +226,23 @@ export const MetaMaskConnectionTimeline = React.forwardRef<MetaMaskConnectionTim
                 </span>
                 );
                 break;
-            case MMConnectionStates.IN_PROGRESS:
+            case PhaseStatuses.SWITCHING:
+                color = 'orange';
+                dot = (
+                    <span className={classes.transparentDot}>
+                    <SyncOutlined style={{ fontSize: '16px' }} spin />
+                </span>
+                );
+                break;
+            case PhaseStatuses.SELECTING:
+                color = 'orange';
+                dot = (
+                    <span className={classes.transparentDot}>
+                    <TeamOutlined style={{ fontSize: '16px' }} />
+                </span>
+                );
+                break;
+            case PhaseStatuses.IN_PROGRESS:
                 dot = (
                     <span className={classes.transparentDot}>
                     <LoadingOutlined style={{ fontSize: '16px' }} spin />
@@ -273,10 +255,11 @@ export const MetaMaskConnectionTimeline = React.forwardRef<MetaMaskConnectionTim
             color,
             dot,
             children: (
-                <div className={classes.timelineItem}>
+                <div className={classes.timelineItem} data-testid={`timeline-item-${phase}`} data-status={state}>
                     <Typography.Text strong>{header}</Typography.Text>
                     <br />
                     <Typography.Text type="secondary">{comment}</Typography.Text>
+                    {state === PhaseStatuses.SELECTING && <AccountPicker />}
                 </div>
             ),
         };
@@ -287,4 +270,4 @@ export const MetaMaskConnectionTimeline = React.forwardRef<MetaMaskConnectionTim
             <Timeline items={timelineItems} />
         </div>
     );
-});
\ No newline at end of file
+});
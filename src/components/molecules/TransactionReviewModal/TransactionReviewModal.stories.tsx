@@ -0,0 +1,160 @@
+// Истории для окна проверки транзакции перед подписью (с тестами)
+
+import { type Meta, type StoryObj } from '@storybook/react';
+import { expect, userEvent, within } from '@storybook/test';
+import { I18nextProvider } from 'react-i18next';
+import { encodeErrorResult, encodeFunctionData, parseEther, parseGwei, parseUnits } from 'viem';
+
+import { BEP20_ABI } from '@/constants/contractAbis';
+import { RubasContracts } from '@/constants/contracts';
+import { RevertKinds } from '@/constants/revertReasons';
+import i18n from '@/i18n';
+import { decodeRevertData, describeRevert, type SimulationResult } from '@/services/contractSimulation';
+import { decodeContractCall, type TransactionReview } from '@/services/transactionReview';
+import { useTransactionReviewStore } from '@/stores/useTransactionReviewStore';
+
+import { TransactionReviewModal } from './TransactionReviewModal';
+
+const TOKEN_ADDRESS = '0x55d398326f99059fF775485246999027B3197955';
+const ACCOUNT = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+const RECIPIENT = '0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B';
+
+// Данные отклонения require(false, "...") — Error(string)
+const REVERT_MESSAGE = 'BEP20: transfer amount exceeds balance';
+const REVERT_DATA = encodeErrorResult({
+    abi: [{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }],
+    errorName: 'Error',
+    args: [REVERT_MESSAGE],
+});
+
+// Проверка перевода 12.5 токенов: calldata разбирается по ABI так же, как в prepareTransactionReview
+// (если баланса не хватает на value, узел отклоняет оценку газа, и комиссия неизвестна)
+const createReview = (
+    balance: bigint,
+    simulation: SimulationResult = { ok: true, result: 'true' },
+    value = 0n,
+): TransactionReview => {
+    const data = encodeFunctionData({ abi: BEP20_ABI, functionName: 'transfer', args: [RECIPIENT, parseUnits('12.5', 18)] });
+    const gas = simulation.ok && balance >= value ? 51_234n : null;
+    const gasPrice = parseGwei('1');
+    const fee = gas !== null ? gas * gasPrice : null;
+
+    return {
+        contract: RubasContracts.TOKEN,
+        address: TOKEN_ADDRESS,
+        chainId: 97,
+        account: ACCOUNT,
+        data,
+        call: decodeContractCall(BEP20_ABI, data),
+        simulation,
+        value,
+        gas,
+        gasPrice,
+        fee,
+        total: value + (fee ?? 0n),
+        balance,
+        isBalanceSufficient: balance >= value + (fee ?? 0n),
+    };
+};
+
+// Решение пользователя по последнему запросу проверки (для проверки в play)
+let decision: Promise<boolean> | null = null;
+
+const meta: Meta<typeof TransactionReviewModal> = {
+    title: 'Molecules/TransactionReviewModal',
+    component: TransactionReviewModal,
+    tags: ['autodocs'],
+    decorators: [
+        (Story) => (
+            <I18nextProvider i18n={i18n}>
+                <Story />
+            </I18nextProvider>
+        ),
+    ],
+};
+
+export default meta;
+
+type Story = StoryObj<typeof TransactionReviewModal>;
+
+// Разобранный вызов (функция и именованные аргументы), газ и комиссия; подпись завершает запрос с true
+export const Default: Story = {
+    beforeEach: () => {
+        decision = useTransactionReviewStore.getState().requestReview(createReview(parseEther('0.5')));
+    },
+    play: async () => {
+        const body = within(document.body);
+        const review = within(await body.findByTestId('transaction-review'));
+
+        await expect(review.getByTestId('transaction-review-function')).toHaveTextContent('transfer');
+        await expect(review.getByTestId('transaction-review-arguments')).toHaveTextContent(RECIPIENT);
+        await expect(review.getByTestId('transaction-review-arguments')).toHaveTextContent('12500000000000000000');
+        await expect(review.getByTestId('transaction-review-fee')).toHaveTextContent('0.000051234 tBNB');
+        await expect(review.queryByTestId('transaction-review-insufficient')).toBeNull();
+        await expect(review.getByTestId('transaction-review-simulation')).toHaveAttribute('data-status', 'ok');
+
+        await userEvent.click(body.getByTestId('transaction-review-confirm'));
+
+        await expect(decision).resolves.toBe(true);
+        await expect(body.queryByTestId('transaction-review')).toBeNull();
+    },
+};
+
+// Баланса не хватает на комиссию: предупреждение; отказ завершает запрос с false
+export const InsufficientBalance: Story = {
+    beforeEach: () => {
+        decision = useTransactionReviewStore.getState().requestReview(createReview(parseGwei('10000')));
+    },
+    play: async () => {
+        const body = within(document.body);
+
+        await expect(await body.findByTestId('transaction-review-insufficient')).toBeInTheDocument();
+
+        await userEvent.click(body.getByTestId('transaction-review-reject'));
+
+        await expect(decision).resolves.toBe(false);
+    },
+};
+
+// Баланса не хватает на value: газ не оценён, но окно открывается с предупреждением о нехватке баланса
+export const ValueExceedsBalance: Story = {
+    beforeEach: () => {
+        decision = useTransactionReviewStore.getState().requestReview(
+            createReview(parseEther('0.5'), { ok: true, result: 'true' }, parseEther('1')),
+        );
+    },
+    play: async () => {
+        const body = within(document.body);
+
+        await expect(await body.findByTestId('transaction-review-insufficient')).toBeInTheDocument();
+        await expect(body.getByTestId('transaction-review-simulation')).toHaveAttribute('data-status', 'ok');
+        await expect(body.getByTestId('transaction-review-fee')).toHaveTextContent(i18n.t('transactionReview.feeNotEstimated'));
+        await expect(body.getByTestId('transaction-review-total')).toHaveTextContent('1 tBNB');
+
+        await userEvent.click(body.getByTestId('transaction-review-reject'));
+
+        await expect(decision).resolves.toBe(false);
+    },
+};
+
+// Симуляция показала отклонение: причина разобрана из данных Error(string), подпись — только «Всё равно подписать»
+export const SimulationReverted: Story = {
+    beforeEach: () => {
+        const revert = decodeRevertData(REVERT_DATA, BEP20_ABI);
+        decision = useTransactionReviewStore.getState().requestReview(createReview(parseEther('0.5'), { ok: false, revert }));
+    },
+    play: async () => {
+        const body = within(document.body);
+        const simulation = await body.findByTestId('transaction-review-simulation');
+
+        await expect(simulation).toHaveAttribute('data-status', RevertKinds.ERROR_STRING);
+        await expect(simulation).toHaveTextContent(REVERT_MESSAGE);
+        await expect(simulation).toHaveTextContent(describeRevert(decodeRevertData(REVERT_DATA)));
+        await expect(body.getByTestId('transaction-review-fee')).toHaveTextContent(i18n.t('transactionReview.feeUnknown'));
+        await expect(body.getByTestId('transaction-review-confirm')).toHaveTextContent(i18n.t('transactionReview.proceedAnyway'));
+
+        await userEvent.click(body.getByTestId('transaction-review-confirm'));
+
+        await expect(decision).resolves.toBe(true);
+    },
+};
@@ -0,0 +1,194 @@
+// Молекула: окно проверки транзакции перед подписью (вызов, газ, комиссия и баланс) [★★★☆☆]
+
+import { Alert, Button, Descriptions, type DescriptionsProps, Modal, Table, Typography } from 'antd';
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+import { formatGwei, formatUnits } from 'viem';
+
+import log from '@/log';
+import { type DecodedArgument } from '@/services/abiArguments';
+import { describeRevert } from '@/services/contractSimulation';
+import { findNetworkByChainId } from '@/services/networkRegistry';
+import { useTransactionReviewStore } from '@/stores/useTransactionReviewStore';
+
+import classes from './TransactionReviewModal.module.scss';
+
+// Нативная монета, если сеть транзакции отсутствует в реестре сетей
+const FALLBACK_CURRENCY = { symbol: 'BNB', decimals: 18 };
+
+/**
+ * TransactionReviewModal — молекула, показывающая транзакцию, ожидающую проверки (useTransactionReviewStore),
+ * до подписи в MetaMask: контракт и сеть, функцию и именованные аргументы, разобранные из calldata по ABI,
+ * итог предварительной симуляции, оценку газа, цену газа, комиссию и итоговую сумму в нативной монете,
+ * баланс аккаунта. Если симуляция показала, что вызов будет отклонён, выводится локализованная причина
+ * (Error(string), Panic или пользовательская ошибка контракта), а подпись требует явного «Всё равно подписать».
+ * Если баланса не хватает на передаваемую сумму и комиссию, показывается предупреждение.
+ * Кнопки завершают запрос проверки: подписать (транзакция уходит в MetaMask) или отклонить.
+ *
+ * @component TransactionReviewModal
+ * @category Molecules
+ * @example
+ *   <TransactionReviewModal /> // в AppShell; запрос создаёт useRubasContractWrite
+ */
+export const TransactionReviewModal: React.FC = () => {
+    const { t } = useTranslation();
+    const componentName = 'TransactionReviewModal';
+
+    const review = useTransactionReviewStore((state) => state.request);
+    const confirm = useTransactionReviewStore((state) => state.confirm);
+    const reject = useTransactionReviewStore((state) => state.reject);
+
+    const handleConfirm = () => {
+        log.debug(`${componentName}: пользователь подписывает транзакцию.`);
+        confirm();
+    };
+
+    const handleReject = () => {
+        log.debug(`${componentName}: пользователь отклонил транзакцию.`);
+        reject();
+    };
+
+    if (!review) return null;
+
+    const network = findNetworkByChainId(review.chainId);
+    const { symbol, decimals } = network?.nativeCurrency ?? FALLBACK_CURRENCY;
+    const formatAmount = (amount: bigint) => `${formatUnits(amount, decimals)} ${symbol}`;
+    const { simulation } = review;
+    // Газ не оценён: вызов будет отклонён или оценка не удалась (например, баланса не хватает на сумму)
+    const feeUnknown = t(simulation.ok ? 'transactionReview.feeNotEstimated' : 'transactionReview.feeUnknown');
+
+    const items: DescriptionsProps['items'] = [
+        {
+            key: 'contract',
+            label: t('transactionReview.contract'),
+            children: (
+                <>
+                    {review.contract}
+                    <br />
+                    <Typography.Text code copyable className={classes.address}>{review.address}</Typography.Text>
+                </>
+            ),
+        },
+        { key: 'network', label: t('transactionReview.network'), children: network?.name ?? review.chainId },
+        {
+            key: 'function',
+            label: t('transactionReview.function'),
+            children: <Typography.Text code data-testid="transaction-review-function">{review.call.functionName}</Typography.Text>,
+        },
+        { key: 'value', label: t('transactionReview.value'), children: formatAmount(review.value) },
+        { key: 'gas', label: t('transactionReview.gas'), children: review.gas?.toString() ?? feeUnknown },
+        { key: 'gasPrice', label: t('transactionReview.gasPrice'), children: `${formatGwei(review.gasPrice)} gwei` },
+        {
+            key: 'fee',
+            label: t('transactionReview.fee'),
+            children: (
+                <span data-testid="transaction-review-fee">
+                    {review.fee !== null ? formatAmount(review.fee) : feeUnknown}
+                </span>
+            ),
+        },
+        {
+            key: 'total',
+            label: t('transactionReview.total'),
+            children: <Typography.Text strong data-testid="transaction-review-total">{formatAmount(review.total)}</Typography.Text>,
+        },
+        { key: 'balance', label: t('transactionReview.balance'), children: formatAmount(review.balance) },
+    ];
+
+    // Аргументы вызова: имя и тип параметра из ABI, значение
+    const argumentColumns = [
+        {
+            key: 'name',
+            dataIndex: 'name',
+            render: (name: string, { type }: DecodedArgument) => (
+                <>
+                    {name} <Typography.Text type="secondary">{type}</Typography.Text>
+                </>
+            ),
+        },
+        {
+            key: 'value',
+            dataIndex: 'value',
+            render: (value: string) => <Typography.Text className={classes.argumentValue}>{value}</Typography.Text>,
+        },
+    ];
+
+    return (
+        <Modal
+            open
+            title={t('transactionReview.title')}
+            onCancel={handleReject}
+            maskClosable={false}
+            width={560}
+            footer={[
+                <Button key="reject" onClick={handleReject} data-testid="transaction-review-reject">
+                    {t('transactionReview.reject')}
+                </Button>,
+                <Button
+                    key="confirm"
+                    type="primary"
+                    danger={!simulation.ok}
+                    onClick={handleConfirm}
+                    data-testid="transaction-review-confirm"
+                >
+                    {simulation.ok ? t('transactionReview.confirm') : t('transactionReview.proceedAnyway')}
+                </Button>,
+            ]}
+        >
+            <div data-testid="transaction-review">
+                <Typography.Paragraph type="secondary">{t('transactionReview.hint')}</Typography.Paragraph>
+
+                {simulation.ok ? (
+                    <Alert
+                        type="success"
+                        showIcon
+                        className={classes.warning}
+                        message={t('contractSimulation.passed')}
+                        data-testid="transaction-review-simulation"
+                        data-status="ok"
+                    />
+                ) : (
+                    <Alert
+                        type="error"
+                        showIcon
+                        className={classes.warning}
+                        message={t('contractSimulation.reverted')}
+                        description={describeRevert(simulation.revert)}
+                        data-testid="transaction-review-simulation"
+                        data-status={simulation.revert.kind}
+                    />
+                )}
+
+                {!review.isBalanceSufficient && (
+                    <Alert
+                        type="warning"
+                        showIcon
+                        className={classes.warning}
+                        message={t('transactionReview.insufficientBalance', {
+                            balance: formatUnits(review.balance, decimals),
+                            total: formatUnits(review.total, decimals),
+                            symbol,
+                        })}
+                        data-testid="transaction-review-insufficient"
+                    />
+                )}
+
+                <Descriptions column={1} size="small" bordered items={items} />
+
+                <Typography.Title level={5} className={classes.argumentsTitle}>
+                    {t('transactionReview.arguments')}
+                </Typography.Title>
+                <Table<DecodedArgument>
+                    rowKey="name"
+                    size="small"
+                    showHeader={false}
+                    pagination={false}
+                    columns={argumentColumns}
+                    dataSource={review.call.args}
+                    locale={{ emptyText: t('transactionReview.noArguments') }}
+                    data-testid="transaction-review-arguments"
+                />
+            </div>
+        </Modal>
+    );
+};
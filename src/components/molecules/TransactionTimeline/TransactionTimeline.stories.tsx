@@ -0,0 +1,184 @@
+// Истории для таймлайна транзакции (с тестами)
+
+import { type Meta, type StoryObj } from '@storybook/react';
+import { expect, within } from '@storybook/test';
+import { I18nextProvider } from 'react-i18next';
+
+import { RevertKinds } from '@/constants/revertReasons';
+import { TransactionErrors, TransactionStatuses, TX_REQUIRED_CONFIRMATIONS } from '@/constants/transactions';
+import i18n from '@/i18n';
+import { getTransactionExplorerUrl } from '@/services/blockExplorer';
+import { type DecodedRevert, describeRevert } from '@/services/contractSimulation';
+import { type TransactionRecord } from '@/stores/useTransactionStore';
+
+import { TransactionTimeline } from './TransactionTimeline';
+
+const HASH = '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060';
+const REPLACEMENT_HASH = '0x9f1c2a1b6d8e47c0a3b5f2e4d6c8a0b2e4f6a8c0d2e4f6a8b0c2d4e6f8a0b2c4';
+const CHAIN_ID = 97;
+const SUBMITTED_AT = new Date('2024-05-09T20:43:23').getTime();
+
+const baseTransaction: TransactionRecord = {
+    hash: HASH,
+    account: '0x8ba1f109551bd432803012645ac136ddd64dba72',
+    chainId: CHAIN_ID,
+    description: 'rubasToken.transfer',
+    status: TransactionStatuses.SUBMITTED,
+    confirmations: 0,
+    requiredConfirmations: TX_REQUIRED_CONFIRMATIONS,
+    blockNumber: null,
+    replacedBy: null,
+    error: null,
+    stageTimestamps: { [TransactionStatuses.SUBMITTED]: SUBMITTED_AT },
+    simulationRevert: null,
+};
+
+const meta: Meta<typeof TransactionTimeline> = {
+    title: 'Molecules/TransactionTimeline',
+    component: TransactionTimeline,
+    tags: ['autodocs'],
+    decorators: [
+        (Story) => (
+            <I18nextProvider i18n={i18n}>
+                <div style={{ padding: '20px', maxWidth: 420 }}>
+                    <Story />
+                </div>
+            </I18nextProvider>
+        ),
+    ],
+};
+
+export default meta;
+
+type Story = StoryObj<typeof TransactionTimeline>;
+
+// Транзакция ждёт включения в блок; ссылка ведёт на страницу транзакции в обозревателе сети
+export const Pending: Story = {
+    args: {
+        transaction: {
+            ...baseTransaction,
+            status: TransactionStatuses.PENDING,
+            stageTimestamps: { submitted: SUBMITTED_AT, pending: SUBMITTED_AT + 1_000 },
+        },
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+
+        await expect(canvas.getByTestId(`transaction-${HASH}`)).toHaveAttribute('data-status', TransactionStatuses.PENDING);
+        await expect(canvas.getByTestId('transaction-explorer-link'))
+            .toHaveAttribute('href', getTransactionExplorerUrl(CHAIN_ID, HASH));
+        await expect(canvas.getByTestId('transaction-stage-pending'))
+            .toHaveTextContent(i18n.t('transactions.stages.pending.inProgress'));
+    },
+};
+
+// Транзакция в блоке и набирает подтверждения
+export const Confirming: Story = {
+    args: {
+        transaction: {
+            ...baseTransaction,
+            status: TransactionStatuses.PENDING,
+            blockNumber: '45012345',
+            confirmations: 1,
+            stageTimestamps: { submitted: SUBMITTED_AT, pending: SUBMITTED_AT + 1_000 },
+        },
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+
+        await expect(canvas.getByTestId('transaction-stage-pending')).toHaveTextContent('45012345');
+        await expect(canvas.getByTestId('transaction-stage-confirmed')).toHaveTextContent(
+            i18n.t('transactions.stages.confirmed.inProgress', { confirmations: 1, required: TX_REQUIRED_CONFIRMATIONS }),
+        );
+    },
+};
+
+// Транзакция набрала нужное число подтверждений
+export const Confirmed: Story = {
+    args: {
+        transaction: {
+            ...baseTransaction,
+            status: TransactionStatuses.CONFIRMED,
+            blockNumber: '45012345',
+            confirmations: TX_REQUIRED_CONFIRMATIONS,
+            stageTimestamps: { submitted: SUBMITTED_AT, pending: SUBMITTED_AT + 1_000, confirmed: SUBMITTED_AT + 12_000 },
+        },
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+
+        await expect(canvas.getByTestId('transaction-status'))
+            .toHaveTextContent(i18n.t('transactions.statuses.confirmed'));
+        await expect(canvas.queryByTestId('transaction-stage-failed')).toBeNull();
+    },
+};
+
+// Транзакция отклонена сетью (reverted)
+export const Reverted: Story = {
+    args: {
+        transaction: {
+            ...baseTransaction,
+            status: TransactionStatuses.FAILED,
+            blockNumber: '45012345',
+            error: TransactionErrors.REVERTED,
+            stageTimestamps: { submitted: SUBMITTED_AT, pending: SUBMITTED_AT + 1_000, failed: SUBMITTED_AT + 4_000 },
+        },
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+
+        await expect(canvas.getByTestId(`transaction-${HASH}`)).toHaveAttribute('data-status', TransactionStatuses.FAILED);
+        await expect(canvas.getByTestId('transaction-stage-failed')).toHaveTextContent('reverted');
+        await expect(canvas.queryByTestId('transaction-stage-confirmed')).toBeNull();
+    },
+};
+
+// Транзакция заменена в кошельке: ссылка ведёт на заменившую транзакцию
+export const Replaced: Story = {
+    args: {
+        transaction: {
+            ...baseTransaction,
+            status: TransactionStatuses.REPLACED,
+            replacedBy: REPLACEMENT_HASH,
+            stageTimestamps: { submitted: SUBMITTED_AT, pending: SUBMITTED_AT + 1_000, replaced: SUBMITTED_AT + 30_000 },
+        },
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+
+        await expect(canvas.getByTestId('transaction-stage-pending'))
+            .toHaveTextContent(i18n.t('transactions.stages.pending.skipped'));
+        await expect(canvas.getByTestId('transaction-replacement-link'))
+            .toHaveAttribute('href', getTransactionExplorerUrl(CHAIN_ID, REPLACEMENT_HASH));
+    },
+};
+
+// Причина отклонения, найденная симуляцией: Panic 0x11 (переполнение)
+const PANIC_REVERT: DecodedRevert = {
+    kind: RevertKinds.PANIC,
+    name: null,
+    message: null,
+    panicCode: 0x11,
+    args: [],
+    raw: null,
+};
+
+// Транзакция отправлена, хотя симуляция показала отклонение: причина сохранена вместе с транзакцией
+export const SentDespiteSimulation: Story = {
+    args: {
+        transaction: {
+            ...baseTransaction,
+            status: TransactionStatuses.FAILED,
+            blockNumber: '45012345',
+            error: TransactionErrors.REVERTED,
+            simulationRevert: PANIC_REVERT,
+            stageTimestamps: { submitted: SUBMITTED_AT, pending: SUBMITTED_AT + 1_000, failed: SUBMITTED_AT + 4_000 },
+        },
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+
+        await expect(canvas.getByTestId('transaction-simulation-revert')).toHaveTextContent(describeRevert(PANIC_REVERT));
+        await expect(canvas.getByTestId('transaction-simulation-revert')).toHaveTextContent('0x11');
+    },
+};
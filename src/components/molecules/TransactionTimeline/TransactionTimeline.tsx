@@ -0,0 +1,228 @@
+// Таймлайн этапов одной транзакции: отправка, включение в блок и подтверждение [★★★☆☆]
+
+import {
+    ClockCircleOutlined,
+    ExportOutlined,
+    LoadingOutlined,
+    SwapOutlined,
+} from '@ant-design/icons';
+import { Tag, Timeline, type TimelineItemProps, Typography } from 'antd';
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+
+import classes from '@/components/molecules/MetaMaskConnectionTimeline/MetaMaskConnectionTimeline.module.scss';
+import { type TransactionStatus, TransactionStatuses } from '@/constants/transactions';
+import { getTransactionExplorerUrl } from '@/services/blockExplorer';
+import { describeRevert } from '@/services/contractSimulation';
+import { shortenAddress } from '@/services/formatAddress';
+import { formatDateTime } from '@/services/formatDateTime';
+import { type TransactionRecord } from '@/stores/useTransactionStore';
+
+import styles from './TransactionTimeline.module.scss';
+
+/**
+ * @description Свойства таймлайна транзакции
+ *
+ * @property {TransactionRecord} transaction - Транзакция из useTransactionStore
+ */
+export interface TransactionTimelineProps {
+    transaction: TransactionRecord;
+}
+
+// Цвет метки статуса транзакции
+const STATUS_TAG_COLORS: Record<TransactionStatus, string> = {
+    [TransactionStatuses.SUBMITTED]: 'blue',
+    [TransactionStatuses.PENDING]:   'processing',
+    [TransactionStatuses.CONFIRMED]: 'success',
+    [TransactionStatuses.FAILED]:    'error',
+    [TransactionStatuses.REPLACED]:  'default',
+};
+
+const waitingDot = (
+    <span className={classes.transparentDot}>
+        <ClockCircleOutlined style={{ fontSize: '16px' }} />
+    </span>
+);
+
+const progressDot = (
+    <span className={classes.transparentDot}>
+        <LoadingOutlined style={{ fontSize: '16px' }} spin />
+    </span>
+);
+
+/**
+ * TransactionTimeline — молекула, отображающая транзакцию из useTransactionStore: описание, статус, ссылку
+ * на обозреватель блоков и этапы в стиле таймлайна подключения (MetaMaskConnectionTimeline): отправка, включение
+ * в блок и итог — подтверждение (с числом набранных подтверждений), ошибка или замена транзакции.
+ * Комментарии к этапам локализованы и содержат время перехода. Если транзакция отправлена несмотря на неудачную
+ * предварительную симуляцию, у этапа отправки показывается найденная причина отклонения.
+ *
+ * @component TransactionTimeline
+ * @category Molecules
+ * @example
+ *   <TransactionTimeline transaction={transaction} />
+ */
+export const TransactionTimeline: React.FC<TransactionTimelineProps> = ({ transaction }) => {
+    const { t } = useTranslation();
+    const {
+        hash,
+        chainId,
+        description,
+        status,
+        confirmations,
+        requiredConfirmations,
+        blockNumber,
+        replacedBy,
+        error,
+        simulationRevert,
+    } = transaction;
+
+    // Время перехода в статус (локализованное) или пустая строка
+    const timeOf = (stage: TransactionStatus): string => {
+        const timestamp = transaction.stageTimestamps[stage];
+        return timestamp ? formatDateTime(new Date(timestamp)) : '';
+    };
+
+    const isIncluded = blockNumber !== null;
+    const params = { block: blockNumber, confirmations, required: requiredConfirmations };
+
+    const stageItem = (
+        stage: TransactionStatus,
+        comment: React.ReactNode,
+        item: Pick<TimelineItemProps, 'color' | 'dot'>,
+    ): TimelineItemProps => ({
+        ...item,
+        children: (
+            <div className={classes.timelineItem} data-testid={`transaction-stage-${stage}`}>
+                <Typography.Text strong>{t(`transactions.stages.${stage}.header`)}</Typography.Text>
+                <br />
+                <Typography.Text type="secondary">{comment}</Typography.Text>
+            </div>
+        ),
+    });
+
+    // Этап включения в блок: ожидание отслеживания, ожидание блока или блок транзакции
+    const pendingItem = (() => {
+        if (isIncluded) {
+            return stageItem(
+                TransactionStatuses.PENDING,
+                t('transactions.stages.pending.done', { ...params, time: timeOf(TransactionStatuses.PENDING) }),
+                { color: 'green' },
+            );
+        }
+
+        switch (status) {
+            case TransactionStatuses.SUBMITTED:
+                return stageItem(TransactionStatuses.PENDING, t('transactions.stages.pending.waiting'), {
+                    color: 'blue',
+                    dot: waitingDot,
+                });
+            case TransactionStatuses.PENDING:
+                return stageItem(TransactionStatuses.PENDING, t('transactions.stages.pending.inProgress'), {
+                    dot: progressDot,
+                });
+            default:
+                return stageItem(TransactionStatuses.PENDING, t('transactions.stages.pending.skipped'), {
+                    color: 'gray',
+                });
+        }
+    })();
+
+    // Итоговый этап: подтверждение (в том числе ещё не достигнутое), ошибка или замена
+    const finalItem = (() => {
+        switch (status) {
+            case TransactionStatuses.CONFIRMED:
+                return stageItem(
+                    TransactionStatuses.CONFIRMED,
+                    t('transactions.stages.confirmed.done', { ...params, time: timeOf(TransactionStatuses.CONFIRMED) }),
+                    { color: 'green' },
+                );
+            case TransactionStatuses.FAILED:
+                return stageItem(
+                    TransactionStatuses.FAILED,
+                    error ? t(`transactions.errors.${error}`, { ...params, time: timeOf(TransactionStatuses.FAILED) }) : null,
+                    { color: 'red' },
+                );
+            case TransactionStatuses.REPLACED:
+                return stageItem(
+                    TransactionStatuses.REPLACED,
+                    <>
+                        {t('transactions.stages.replaced.done', { time: timeOf(TransactionStatuses.REPLACED) })}
+                        {replacedBy && (
+                            <>
+                                <br />
+                                <Typography.Link
+                                    href={getTransactionExplorerUrl(chainId, replacedBy)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    data-testid="transaction-replacement-link"
+                                >
+                                    {t('transactions.openReplacement')} ({shortenAddress(replacedBy)})
+                                </Typography.Link>
+                            </>
+                        )}
+                    </>,
+                    {
+                        color: 'gray',
+                        dot: (
+                            <span className={classes.transparentDot}>
+                                <SwapOutlined style={{ fontSize: '16px' }} />
+                            </span>
+                        ),
+                    },
+                );
+            default:
+                return isIncluded
+                    ? stageItem(TransactionStatuses.CONFIRMED, t('transactions.stages.confirmed.inProgress', params), {
+                        dot: progressDot,
+                    })
+                    : stageItem(TransactionStatuses.CONFIRMED, t('transactions.stages.confirmed.waiting', params), {
+                        color: 'blue',
+                        dot: waitingDot,
+                    });
+        }
+    })();
+
+    const items: TimelineItemProps[] = [
+        stageItem(
+            TransactionStatuses.SUBMITTED,
+            <>
+                {t('transactions.stages.submitted.done', { time: timeOf(TransactionStatuses.SUBMITTED) })}
+                {simulationRevert && (
+                    <>
+                        <br />
+                        <Typography.Text type="warning" data-testid="transaction-simulation-revert">
+                            {t('transactions.simulationReverted', { reason: describeRevert(simulationRevert) })}
+                        </Typography.Text>
+                    </>
+                )}
+            </>,
+            { color: simulationRevert ? 'orange' : 'green' },
+        ),
+        pendingItem,
+        finalItem,
+    ];
+
+    return (
+        <div className={styles.transaction} data-testid={`transaction-${hash}`} data-status={status}>
+            <div className={styles.summary}>
+                <Typography.Text strong>{description}</Typography.Text>
+                <Tag color={STATUS_TAG_COLORS[status]} data-testid="transaction-status">
+                    {t(`transactions.statuses.${status}`)}
+                </Tag>
+            </div>
+            <Typography.Link
+                href={getTransactionExplorerUrl(chainId, hash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={styles.explorerLink}
+                data-testid="transaction-explorer-link"
+            >
+                {shortenAddress(hash)} <ExportOutlined />
+            </Typography.Link>
+            <div className={classes.container}>
+                <Timeline items={items} />
+            </div>
+        </div>
+    );
+};
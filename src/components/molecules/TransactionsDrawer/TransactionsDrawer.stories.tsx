@@ -0,0 +1,97 @@
+// Истории для боковой панели транзакций (с тестами)
+
+import { type Meta, type StoryObj } from '@storybook/react';
+import { expect, fn, userEvent, within } from '@storybook/test';
+import { I18nextProvider } from 'react-i18next';
+
+import { TransactionStatuses } from '@/constants/transactions';
+import i18n from '@/i18n';
+import { useTransactionStore } from '@/stores/useTransactionStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+
+import { TransactionsDrawer } from './TransactionsDrawer';
+
+const ACCOUNT = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+const CHAIN_ID = 97;
+const PENDING_HASH = '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060';
+const CONFIRMED_HASH = '0x9f1c2a1b6d8e47c0a3b5f2e4d6c8a0b2e4f6a8c0d2e4f6a8b0c2d4e6f8a0b2c4';
+const OTHER_CHAIN_HASH = '0x1d2c3b4a5f6e7d8c9b0a1f2e3d4c5b6a7f8e9d0c1b2a3f4e5d6c7b8a9f0e1d2c';
+
+// Подключённый аккаунт в сети CHAIN_ID и его транзакции: отслеживаемая, подтверждённая и транзакция в другой сети
+const seedTransactions = () => {
+    useWalletStore.getState().setState({ isConnected: true, account: ACCOUNT, accounts: [ACCOUNT], chainId: CHAIN_ID });
+
+    const { addTransaction, updateTransaction } = useTransactionStore.getState();
+    useTransactionStore.setState({ transactions: {} });
+
+    addTransaction({ hash: CONFIRMED_HASH, account: ACCOUNT, chainId: CHAIN_ID, description: 'rubasToken.approve' });
+    updateTransaction(CONFIRMED_HASH, { status: TransactionStatuses.CONFIRMED, blockNumber: '45012345', confirmations: 3 });
+    addTransaction({ hash: PENDING_HASH, account: ACCOUNT, chainId: CHAIN_ID, description: 'rubasToken.transfer' });
+    updateTransaction(PENDING_HASH, { status: TransactionStatuses.PENDING });
+    addTransaction({ hash: OTHER_CHAIN_HASH, account: ACCOUNT, chainId: 56, description: 'rubasToken.transfer' });
+};
+
+const meta: Meta<typeof TransactionsDrawer> = {
+    title: 'Molecules/TransactionsDrawer',
+    component: TransactionsDrawer,
+    tags: ['autodocs'],
+    decorators: [
+        (Story) => (
+            <I18nextProvider i18n={i18n}>
+                <div style={{ padding: '20px' }}>
+                    <Story />
+                </div>
+            </I18nextProvider>
+        ),
+    ],
+    args: {
+        open: true,
+        onClose: fn(),
+    },
+};
+
+export default meta;
+
+type Story = StoryObj<typeof TransactionsDrawer>;
+
+// Транзакции текущего аккаунта в сети кошелька (новые — сверху); транзакции других сетей не показываются
+export const Default: Story = {
+    beforeEach: seedTransactions,
+    play: async () => {
+        const body = within(document.body);
+        const drawer = within(await body.findByTestId('transactions-drawer'));
+
+        await expect(drawer.getByTestId(`transaction-${PENDING_HASH}`)).toBeInTheDocument();
+        await expect(drawer.getByTestId(`transaction-${CONFIRMED_HASH}`)).toBeInTheDocument();
+        await expect(drawer.queryByTestId(`transaction-${OTHER_CHAIN_HASH}`)).toBeNull();
+    },
+};
+
+// Очистка убирает завершённые транзакции, отслеживаемые остаются
+export const ClearFinished: Story = {
+    beforeEach: seedTransactions,
+    play: async () => {
+        const body = within(document.body);
+        const drawer = within(await body.findByTestId('transactions-drawer'));
+
+        await userEvent.click(body.getByTestId('transactions-clear-finished'));
+
+        await expect(drawer.queryByTestId(`transaction-${CONFIRMED_HASH}`)).toBeNull();
+        await expect(drawer.getByTestId(`transaction-${PENDING_HASH}`)).toBeInTheDocument();
+        await expect(body.getByTestId('transactions-clear-finished')).toBeDisabled();
+    },
+};
+
+// Аккаунт ещё не отправлял транзакций
+export const Empty: Story = {
+    beforeEach: () => {
+        useWalletStore.getState().setState({ isConnected: true, account: ACCOUNT, accounts: [ACCOUNT], chainId: CHAIN_ID });
+        useTransactionStore.setState({ transactions: {} });
+    },
+    play: async () => {
+        const body = within(document.body);
+
+        await expect(await body.findByTestId('transactions-empty')).toHaveTextContent(i18n.t('transactions.empty'));
+        await expect(body.getByTestId('transactions-clear-finished')).toBeDisabled();
+    },
+};
@@ -0,0 +1,87 @@
+// Молекула: боковая панель транзакций подключённого аккаунта в текущей сети [★★★☆☆]
+
+import { ClearOutlined } from '@ant-design/icons';
+import { Button, Drawer, Empty } from 'antd';
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { TransactionTimeline } from '@/components/molecules/TransactionTimeline/TransactionTimeline';
+import log from '@/log';
+import { isTransactionActive, selectTransactions, useTransactionStore } from '@/stores/useTransactionStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+
+import classes from './TransactionsDrawer.module.scss';
+
+/**
+ * @description Свойства боковой панели транзакций
+ *
+ * @property {boolean}  open           - Открыта ли панель
+ * @property {Function} onClose        - Закрытие панели (крестик)
+ * @property {Function} [getContainer] - Контейнер панели
+ * @property {object}   [rootStyle]    - Стиль корневого элемента панели
+ */
+export interface TransactionsDrawerProps {
+    open: boolean;
+    onClose: () => void;
+    getContainer?: () => HTMLElement;
+    rootStyle?: React.CSSProperties;
+}
+
+/**
+ * TransactionsDrawer — молекула, показывающая транзакции подключённого аккаунта в сети кошелька
+ * (useTransactionStore): для каждой — таймлайн этапов (TransactionTimeline) со ссылкой на обозреватель блоков.
+ * Завершённые транзакции (подтверждённые, неудачные и заменённые) можно очистить; отслеживаемые остаются.
+ *
+ * @component TransactionsDrawer
+ * @category Molecules
+ * @example
+ *   <TransactionsDrawer open={isOpen} onClose={() => setOpen(false)} />
+ */
+export const TransactionsDrawer: React.FC<TransactionsDrawerProps> = ({ open, onClose, getContainer, rootStyle }) => {
+    const { t } = useTranslation();
+
+    const account = useWalletStore((state) => state.account);
+    const chainId = useWalletStore((state) => state.chainId);
+    const transactions = useTransactionStore((state) => selectTransactions(state, account, chainId));
+
+    const hasFinished = transactions.some((transaction) => !isTransactionActive(transaction));
+
+    const handleClearFinished = () => {
+        if (!account || chainId === null) return;
+
+        log.debug('TransactionsDrawer: пользователь очистил завершённые транзакции.');
+        useTransactionStore.getState().clearFinished(account, chainId);
+    };
+
+    return (
+        <Drawer
+            title={t('transactions.drawerTitle')}
+            placement="right"
+            open={open}
+            onClose={onClose}
+            width={420}
+            getContainer={getContainer}
+            rootStyle={rootStyle}
+            extra={(
+                <Button
+                    icon={<ClearOutlined />}
+                    disabled={!hasFinished}
+                    onClick={handleClearFinished}
+                    data-testid="transactions-clear-finished"
+                >
+                    {t('transactions.clearFinished')}
+                </Button>
+            )}
+        >
+            <div className={classes.content} data-testid="transactions-drawer">
+                {transactions.length === 0 ? (
+                    <Empty description={t('transactions.empty')} data-testid="transactions-empty" />
+                ) : (
+                    transactions.map((transaction) => (
+                        <TransactionTimeline key={transaction.hash} transaction={transaction} />
+                    ))
+                )}
+            </div>
+        </Drawer>
+    );
+};
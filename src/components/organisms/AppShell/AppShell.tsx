@@ -4,59 +4,163 @@
 
  Организм: AppShell — адаптивный интерфейс приложения, который включает в себя: заголовок (header),
  навигационную панель (navbar), боковую панель (aside) и подвал (footer).
- Также содержит кнопку подключения кошелька MetaMask и боковую панель с прогрессом подключения.
+ Также содержит кнопку подключения кошелька MetaMask (после подключения — состояние кошелька с меню действий),
+ боковую панель с прогрессом подключения и навигацию между главной страницей и страницей настроек.
+ После подключения в заголовке доступна кнопка транзакций (с числом отслеживаемых) и боковая панель транзакций.
+ Перед подписью каждой транзакции показывается окно её проверки.
  @module AppShell */
 
-import { Layout } from 'antd';
+import { HistoryOutlined, HomeOutlined, SettingOutlined } from '@ant-design/icons';
+import { Badge, Button, Layout, Menu, type MenuProps, Tooltip } from 'antd';
 import * as React from 'react';
+import { useTranslation } from 'react-i18next';
 
 import { ConnectWalletButton } from '@/components/atoms/Buttons/ConnectWalletButton/ConnectWalletButton';
 import { MetaMaskConnectionDrawer } from '@/components/molecules/MetaMaskConnectionDrawer/MetaMaskConnectionDrawer';
+import { TransactionReviewModal } from '@/components/molecules/TransactionReviewModal/TransactionReviewModal';
+import { TransactionsDrawer } from '@/components/molecules/TransactionsDrawer/TransactionsDrawer';
+import { SettingsPage } from '@/components/organisms/SettingsPage/SettingsPage';
+import { WalletStatusDropdown } from '@/components/organisms/WalletStatusDropdown/WalletStatusDropdown';
+import { type ConnectionFlowResult, type ConnectionPhase } from '@/constants/connectionPhases';
+import { type WalletErrorReason } from '@/constants/walletErrors';
+import { useSessionRestore } from '@/hooks/useSessionRestore';
+import { useTransactionTracking } from '@/hooks/useTransactionTracking';
+import { useWalletButtonState } from '@/hooks/useWalletButtonState';
+import { useWalletProviderEvents } from '@/hooks/useWalletProviderEvents';
 import log from '@/log';
+import { isTransactionActive, selectTransactions, useTransactionStore } from '@/stores/useTransactionStore';
+import { useWalletStore } from '@/stores/useWalletStore';
 
 import styles from './AppShell.module.scss';
 
 const { Header, Sider, Content, Footer } = Layout;
 
+// Разделы приложения, доступные из навигации
+type AppSection = 'home' | 'settings';
+
 export const AppShell: React.FC = () => {
+    const { t } = useTranslation();
     const [isDrawerOpen, setDrawerOpen] = React.useState(false);
+    const [isTransactionsOpen, setTransactionsOpen] = React.useState(false);
+    const [section, setSection] = React.useState<AppSection>('home');
+
+    // Синхронизация хранилищ с событиями кошелька (accountsChanged, chainChanged и т.д.)
+    useWalletProviderEvents();
+
+    // Тихое восстановление недавнего подключения после перезагрузки страницы (без панели подключения)
+    const restoreStatus = useSessionRestore();
+
+    // Отслеживание отправленных транзакций до подтверждения (в том числе сохранённых до перезагрузки страницы)
+    useTransactionTracking();
+
+    // Состояние кошелька: после подключения (в том числе если кошелёк затем перешёл в другую сеть)
+    // вместо кнопки показывается WalletStatusDropdown
+    const { state: walletState } = useWalletButtonState();
+
+    // Число отслеживаемых транзакций аккаунта в сети кошелька (для значка на кнопке транзакций)
+    const account = useWalletStore((state) => state.account);
+    const chainId = useWalletStore((state) => state.chainId);
+    const pendingCount = useTransactionStore(
+        (state) => selectTransactions(state, account, chainId).filter(isTransactionActive).length,
+    );
 
     const contentRef = React.useRef<HTMLDivElement>(null);
 
+    const navigationItems: MenuProps['items'] = [
+        { key: 'home', icon: <HomeOutlined />, label: t('appShell.navigation.home') },
+        { key: 'settings', icon: <SettingOutlined />, label: t('appShell.navigation.settings') },
+    ];
+
+    const handleNavigate: MenuProps['onClick'] = ({ key }) => {
+        log.debug(`AppShell: переход в раздел "${key}".`);
+        setSection(key as AppSection);
+    };
+
     const handleOpenDrawer = () => {
         log.debug('AppShell: пользователь нажал кнопку подключения кошелька. Открываем боковую панель.');
         setDrawerOpen(true);
     };
 
+    // Незавершённый процесс подключения MetaMaskConnectionDrawer отменяет сам до вызова onClose
     const handleCloseDrawer = () => {
         log.debug('AppShell: пользователь закрыл боковую панель (крестик).');
         setDrawerOpen(false);
     };
 
+    const handleOpenTransactions = () => {
+        log.debug('AppShell: пользователь открыл боковую панель транзакций.');
+        setTransactionsOpen(true);
+    };
+
+    // Итог процесса подключения: при успехе панель закрывается сама (MetaMaskConnectionDrawer, autoClose)
+    const handleConnectionFinished = React.useCallback((result: ConnectionFlowResult) => {
+        if (result.ok) {
+            log.debug('AppShell: подключение к MetaMask завершено успешно.');
+        } else {
+            log.debug(`AppShell: подключение остановлено на фазе "${result.phase}" (${result.status}).`);
+        }
+    }, []);
+
+    const handleConnectionFailed = React.useCallback((phase: ConnectionPhase, reason: WalletErrorReason | null) => {
+        log.warn(`AppShell: фаза подключения "${phase}" завершилась неудачей${reason ? ` (${reason})` : ''}.`);
+    }, []);
+
+    // Сам процесс подключения (ожидание ответа кошелька) прерывает MetaMaskConnectionDrawer до вызова onCancel
     const handleCancelConnection = () => {
-        log.debug('AppShell: пользователь отменил подключение к MetaMask. Закрываем боковую панель и сбрасываем процесс.');
+        log.debug('AppShell: пользователь отменил подключение к MetaMask. Закрываем боковую панель.');
         setDrawerOpen(false);
-        // TODO: добавить логику отмены подключения (например, через ref)
     };
 
     return (
         <>
             <Layout className={styles.rootLayout}>
                 <Sider width={200} className={styles.sider}>
-                    {/* Навигация */}
+                    <Menu
+                        mode="inline"
+                        selectedKeys={[section]}
+                        items={navigationItems}
+                        onClick={handleNavigate}
+                    />
                 </Sider>
 
                 <Layout className={styles.innerLayout}>
                     <Header className={styles.header}>
-                        <ConnectWalletButton onClick={handleOpenDrawer} />
+                        {walletState === 'connected' || walletState === 'wrongNetwork' ? (
+                            <div className={styles.headerActions}>
+                                <Tooltip title={t('transactions.open')}>
+                                    <Badge count={pendingCount} size="small">
+                                        <Button
+                                            icon={<HistoryOutlined />}
+                                            aria-label={t('transactions.open')}
+                                            onClick={handleOpenTransactions}
+                                            data-testid="transactions-open"
+                                        />
+                                    </Badge>
+                                </Tooltip>
+                                <WalletStatusDropdown />
+                            </div>
+                        ) : (
+                            <ConnectWalletButton
+                                onConnect={handleOpenDrawer}
+                                loading={restoreStatus === 'restoring'}
+                            />
+                        )}
                     </Header>
 
                     <Content className={styles.content} ref={contentRef}>
-                        Main Content
+                        {section === 'settings' ? <SettingsPage /> : 'Main Content'}
                         <MetaMaskConnectionDrawer
                             open={isDrawerOpen}
                             onClose={handleCloseDrawer}
                             onCancel={handleCancelConnection}
+                            onFinished={handleConnectionFinished}
+                            onFailed={handleConnectionFailed}
+                            getContainer={() => contentRef.current!}
+                            rootStyle={{ position: 'absolute' }}
+                        />
+                        <TransactionsDrawer
+                            open={isTransactionsOpen}
+                            onClose={() => setTransactionsOpen(false)}
                             getContainer={() => contentRef.current!}
                             rootStyle={{ position: 'absolute' }}
                         />
@@ -67,6 +171,8 @@ export const AppShell: React.FC = () => {
                     </Footer>
                 </Layout>
             </Layout>
+
+            <TransactionReviewModal />
         </>
     );
 };
\ No newline at end of file
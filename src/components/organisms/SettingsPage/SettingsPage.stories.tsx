@@ -0,0 +1,98 @@
+// Истории для страницы настроек приложения (с тестами)
+
+import { type Meta, type StoryObj } from '@storybook/react';
+import { expect, userEvent, waitFor, within } from '@storybook/test';
+import { I18nextProvider } from 'react-i18next';
+
+import { NETWORK_REGISTRY, NetworkIds } from '@/constants/network';
+import i18n from '@/i18n';
+import { DEFAULT_NETWORK_ID } from '@/services/networkRegistry';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+
+import { SettingsPage } from './SettingsPage';
+
+// Выбирает сеть в выпадающем списке (варианты antd Select отображаются в document.body)
+const chooseNetwork = async (canvasElement: HTMLElement, name: string): Promise<void> => {
+    await userEvent.click(within(canvasElement).getByRole('combobox'));
+
+    const dropdown = await waitFor(() => {
+        const element = document.querySelector<HTMLElement>('.ant-select-dropdown:not(.ant-select-dropdown-hidden)');
+        expect(element).not.toBeNull();
+        return element!;
+    });
+
+    await userEvent.click(within(dropdown).getByText(name));
+};
+
+const meta: Meta<typeof SettingsPage> = {
+    title: 'Organisms/SettingsPage',
+    component: SettingsPage,
+    tags: ['autodocs'],
+    decorators: [
+        (Story) => (
+            <I18nextProvider i18n={i18n}>
+                <div style={{ padding: '20px', background: '#fff' }}>
+                    <Story />
+                </div>
+            </I18nextProvider>
+        ),
+    ],
+    beforeEach: () => {
+        useSettingsStore.setState({ networkId: DEFAULT_NETWORK_ID });
+        useWalletStore.getState().resetState();
+    },
+};
+
+export default meta;
+
+type Story = StoryObj<typeof SettingsPage>;
+
+// Параметры сети по умолчанию (из VITE_DEFAULT_NETWORK)
+export const Default: Story = {
+    play: async ({ canvasElement }) => {
+        const details = within(canvasElement).getByTestId('settings-network-details');
+        const network = NETWORK_REGISTRY[DEFAULT_NETWORK_ID];
+
+        await expect(details).toHaveTextContent(String(network.chainId));
+        await expect(details).toHaveTextContent(network.explorerUrl);
+        await expect(within(canvasElement).queryByTestId('settings-network-warning')).toBeNull();
+    },
+};
+
+// Выбор тестовой сети сохраняется в настройках, параметры сети обновляются
+export const SelectTestnet: Story = {
+    play: async ({ canvasElement }) => {
+        const testnet = NETWORK_REGISTRY[NetworkIds.BSC_TESTNET];
+
+        await chooseNetwork(canvasElement, testnet.name);
+
+        await waitFor(() => expect(useSettingsStore.getState().networkId).toBe(NetworkIds.BSC_TESTNET));
+        const details = within(canvasElement).getByTestId('settings-network-details');
+        await expect(details).toHaveTextContent(testnet.chainHex);
+        await expect(details).toHaveTextContent(testnet.nativeCurrency.symbol);
+    },
+};
+
+// Кошелёк остаётся в прежней сети: показывается предупреждение о необходимости переключения
+export const WalletOnOtherNetwork: Story = {
+    beforeEach: () => {
+        useSettingsStore.setState({ networkId: NetworkIds.BSC_MAINNET });
+        useWalletStore.getState().setState({
+            isConnected: true,
+            isCorrectNetwork: true,
+            account: '0x8ba1f109551bD432803012645Ac136ddd64DBA72',
+            chainId: NETWORK_REGISTRY[NetworkIds.BSC_MAINNET].chainId,
+        });
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+        const opBnb = NETWORK_REGISTRY[NetworkIds.OPBNB_MAINNET];
+
+        await expect(canvas.queryByTestId('settings-network-warning')).toBeNull();
+
+        await chooseNetwork(canvasElement, opBnb.name);
+
+        await expect(await canvas.findByTestId('settings-network-warning')).toHaveTextContent(opBnb.name);
+    },
+};
@@ -0,0 +1,106 @@
+// Организм: страница настроек приложения (выбор целевой сети) [★★☆☆☆]
+
+import { Alert, Descriptions, Select, Space, Tag, Typography } from 'antd';
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { type NetworkId } from '@/constants/network';
+import log from '@/log';
+import { NETWORK_LIST } from '@/services/networkRegistry';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+
+import classes from './SettingsPage.module.scss';
+
+const { Title, Text } = Typography;
+
+/**
+ * SettingsPage — организм со страницей настроек приложения. Позволяет выбрать целевую сеть из реестра сетей
+ * (BNB Smart Chain Mainnet, BNB Smart Chain Testnet, opBNB) и показывает её параметры: chainId, RPC-узел,
+ * обозреватель блоков и нативную валюту. Выбор сохраняется в useSettingsStore; проверка сети при подключении,
+ * комментарии к фазе и переключение (добавление) сети в кошельке следуют выбранной сети.
+ * Если подключённый кошелёк находится в другой сети, показывается предупреждение.
+ *
+ * @component SettingsPage
+ * @category Organisms
+ * @example
+ *   {section === 'settings' && <SettingsPage />}
+ */
+export const SettingsPage: React.FC = () => {
+    const { t } = useTranslation();
+    const componentName = 'SettingsPage';
+
+    const networkId = useSettingsStore((state) => state.networkId);
+    const setNetworkId = useSettingsStore((state) => state.setNetworkId);
+    const targetNetwork = useSettingsStore(selectTargetNetwork);
+    const isConnected = useWalletStore((state) => state.isConnected);
+    const walletChainId = useWalletStore((state) => state.chainId);
+
+    const options = React.useMemo(
+        () => NETWORK_LIST.map((network) => ({
+            value: network.id,
+            label: (
+                <Space>
+                    {network.name}
+                    <Text type="secondary">{network.chainId}</Text>
+                    {network.testnet && <Tag color="orange">{t('settings.network.testnet')}</Tag>}
+                </Space>
+            ),
+        })),
+        [t],
+    );
+
+    const handleChange = (value: NetworkId) => {
+        log.debug(`${componentName}: пользователь выбрал сеть "${value}".`);
+        setNetworkId(value);
+    };
+
+    return (
+        <div className={classes.page} data-testid="settings-page">
+            <Title level={3}>{t('settings.title')}</Title>
+
+            <Space direction="vertical" size="middle" className={classes.section}>
+                <Text strong>{t('settings.network.label')}</Text>
+                <Select
+                    value={networkId}
+                    options={options}
+                    onChange={handleChange}
+                    className={classes.select}
+                    data-testid="settings-network-select"
+                />
+                <Text type="secondary">{t('settings.network.hint')}</Text>
+
+                {isConnected && walletChainId !== null && walletChainId !== targetNetwork.chainId && (
+                    <Alert
+                        type="warning"
+                        showIcon
+                        message={t('settings.network.walletOnOtherNetwork', { network: targetNetwork.name })}
+                        data-testid="settings-network-warning"
+                    />
+                )}
+
+                <Descriptions
+                    column={1}
+                    size="small"
+                    bordered
+                    data-testid="settings-network-details"
+                >
+                    <Descriptions.Item label={t('settings.network.chainId')}>
+                        {targetNetwork.chainId} ({targetNetwork.chainHex})
+                    </Descriptions.Item>
+                    <Descriptions.Item label={t('settings.network.rpcUrl')}>
+                        {targetNetwork.rpcUrls[0]}
+                    </Descriptions.Item>
+                    <Descriptions.Item label={t('settings.network.explorer')}>
+                        <a href={targetNetwork.explorerUrl} target="_blank" rel="noopener noreferrer">
+                            {targetNetwork.explorerUrl}
+                        </a>
+                    </Descriptions.Item>
+                    <Descriptions.Item label={t('settings.network.currency')}>
+                        {targetNetwork.nativeCurrency.symbol}
+                    </Descriptions.Item>
+                </Descriptions>
+            </Space>
+        </div>
+    );
+};
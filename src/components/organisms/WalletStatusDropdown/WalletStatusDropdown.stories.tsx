@@ -0,0 +1,228 @@
+// Истории для состояния подключённого кошелька в заголовке (с тестами)
+
+import { type Meta, type StoryObj } from '@storybook/react';
+import { expect, userEvent, waitFor, within } from '@storybook/test';
+import { I18nextProvider } from 'react-i18next';
+import { getAddress, parseEther } from 'viem';
+import { connect } from 'wagmi/actions';
+
+import { ConnectionPhases, PhaseStatuses } from '@/constants/connectionPhases';
+import i18n from '@/i18n';
+import { getMockEthereumProvider, MockProviderScenarios } from '@/mocks/mockEthereumProvider';
+import { getChainInfo } from '@/services/blockExplorer';
+import { findMetaMaskProvider } from '@/services/eip6963ProviderDiscovery';
+import { shortenAddress } from '@/services/formatAddress';
+import { useConnectionStore } from '@/stores/useConnectionStore';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+import { useSiweSessionStore } from '@/stores/useSiweSessionStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+import { getMetaMaskConnector, wagmiConfig } from '@/wagmi';
+
+import { WalletStatusDropdown } from './WalletStatusDropdown';
+
+// Сеть, к которой подключается mock-кошелёк (целевая сеть из настроек)
+const getTargetChainId = (): number => selectTargetNetwork(useSettingsStore.getState()).chainId;
+
+// Подключает mock-кошелёк в указанной сети (как после успешного процесса подключения)
+const connectMockWallet = async (chainId: number): Promise<string> => {
+    const provider = getMockEthereumProvider();
+    await findMetaMaskProvider();
+    const accounts = await provider?.request<string[]>({ method: 'eth_accounts' }) ?? [];
+
+    useWalletStore.getState().setState({
+        isMetaMaskAvailable: true,
+        isMetaMaskUnlocked: true,
+        isConnected: true,
+        isCorrectNetwork: chainId === getTargetChainId(),
+        account: provider?.address ?? null,
+        accounts,
+        chainId,
+    });
+
+    return provider?.address ?? '';
+};
+
+const meta: Meta<typeof WalletStatusDropdown> = {
+    title: 'Organisms/WalletStatusDropdown',
+    component: WalletStatusDropdown,
+    tags: ['autodocs'],
+    decorators: [
+        (Story) => (
+            <I18nextProvider i18n={i18n}>
+                <div style={{ padding: '20px', background: '#fff', display: 'flex', justifyContent: 'flex-end' }}>
+                    <Story />
+                </div>
+            </I18nextProvider>
+        ),
+    ],
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.CONNECTED, authorized: true, balance: parseEther('1.5') },
+    },
+    beforeEach: () => {
+        useWalletStore.getState().resetState();
+    },
+};
+
+export default meta;
+
+type Story = StoryObj<typeof WalletStatusDropdown>;
+
+// Аккаунт (identicon и сокращённый checksum-адрес), сеть и баланс
+export const Default: Story = {
+    play: async ({ canvasElement }) => {
+        const address = await connectMockWallet(getTargetChainId());
+        const canvas = within(canvasElement);
+
+        const trigger = await canvas.findByTestId('wallet-status-dropdown');
+        await expect(trigger).toHaveTextContent(shortenAddress(getAddress(address)));
+        await expect(within(trigger).getByTestId('identicon')).toBeInTheDocument();
+        await expect(canvas.getByTestId('wallet-status-network')).toHaveTextContent(getChainInfo(getTargetChainId())?.name ?? '');
+        await waitFor(() => expect(canvas.getByTestId('wallet-status-balance')).toHaveTextContent('1.5 BNB'));
+    },
+};
+
+// Кошелёк в сети, которую приложение не поддерживает: сеть выделена красным, меню предлагает переключиться
+export const WrongNetwork: Story = {
+    play: async ({ canvasElement }) => {
+        await connectMockWallet(1);
+        const canvas = within(canvasElement);
+
+        const network = await canvas.findByTestId('wallet-status-network');
+        await expect(network).toHaveTextContent(i18n.t('walletStatus.unknownNetwork', { chainId: 1 }));
+        await expect(network).toHaveClass('ant-tag-red');
+
+        await userEvent.click(canvas.getByTestId('wallet-status-dropdown'));
+        await expect(await within(document.body).findByTestId('wallet-action-switchNetwork'))
+            .toHaveTextContent(selectTargetNetwork(useSettingsStore.getState()).name);
+    },
+};
+
+// Переключение на целевую сеть из меню: сеть добавляется в кошелёк и выбирается, фаза сети снова пройдена
+export const SwitchNetwork: Story = {
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.CHAIN_SWITCH_SUCCEEDS, authorized: true },
+    },
+    play: async ({ canvasElement }) => {
+        await connectMockWallet(1);
+        await connect(wagmiConfig, { connector: getMetaMaskConnector() });
+        useConnectionStore.getState().restore();
+        useConnectionStore.getState().setPhaseStatus(ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK, PhaseStatuses.FAIL);
+
+        const canvas = within(canvasElement);
+        const network = await canvas.findByTestId('wallet-status-network');
+
+        await userEvent.click(canvas.getByTestId('wallet-status-dropdown'));
+        await userEvent.click(await within(document.body).findByTestId('wallet-action-switchNetwork'));
+
+        await waitFor(() => expect(useConnectionStore.getState().phaseStatuses[ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK])
+            .toBe(PhaseStatuses.SUCCESS));
+        await expect(useWalletStore.getState().isCorrectNetwork).toBe(true);
+        await expect(network).toHaveTextContent(getChainInfo(getTargetChainId())?.name ?? '');
+        await expect(network).not.toHaveClass('ant-tag-red');
+        await expect(getMockEthereumProvider()?.requests.map(({ method }) => method)).toContain('wallet_addEthereumChain');
+    },
+};
+
+// Если кошелёк не подключён, ничего не отображается
+export const Disconnected: Story = {
+    play: async ({ canvasElement }) => {
+        await expect(within(canvasElement).queryByTestId('wallet-status-dropdown')).toBeNull();
+    },
+};
+
+export const ShowQr: Story = {
+    play: async ({ canvasElement }) => {
+        const address = await connectMockWallet(getTargetChainId());
+        const body = within(document.body);
+
+        await userEvent.click(await within(canvasElement).findByTestId('wallet-status-dropdown'));
+        await userEvent.click(await body.findByTestId('wallet-action-showQr'));
+
+        const qr = await body.findByTestId('wallet-status-qr');
+        await expect(qr).toHaveTextContent(getAddress(address));
+        await expect(qr.querySelector('canvas')).not.toBeNull();
+    },
+};
+
+// Отключение из меню: разрешение сайта отзывается, хранилище кошелька очищается
+export const Disconnect: Story = {
+    play: async ({ canvasElement }) => {
+        await connectMockWallet(getTargetChainId());
+        const canvas = within(canvasElement);
+
+        await userEvent.click(await canvas.findByTestId('wallet-status-dropdown'));
+        await userEvent.click(await within(document.body).findByTestId('wallet-action-disconnect'));
+
+        await waitFor(() => expect(canvas.queryByTestId('wallet-status-dropdown')).toBeNull());
+        await expect(getMockEthereumProvider()?.requests.map(({ method }) => method)).toContain('wallet_revokePermissions');
+        await expect(useWalletStore.getState().isConnected).toBe(false);
+    },
+};
+
+// Несколько авторизованных аккаунтов: переход на другой аккаунт из подменю запоминается для кошелька
+export const SwitchAccount: Story = {
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.CONNECTED, authorized: true, accountsCount: 2 },
+    },
+    play: async ({ canvasElement }) => {
+        const address = await connectMockWallet(getTargetChainId());
+        const other = useWalletStore.getState().accounts.find((account) => account !== address) ?? '';
+        const body = within(document.body);
+
+        const trigger = await within(canvasElement).findByTestId('wallet-status-dropdown');
+        await userEvent.click(trigger);
+        await userEvent.hover(await body.findByTestId('wallet-action-switchAccount'));
+        await userEvent.click(await body.findByTestId(`wallet-account-${other}`));
+
+        await waitFor(() => expect(trigger).toHaveTextContent(shortenAddress(getAddress(other))));
+        await expect(useWalletStore.getState().account).toBe(other);
+        await expect(Object.values(useWalletStore.getState().preferredAccounts)).toContain(other);
+    },
+};
+
+// Переход на другой аккаунт завершает сессию Sign-In with Ethereum прежнего адреса и понижает фазу входа:
+// новый аккаунт не подписывал сообщение, поэтому подключение снова не завершено
+export const SwitchAccountEndsSignIn: Story = {
+    parameters: {
+        mockEthereum: { scenario: MockProviderScenarios.CONNECTED, authorized: true, accountsCount: 2 },
+    },
+    play: async ({ canvasElement }) => {
+        const address = await connectMockWallet(getTargetChainId());
+        const other = useWalletStore.getState().accounts.find((account) => account !== address) ?? '';
+        const body = within(document.body);
+
+        useConnectionStore.getState().restore();
+        useConnectionStore.getState().setPhaseStatus(ConnectionPhases.SIGN_IN_WITH_ETHEREUM, PhaseStatuses.SUCCESS);
+        useSiweSessionStore.getState().setSession({
+            address: getAddress(address),
+            chainId: getTargetChainId(),
+            message: 'Sign in to RUBAS',
+            signature: '0x',
+            issuedAt: Date.now(),
+            expiresAt: Date.now() + 60_000,
+        });
+
+        await userEvent.click(await within(canvasElement).findByTestId('wallet-status-dropdown'));
+        await userEvent.hover(await body.findByTestId('wallet-action-switchAccount'));
+        await userEvent.click(await body.findByTestId(`wallet-account-${other}`));
+
+        await waitFor(() => expect(useWalletStore.getState().account).toBe(other));
+        await expect(useSiweSessionStore.getState().session).toBeNull();
+        await expect(useConnectionStore.getState().phaseStatuses[ConnectionPhases.SIGN_IN_WITH_ETHEREUM])
+            .toBe(PhaseStatuses.FAIL);
+    },
+};
+
+// «Управлять аккаунтами» открывает окно выбора аккаунтов MetaMask (wallet_requestPermissions)
+export const ManageAccounts: Story = {
+    play: async ({ canvasElement }) => {
+        await connectMockWallet(getTargetChainId());
+        const body = within(document.body);
+
+        await userEvent.click(await within(canvasElement).findByTestId('wallet-status-dropdown'));
+        await userEvent.click(await body.findByTestId('wallet-action-manageAccounts'));
+
+        await waitFor(() => expect(getMockEthereumProvider()?.requests.map(({ method }) => method))
+            .toContain('wallet_requestPermissions'));
+    },
+};
@@ -0,0 +1,284 @@
+// Организм: состояние подключённого кошелька в заголовке (аккаунт, сеть, баланс и действия) [★★★☆☆]
+
+import {
+    CopyOutlined,
+    DownOutlined,
+    ExportOutlined,
+    PoweroffOutlined,
+    QrcodeOutlined,
+    SwapOutlined,
+    TeamOutlined,
+    UserSwitchOutlined,
+} from '@ant-design/icons';
+import { Button, Dropdown, type MenuProps, message, Modal, QRCode, Space, Tag, Typography } from 'antd';
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+import { getAddress } from 'viem';
+
+import { Identicon } from '@/components/atoms/Identicon/Identicon';
+import { ConnectionPhases, PhaseStatuses } from '@/constants/connectionPhases';
+import { WalletErrorReasons } from '@/constants/walletErrors';
+import { useCheckMetaMaskNetwork } from '@/hooks/useCheckMetaMaskNetwork';
+import { useConnectWallet } from '@/hooks/useConnectWallet';
+import { useNativeBalance } from '@/hooks/useNativeBalance';
+import log from '@/log';
+import { getAddressExplorerUrl, getChainInfo } from '@/services/blockExplorer';
+import { endForeignSiweSession } from '@/services/connectionDowngrade';
+import { shortenAddress } from '@/services/formatAddress';
+import { formatNativeBalance } from '@/services/walletBalance';
+import { classifyWalletError } from '@/services/walletError';
+import { requestAccountsPermission } from '@/services/walletPermissions';
+import { useConnectionStore } from '@/stores/useConnectionStore';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+import {
+    selectActiveProvider,
+    selectActiveWalletId,
+    useWalletProvidersStore,
+} from '@/stores/useWalletProvidersStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+
+import classes from './WalletStatusDropdown.module.scss';
+
+/**
+ Действия меню:
+ • switchNetwork: переключить кошелёк на целевую сеть (только если кошелёк в другой сети)
+ • copyAddress: скопировать адрес в буфер обмена
+ • openInExplorer: открыть адрес в обозревателе блоков
+ • showQr: показать QR-код адреса
+ • switchAccount: перейти на другой из авторизованных аккаунтов (подменю, если аккаунтов несколько)
+ • manageAccounts: изменить набор аккаунтов, доступных сайту (окно MetaMask, wallet_requestPermissions)
+ • disconnect: отключить кошелёк
+ */
+const WalletMenuActions = {
+    SWITCH_NETWORK: 'switchNetwork',
+    COPY_ADDRESS: 'copyAddress',
+    OPEN_IN_EXPLORER: 'openInExplorer',
+    SHOW_QR: 'showQr',
+    SWITCH_ACCOUNT: 'switchAccount',
+    MANAGE_ACCOUNTS: 'manageAccounts',
+    DISCONNECT: 'disconnect',
+} as const;
+
+// Префикс ключей пунктов подменю аккаунтов (ключ — префикс и адрес)
+const ACCOUNT_KEY_PREFIX = 'account:';
+
+type WalletMenuAction = typeof WalletMenuActions[keyof typeof WalletMenuActions];
+
+// Иконки действий меню
+const actionIcons: Record<WalletMenuAction, React.ReactNode> = {
+    [WalletMenuActions.SWITCH_NETWORK]:   <SwapOutlined />,
+    [WalletMenuActions.COPY_ADDRESS]:     <CopyOutlined />,
+    [WalletMenuActions.OPEN_IN_EXPLORER]: <ExportOutlined />,
+    [WalletMenuActions.SHOW_QR]:          <QrcodeOutlined />,
+    [WalletMenuActions.SWITCH_ACCOUNT]:   <UserSwitchOutlined />,
+    [WalletMenuActions.MANAGE_ACCOUNTS]:  <TeamOutlined />,
+    [WalletMenuActions.DISCONNECT]:       <PoweroffOutlined />,
+};
+
+/**
+ * WalletStatusDropdown — организм для заголовка приложения, показывающий подключённый кошелёк: identicon
+ * и сокращённый адрес (checksum), сеть кошелька и баланс нативной монеты. Выпадающее меню позволяет скопировать
+ * адрес, открыть его в обозревателе блоков, показать QR-код, перейти на другой авторизованный аккаунт
+ * (выбор запоминается для кошелька), изменить набор доступных сайту аккаунтов в MetaMask и отключить кошелёк. Данные берутся из useWalletStore, поэтому смена аккаунта или сети в кошельке сразу отображается.
+ * Если кошелёк перешёл в другую сеть, сеть выделяется красным, а меню предлагает переключиться на целевую сеть
+ * (той же проверкой, что и фаза сети процесса подключения; после переключения фаза снова считается пройденной).
+ * Если кошелёк не подключён, ничего не отображает. Поддерживает локализацию и логирование.
+ *
+ * @component WalletStatusDropdown
+ * @category Organisms
+ * @example
+ *   {state === 'connected' || state === 'wrongNetwork'
+ *       ? <WalletStatusDropdown />
+ *       : <ConnectWalletButton onConnect={openDrawer} />}
+ */
+export const WalletStatusDropdown: React.FC = () => {
+    const { t } = useTranslation();
+    const componentName = 'WalletStatusDropdown';
+    const [messageApi, messageContextHolder] = message.useMessage();
+    const [isQrOpen, setQrOpen] = React.useState(false);
+    const [isSwitchingNetwork, setSwitchingNetwork] = React.useState(false);
+
+    const account = useWalletStore((state) => state.account);
+    const accounts = useWalletStore((state) => state.accounts);
+    const chainId = useWalletStore((state) => state.chainId);
+    const isCorrectNetwork = useWalletStore((state) => state.isCorrectNetwork);
+    const provider = useWalletProvidersStore(selectActiveProvider);
+    const targetNetwork = useSettingsStore(selectTargetNetwork);
+    const checkNetwork = useCheckMetaMaskNetwork();
+    const { disconnect, loading: isDisconnecting } = useConnectWallet();
+    const { balance, loading: isBalanceLoading } = useNativeBalance();
+
+    const address = React.useMemo(() => (account ? getAddress(account) : null), [account]);
+    const chainInfo = chainId !== null ? getChainInfo(chainId) : null;
+
+    if (!address) return null;
+
+    const copyAddress = async (): Promise<void> => {
+        try {
+            await navigator.clipboard.writeText(address);
+            void messageApi.success(t('walletStatus.copied'));
+        } catch (error) {
+            log.warn(`${componentName}: не удалось скопировать адрес.`, error);
+            void messageApi.error(t('walletStatus.copyFailed'));
+        }
+    };
+
+    const switchNetwork = async (): Promise<void> => {
+        setSwitchingNetwork(true);
+
+        try {
+            const result = await checkNetwork();
+
+            if (result.ok) {
+                log.debug(`${componentName}: кошелёк переключён на сеть ${targetNetwork.name}.`);
+                useConnectionStore.getState().setPhaseStatus(ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK, PhaseStatuses.SUCCESS);
+                return;
+            }
+
+            if (result.reason === WalletErrorReasons.USER_REJECTED) {
+                log.debug(`${componentName}: пользователь отказался переключать сеть.`);
+                return;
+            }
+
+            log.warn(`${componentName}: не удалось переключить сеть (${result.reason}).`);
+            void messageApi.error(t('walletStatus.switchNetworkFailed', { network: targetNetwork.name }));
+        } finally {
+            setSwitchingNetwork(false);
+        }
+    };
+
+    const switchAccount = (next: string): void => {
+        const walletId = selectActiveWalletId(useWalletProvidersStore.getState());
+
+        log.debug(`${componentName}: переход на аккаунт ${next}.`);
+
+        // Сессия Sign-In with Ethereum выдана прежнему адресу: новый аккаунт должен войти заново
+        endForeignSiweSession(next);
+        if (walletId) useWalletStore.getState().setPreferredAccount(walletId, next);
+        useWalletStore.getState().setState({ account: next });
+    };
+
+    const manageAccounts = async (): Promise<void> => {
+        if (!provider) return;
+
+        try {
+            // MetaMask показывает окно выбора аккаунтов, новый аккаунт приходит событием accountsChanged
+            await requestAccountsPermission(provider);
+        } catch (error) {
+            const { reason } = classifyWalletError(error);
+
+            if (reason === WalletErrorReasons.USER_REJECTED) {
+                log.debug(`${componentName}: пользователь отказался выбирать другой аккаунт.`);
+                return;
+            }
+
+            log.warn(`${componentName}: не удалось выбрать другой аккаунт (${reason}).`, error);
+            void messageApi.error(t('walletStatus.switchAccountFailed'));
+        }
+    };
+
+    const handleAction: MenuProps['onClick'] = ({ key }) => {
+        if (key.startsWith(ACCOUNT_KEY_PREFIX)) {
+            switchAccount(key.slice(ACCOUNT_KEY_PREFIX.length));
+            return;
+        }
+
+        const action = key as WalletMenuAction;
+        log.debug(`${componentName}: действие "${action}" для адреса ${address}.`);
+
+        switch (action) {
+            case WalletMenuActions.SWITCH_NETWORK:
+                void switchNetwork();
+                break;
+            case WalletMenuActions.COPY_ADDRESS:
+                void copyAddress();
+                break;
+            case WalletMenuActions.OPEN_IN_EXPLORER:
+                window.open(getAddressExplorerUrl(chainId, address), '_blank', 'noopener,noreferrer');
+                break;
+            case WalletMenuActions.SHOW_QR:
+                setQrOpen(true);
+                break;
+            case WalletMenuActions.SWITCH_ACCOUNT:
+            case WalletMenuActions.MANAGE_ACCOUNTS:
+                void manageAccounts();
+                break;
+            case WalletMenuActions.DISCONNECT:
+                void disconnect(componentName);
+                break;
+        }
+    };
+
+    // Другие авторизованные аккаунты (если их нет, «Сменить аккаунт» открывает окно MetaMask)
+    const otherAccounts = accounts.filter((item) => item.toLowerCase() !== address.toLowerCase());
+
+    // Переключение сети предлагается, только если кошелёк не в целевой сети
+    const actions = Object.values(WalletMenuActions)
+        .filter((action) => action !== WalletMenuActions.SWITCH_NETWORK || !isCorrectNetwork);
+
+    const menuItems: MenuProps['items'] = actions.map((action) => ({
+        key: action,
+        icon: actionIcons[action],
+        danger: action === WalletMenuActions.DISCONNECT,
+        disabled: (action === WalletMenuActions.SWITCH_ACCOUNT || action === WalletMenuActions.MANAGE_ACCOUNTS) && !provider,
+        label: (
+            <span data-testid={`wallet-action-${action}`}>
+                {t(`walletStatus.actions.${action}`, { network: targetNetwork.name })}
+            </span>
+        ),
+        children: action === WalletMenuActions.SWITCH_ACCOUNT && otherAccounts.length > 0
+            ? otherAccounts.map((item) => ({
+                key: `${ACCOUNT_KEY_PREFIX}${item}`,
+                icon: <Identicon address={item} size={16} />,
+                label: (
+                    <span className={classes.address} data-testid={`wallet-account-${item}`}>
+                        {shortenAddress(getAddress(item))}
+                    </span>
+                ),
+            }))
+            : undefined,
+    }));
+
+    const networkName = chainInfo?.name ?? t('walletStatus.unknownNetwork', { chainId });
+    const balanceText = balance !== null
+        ? `${formatNativeBalance(balance)} ${chainInfo?.symbol ?? 'BNB'}`
+        : isBalanceLoading ? '…' : '—';
+
+    return (
+        <>
+            {messageContextHolder}
+
+            <Dropdown menu={{ items: menuItems, onClick: handleAction }} trigger={['click']} placement="bottomRight">
+                <Button className={classes.trigger} loading={isDisconnecting || isSwitchingNetwork} data-testid="wallet-status-dropdown">
+                    <Space size={8} align="center">
+                        <Identicon address={address} size={20} />
+                        <span className={classes.address}>{shortenAddress(address)}</span>
+                        <Tag
+                            className={classes.network}
+                            color={isCorrectNetwork ? 'gold' : 'red'}
+                            data-testid="wallet-status-network"
+                        >
+                            {networkName}
+                        </Tag>
+                        <span className={classes.balance} data-testid="wallet-status-balance">{balanceText}</span>
+                        <DownOutlined />
+                    </Space>
+                </Button>
+            </Dropdown>
+
+            <Modal
+                title={t('walletStatus.qrTitle')}
+                open={isQrOpen}
+                onCancel={() => setQrOpen(false)}
+                footer={null}
+                width={320}
+                destroyOnClose
+            >
+                <div className={classes.qr} data-testid="wallet-status-qr">
+                    <QRCode value={address} size={240} />
+                    <Typography.Text copyable className={classes.qrAddress}>{address}</Typography.Text>
+                </div>
+            </Modal>
+        </>
+    );
+};
@@ -0,0 +1,62 @@
+// Константы процесса «разрешение на списание → целевой вызов» для токена RUBAS (BEP-20) [★★☆☆☆]
+
+import { PhaseStatuses } from '@/constants/connectionPhases';
+import { type ContractAccessReason } from '@/constants/contracts';
+import { type TransactionError } from '@/constants/transactions';
+import { type WalletErrorReason } from '@/constants/walletErrors';
+
+/**
+ Шаги процесса (выполняются по порядку APPROVAL_STEP_ORDER):
+ • checkAllowance: чтение текущего разрешения (allowance) аккаунта для контракта-получателя
+ • approve: запрос разрешения на списание (approve) — подпись в кошельке
+ • waitConfirmation: ожидание подтверждения транзакции approve в сети
+ • execute: отправка целевого вызова
+ */
+export const ApprovalSteps = {
+    CHECK_ALLOWANCE: 'checkAllowance',
+    APPROVE: 'approve',
+    WAIT_CONFIRMATION: 'waitConfirmation',
+    EXECUTE: 'execute',
+} as const;
+
+export type ApprovalStep = typeof ApprovalSteps[keyof typeof ApprovalSteps];
+
+export const APPROVAL_STEP_ORDER: readonly ApprovalStep[] = [
+    ApprovalSteps.CHECK_ALLOWANCE,
+    ApprovalSteps.APPROVE,
+    ApprovalSteps.WAIT_CONFIRMATION,
+    ApprovalSteps.EXECUTE,
+];
+
+/**
+ Статусы шага — те же, что у фаз подключения (PhaseStatuses), и дополнительно:
+ • skipped: шаг не нужен — текущего разрешения хватает (approve и ожидание подтверждения)
+ */
+export const ApprovalStepStatuses = {
+    WAITING: PhaseStatuses.WAITING,
+    IN_PROGRESS: PhaseStatuses.IN_PROGRESS,
+    SUCCESS: PhaseStatuses.SUCCESS,
+    FAIL: PhaseStatuses.FAIL,
+    CANCELLED: PhaseStatuses.CANCELLED,
+    TIMEOUT: PhaseStatuses.TIMEOUT,
+    SKIPPED: 'skipped',
+} as const;
+
+export type ApprovalStepStatus = typeof ApprovalStepStatuses[keyof typeof ApprovalStepStatuses];
+
+/**
+ Причина неудачи шага: ошибка кошелька, недоступность контракта или итог транзакции approve
+ */
+export type ApprovalFailReason = WalletErrorReason | ContractAccessReason | TransactionError;
+
+/**
+ Вид разрешения на списание (выбор пользователя запоминается в useSettingsStore):
+ • exact: ровно сумма целевого вызова — разрешение запрашивается перед каждым вызовом, если его не хватает
+ • unlimited: без ограничения (maxUint256) — одна транзакция approve на все последующие вызовы
+ */
+export const ApprovalModes = {
+    EXACT: 'exact',
+    UNLIMITED: 'unlimited',
+} as const;
+
+export type ApprovalMode = typeof ApprovalModes[keyof typeof ApprovalModes];
@@ -1,3 +1,22 @@
 // Константы, связанные с подключением к MetaMask
 
-export const CONNECTION_RESET_TIMEOUT_MINUTES = 5;
\ No newline at end of file
+export const CONNECTION_RESET_TIMEOUT_MINUTES = 5;
+
+// Время ожидания объявлений кошельков (EIP-6963) после запроса eip6963:requestProvider, мс
+export const PROVIDER_DISCOVERY_TIMEOUT_MS = 300;
+
+// Интервал повторной проверки _metamask.isUnlocked(), пока пользователь разблокирует кошелёк, мс
+export const UNLOCK_POLL_INTERVAL_MS = 1_000;
+
+// Через сколько панель подключения закрывается сама после успешного подключения (чтобы пользователь увидел адрес), мс
+export const CONNECTION_SUCCESS_AUTO_CLOSE_MS = 2_000;
+
+// Идентификатор MetaMask в формате reverse-DNS (EIP-6963)
+export const METAMASK_RDNS = 'io.metamask';
+
+// Включена ли необязательная фаза входа с подписью (Sign-In with Ethereum, EIP-4361) после получения аккаунта.
+// Включается переменной окружения VITE_SIWE_ENABLED=true (см. .env.example), по умолчанию выключена
+export const SIWE_ENABLED = import.meta.env.VITE_SIWE_ENABLED === 'true';
+
+// Срок действия сессии Sign-In with Ethereum (поле Expiration Time сообщения EIP-4361), мин
+export const SIWE_SESSION_TTL_MINUTES = 60;
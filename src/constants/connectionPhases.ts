@@ -1,18 +1,26 @@
 // Константы фаз подключения и статусов [★★★☆☆]
 
+import { type WalletErrorReason } from '@/constants/walletErrors';
+
 /**
  Фазы процесса подключения:
  • Проверка установки MetaMask
  • Проверка разблокировки кошелька
- • Проверка подключения к сети BSC
+ • Проверка доступа сайта к аккаунтам (разрешение eth_accounts)
+ • Проверка подключения к целевой сети (выбирается в настройках)
  • Получение данных аккаунта
+ • Вход с подписью сообщения EIP-4361 (необязательная фаза, см. SIWE_ENABLED)
+
+ Порядок выполнения, проверки и политики фаз задаёт реестр (services/connectionPhaseRegistry)
  */
 
 export const ConnectionPhases = {
     CHECK_IF_INSTALLED: 'checkIfMetaMaskInstalled',
     CHECK_IF_UNLOCKED: 'checkIfMetaMaskUnlocked',
-    CHECK_IF_CONNECTED_TO_BSC: 'checkIfMetaMaskConnectedToBSC',
+    CHECK_IF_AUTHORIZED: 'checkIfSiteAuthorized',
+    CHECK_IF_CONNECTED_TO_NETWORK: 'checkIfMetaMaskConnectedToNetwork',
     CHECK_OUT_ACCOUNT: 'checkOutMetaMaskAccount',
+    SIGN_IN_WITH_ETHEREUM: 'signInWithEthereum',
 } as const;
 
 export type ConnectionPhase = typeof ConnectionPhases[keyof typeof ConnectionPhases];
@@ -24,6 +32,9 @@ export type ConnectionPhase = typeof ConnectionPhases[keyof typeof ConnectionPha
  • success: Успешное завершение
  • fail: Ошибка выполнения
  • cancelled: Отмена выполнения
+ • switching: Промежуточное состояние — переключение (или добавление) сети в кошельке
+ • selecting: Промежуточное состояние — пользователь выбирает один из нескольких авторизованных аккаунтов
+ • timeout: Кошелёк не ответил за отведённое время (все повторные попытки исчерпаны)
  */
 
 export const PhaseStatuses = {
@@ -32,6 +43,66 @@ export const PhaseStatuses = {
     SUCCESS: 'success',
     FAIL: 'fail',
     CANCELLED: 'cancelled',
+    SWITCHING: 'switching',
+    SELECTING: 'selecting',
+    TIMEOUT: 'timeout',
 } as const;
 
-export type PhaseStatus = typeof PhaseStatuses[keyof typeof PhaseStatuses];
\ No newline at end of file
+export type PhaseStatus = typeof PhaseStatuses[keyof typeof PhaseStatuses];
+
+/**
+ Статусы выполняющейся фазы (основной и промежуточные): процесс подключения ещё идёт
+ */
+export const PHASE_ACTIVE_STATUSES: readonly PhaseStatus[] = [
+    PhaseStatuses.IN_PROGRESS,
+    PhaseStatuses.SWITCHING,
+    PhaseStatuses.SELECTING,
+];
+
+/**
+ Функция, через которую проверка фазы сообщает о промежуточном статусе (например, switching или selecting)
+ */
+export type PhaseStatusReporter = (status: PhaseStatus) => void;
+
+/**
+ Параметры проверки фазы:
+ • signal: сигнал отмены — после отмены ответ кошелька игнорируется, проверка завершается неудачей (cancelled)
+ • reportStatus: сообщение о промежуточном статусе фазы
+ */
+export interface PhaseCheckOptions {
+    signal?: AbortSignal;
+    reportStatus?: PhaseStatusReporter;
+}
+
+/**
+ Результат проверки фазы:
+ • ok: true — фаза пройдена
+ • reason: причина неудачи (для ok = false), по ней таймлайн выбирает комментарий
+ */
+export type PhaseResult =
+    | { ok: true }
+    | { ok: false; reason: WalletErrorReason };
+
+/**
+ Функция проверки фазы: возвращает результат с причиной неудачи (ошибка кошелька, отмена и т.п.)
+ */
+export type PhaseChecker = (options?: PhaseCheckOptions) => Promise<PhaseResult>;
+
+/**
+ Статусы, на которых процесс подключения останавливается, не пройдя все фазы
+ */
+export type PhaseStopStatus =
+    | typeof PhaseStatuses.FAIL
+    | typeof PhaseStatuses.TIMEOUT
+    | typeof PhaseStatuses.CANCELLED;
+
+/**
+ Итог процесса подключения:
+ • ok: true — все фазы пройдены
+ • ok: false — процесс остановлен на фазе phase со статусом fail, timeout или cancelled;
+   reason: причина неудачи (для fail, если известна)
+ • finishedAt: время завершения (Unix timestamp в миллисекундах)
+ */
+export type ConnectionFlowResult =
+    | { ok: true; finishedAt: number }
+    | { ok: false; phase: ConnectionPhase; status: PhaseStopStatus; reason: WalletErrorReason | null; finishedAt: number };
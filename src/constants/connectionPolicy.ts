@@ -0,0 +1,26 @@
+// Политика выполнения фаз подключения: время ожидания, повторные попытки и задержка между ними [★★★☆☆]
+
+import { type WalletErrorReason, WalletErrorReasons } from '@/constants/walletErrors';
+
+/**
+ Политика выполнения фазы:
+ • timeoutMs: сколько ждать ответа кошелька на одну попытку, мс
+ • maxRetries: сколько раз повторить попытку после неудачи или таймаута (0 — без повторов)
+ • backoffMs: задержка перед первым повтором, мс (удваивается перед каждым следующим)
+
+ Политики фаз по умолчанию объявлены в реестре фаз (services/connectionPhaseRegistry)
+ */
+export interface PhasePolicy {
+    timeoutMs: number;
+    maxRetries: number;
+    backoffMs: number;
+}
+
+/**
+ Причины неудачи, после которых фаза не повторяется независимо от maxRetries:
+ пользователь сам отказался (отклонил запрос или прервал выбор аккаунта) — повтор снова открыл бы окно кошелька
+ */
+export const NON_RETRYABLE_REASONS: readonly WalletErrorReason[] = [
+    WalletErrorReasons.USER_REJECTED,
+    WalletErrorReasons.CANCELLED,
+];
@@ -0,0 +1,58 @@
+// Константы инструкций по устранению ошибок подключения и действий панели помощи [★★★☆☆]
+
+import { type WalletErrorReason } from '@/constants/walletErrors';
+
+/**
+ Темы инструкций (файлы locales/<язык>/remediation/<тема>.md):
+ • installMetaMask: установка MetaMask (со ссылкой на страницу загрузки)
+ • unlockWallet: разблокировка кошелька
+ • approveRequest: подтверждение запроса во всплывающем окне MetaMask
+ • addNetwork: переключение на целевую сеть (и её добавление в кошелёк)
+ */
+export const RemediationTopics = {
+    INSTALL_METAMASK: 'installMetaMask',
+    UNLOCK_WALLET: 'unlockWallet',
+    APPROVE_REQUEST: 'approveRequest',
+    ADD_NETWORK: 'addNetwork',
+} as const;
+
+export type RemediationTopic = typeof RemediationTopics[keyof typeof RemediationTopics];
+
+/**
+ Инструкции фазы (объявляются в реестре фаз):
+ • reasons: тема для конкретной причины неудачи
+ • default: тема для остальных причин и таймаута (если не задана — панель помощи не показывается)
+ */
+export interface PhaseRemediation {
+    reasons?: Partial<Record<WalletErrorReason, RemediationTopic>>;
+    default?: RemediationTopic;
+}
+
+/**
+ Действия панели помощи:
+ • retry: повторить неудавшуюся фазу
+ • switchNetwork: запросить переключение (добавление) целевой сети — повторная проверка сети сама отправляет этот запрос
+ • installMetaMask: открыть страницу загрузки MetaMask
+ */
+export const RemediationActions = {
+    RETRY: 'retry',
+    SWITCH_NETWORK: 'switchNetwork',
+    INSTALL_METAMASK: 'installMetaMask',
+} as const;
+
+export type RemediationAction = typeof RemediationActions[keyof typeof RemediationActions];
+
+/**
+ Действия, доступные для каждой темы (в порядке отображения кнопок)
+ */
+export const REMEDIATION_TOPIC_ACTIONS: Record<RemediationTopic, readonly RemediationAction[]> = {
+    [RemediationTopics.INSTALL_METAMASK]: [RemediationActions.INSTALL_METAMASK, RemediationActions.RETRY],
+    [RemediationTopics.UNLOCK_WALLET]:    [RemediationActions.RETRY],
+    [RemediationTopics.APPROVE_REQUEST]:  [RemediationActions.RETRY],
+    [RemediationTopics.ADD_NETWORK]:      [RemediationActions.SWITCH_NETWORK],
+};
+
+/**
+ Официальная страница загрузки MetaMask
+ */
+export const METAMASK_DOWNLOAD_URL = 'https://metamask.io/download/';
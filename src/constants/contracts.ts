@@ -0,0 +1,52 @@
+// Реестр смарт-контрактов экосистемы RUBAS: ABI и адреса в каждой сети [★★★☆☆]
+
+import { BEP20_ABI } from '@/constants/contractAbis';
+import { type NetworkId, NetworkIds } from '@/constants/network';
+
+/**
+ Контракты экосистемы RUBAS, с которыми работает приложение:
+ • rubasToken: токен RUBAS (BEP-20)
+
+ Чтобы добавить контракт, достаточно объявить идентификатор здесь, его ABI в contractAbis.ts (as const)
+ и переменные окружения с адресами в RUBAS_CONTRACT_ADDRESSES.
+ */
+export const RubasContracts = {
+    TOKEN: 'rubasToken',
+} as const;
+
+export type RubasContractId = typeof RubasContracts[keyof typeof RubasContracts];
+
+/**
+ ABI каждого контракта (as const: типы функций, аргументов и результатов выводятся viem)
+ */
+export const RUBAS_CONTRACT_ABIS = {
+    [RubasContracts.TOKEN]: BEP20_ABI,
+} as const satisfies Record<RubasContractId, unknown>;
+
+export type RubasContractAbi<TContract extends RubasContractId> = typeof RUBAS_CONTRACT_ABIS[TContract];
+
+/**
+ Адреса контрактов в каждой сети. Задаются переменными окружения (см. .env.example) и проверяются
+ при обращении к контракту: если адрес для сети не задан, контракт в этой сети считается недоступным
+ */
+export const RUBAS_CONTRACT_ADDRESSES: Readonly<Record<RubasContractId, Record<NetworkId, string | undefined>>> = {
+    [RubasContracts.TOKEN]: {
+        [NetworkIds.BSC_MAINNET]:   import.meta.env.VITE_RUBAS_TOKEN_ADDRESS_BSC_MAINNET,
+        [NetworkIds.BSC_TESTNET]:   import.meta.env.VITE_RUBAS_TOKEN_ADDRESS_BSC_TESTNET,
+        [NetworkIds.OPBNB_MAINNET]: import.meta.env.VITE_RUBAS_TOKEN_ADDRESS_OPBNB_MAINNET,
+    },
+};
+
+/**
+ Причины, по которым обращение к контракту не отправляется:
+ • notConnected: процесс подключения кошелька не завершён
+ • wrongChain: кошелёк находится не в целевой сети
+ • notDeployed: адрес контракта для целевой сети не задан (или задан неверно)
+ */
+export const ContractAccessReasons = {
+    NOT_CONNECTED: 'notConnected',
+    WRONG_CHAIN: 'wrongChain',
+    NOT_DEPLOYED: 'notDeployed',
+} as const;
+
+export type ContractAccessReason = typeof ContractAccessReasons[keyof typeof ContractAccessReasons];
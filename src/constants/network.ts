@@ -1,4 +1,85 @@
-// Константы, связанные с блокчейн-сетями
+// Реестр поддерживаемых блокчейн-сетей и сеть по умолчанию [★★★☆☆]
 
-export const BSC_CHAIN_ID = 56;
-export const BSC_CHAIN_HEX = '0x38';
\ No newline at end of file
+import { type Hex } from 'viem';
+
+/**
+ Идентификаторы поддерживаемых сетей:
+ • bscMainnet: BNB Smart Chain Mainnet (chainId 56)
+ • bscTestnet: BNB Smart Chain Testnet (chainId 97)
+ • opBnbMainnet: opBNB Mainnet (chainId 204)
+ */
+export const NetworkIds = {
+    BSC_MAINNET: 'bscMainnet',
+    BSC_TESTNET: 'bscTestnet',
+    OPBNB_MAINNET: 'opBnbMainnet',
+} as const;
+
+export type NetworkId = typeof NetworkIds[keyof typeof NetworkIds];
+
+/**
+ * @description Описание сети
+ *
+ * @property {NetworkId} id             - Идентификатор сети в приложении
+ * @property {number}    chainId        - Идентификатор сети (EIP-155)
+ * @property {Hex}       chainHex       - Идентификатор сети в шестнадцатеричном виде (как его возвращает eth_chainId)
+ * @property {string}    name           - Название сети (отображается пользователю и передаётся в wallet_addEthereumChain)
+ * @property {string[]}  rpcUrls        - Адреса RPC-узлов (первый используется транспортом wagmi)
+ * @property {string}    explorerUrl    - Адрес обозревателя блоков
+ * @property {object}    nativeCurrency - Нативная валюта сети (название, символ, число знаков)
+ * @property {boolean}   testnet        - Тестовая сеть
+ */
+export interface NetworkDefinition {
+    id: NetworkId;
+    chainId: number;
+    chainHex: Hex;
+    name: string;
+    rpcUrls: readonly [string, ...string[]];
+    explorerUrl: string;
+    nativeCurrency: {
+        name: string;
+        symbol: string;
+        decimals: number;
+    };
+    testnet: boolean;
+}
+
+/**
+ Реестр сетей, с которыми умеет работать приложение (порядок — порядок отображения в настройках)
+ */
+export const NETWORK_REGISTRY: Readonly<Record<NetworkId, NetworkDefinition>> = {
+    [NetworkIds.BSC_MAINNET]: {
+        id: NetworkIds.BSC_MAINNET,
+        chainId: 56,
+        chainHex: '0x38',
+        name: 'BNB Smart Chain Mainnet',
+        rpcUrls: ['https://bsc-dataseed.bnbchain.org'],
+        explorerUrl: 'https://bscscan.com',
+        nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+        testnet: false,
+    },
+    [NetworkIds.BSC_TESTNET]: {
+        id: NetworkIds.BSC_TESTNET,
+        chainId: 97,
+        chainHex: '0x61',
+        name: 'BNB Smart Chain Testnet',
+        rpcUrls: ['https://data-seed-prebsc-1-s1.bnbchain.org:8545'],
+        explorerUrl: 'https://testnet.bscscan.com',
+        nativeCurrency: { name: 'BNB', symbol: 'tBNB', decimals: 18 },
+        testnet: true,
+    },
+    [NetworkIds.OPBNB_MAINNET]: {
+        id: NetworkIds.OPBNB_MAINNET,
+        chainId: 204,
+        chainHex: '0xcc',
+        name: 'opBNB Mainnet',
+        rpcUrls: ['https://opbnb-mainnet-rpc.bnbchain.org'],
+        explorerUrl: 'https://opbnb.bscscan.com',
+        nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+        testnet: false,
+    },
+};
+
+/**
+ Сеть по умолчанию, если переменная окружения VITE_DEFAULT_NETWORK не задана или содержит неизвестную сеть
+ */
+export const FALLBACK_NETWORK_ID: NetworkId = NetworkIds.BSC_MAINNET;
@@ -0,0 +1,32 @@
+// Константы разбора причин отклонения вызова контракта (revert): виды причин и коды Panic [★★☆☆☆]
+
+/**
+ Виды причин отклонения вызова:
+ • errorString: require/revert с сообщением — Error(string)
+ • panic: ошибка выполнения Solidity (переполнение, деление на ноль и т.д.) — Panic(uint256)
+ • customError: пользовательская ошибка контракта, объявленная в ABI реестра контрактов
+ • unknown: данные отклонения отсутствуют или не соответствуют ни одному ABI реестра
+ */
+export const RevertKinds = {
+    ERROR_STRING: 'errorString',
+    PANIC: 'panic',
+    CUSTOM_ERROR: 'customError',
+    UNKNOWN: 'unknown',
+} as const;
+
+export type RevertKind = typeof RevertKinds[keyof typeof RevertKinds];
+
+/**
+ Коды Panic(uint256) компилятора Solidity и ключи их локализованных описаний (contractSimulation.panics)
+ */
+export const PANIC_CODE_KEYS: Readonly<Record<number, string>> = {
+    0x01: 'assertFailed',       // assert(false)
+    0x11: 'arithmeticOverflow', // переполнение или антипереполнение в арифметике
+    0x12: 'divisionByZero',     // деление или остаток от деления на ноль
+    0x21: 'invalidEnum',        // преобразование в enum значения вне диапазона
+    0x22: 'invalidStorage',     // обращение к неверно закодированному массиву байтов в storage
+    0x31: 'popEmptyArray',      // .pop() у пустого массива
+    0x32: 'indexOutOfBounds',   // выход за границы массива
+    0x41: 'outOfMemory',        // выделение слишком большого объёма памяти
+    0x51: 'zeroFunction',       // вызов неинициализированной внутренней функции
+};
@@ -0,0 +1,79 @@
+// Константы жизненного цикла транзакций: статусы, этапы и параметры отслеживания [★★★☆☆]
+
+/**
+ Статусы транзакции:
+ • submitted: транзакция подписана, кошелёк вернул её хеш
+ • pending: транзакция ожидает включения в блок и набора подтверждений
+ • confirmed: транзакция выполнена и набрала нужное число подтверждений (TX_REQUIRED_CONFIRMATIONS)
+ • failed: транзакция отклонена сетью (reverted), не появилась в блоке вовремя или её сеть не поддерживается
+ • replaced: транзакция заменена другой с тем же nonce (ускорена, отменена или заменена в кошельке)
+ */
+export const TransactionStatuses = {
+    SUBMITTED: 'submitted',
+    PENDING: 'pending',
+    CONFIRMED: 'confirmed',
+    FAILED: 'failed',
+    REPLACED: 'replaced',
+} as const;
+
+export type TransactionStatus = typeof TransactionStatuses[keyof typeof TransactionStatuses];
+
+/**
+ Статусы, в которых транзакция ещё отслеживается (в том числе после перезагрузки страницы)
+ */
+export const TRANSACTION_ACTIVE_STATUSES: readonly TransactionStatus[] = [
+    TransactionStatuses.SUBMITTED,
+    TransactionStatuses.PENDING,
+];
+
+/**
+ Этапы транзакции в порядке отображения на таймлайне (последний этап — итог: confirmed, failed или replaced)
+ */
+export const TRANSACTION_STAGE_ORDER: readonly TransactionStatus[] = [
+    TransactionStatuses.SUBMITTED,
+    TransactionStatuses.PENDING,
+    TransactionStatuses.CONFIRMED,
+];
+
+/**
+ Число подтверждений (блоков, начиная с блока транзакции), после которого транзакция считается подтверждённой
+ */
+export const TX_REQUIRED_CONFIRMATIONS = 3;
+
+/**
+ Интервал опроса узла о квитанции и новых блоках (мс)
+ */
+export const TX_POLLING_INTERVAL_MS = 4_000;
+
+/**
+ Задержка перед повтором запроса к узлу после его ошибки (мс); удваивается перед каждым следующим повтором
+ до TX_RPC_RETRY_MAX_BACKOFF_MS. Ошибка узла временная: транзакция остаётся в ожидании, пока узел снова не ответит
+ */
+export const TX_RPC_RETRY_BACKOFF_MS = 2_000;
+
+export const TX_RPC_RETRY_MAX_BACKOFF_MS = 60_000;
+
+/**
+ Сколько транзакций хранится для каждой пары (аккаунт, сеть); более старые удаляются
+ */
+export const TX_HISTORY_LIMIT = 50;
+
+/**
+ Сколько ждать включения транзакции в блок (мс); если транзакция так и не появилась в сети (например,
+ удалена из mempool), она считается неудачной
+ */
+export const TX_RECEIPT_TIMEOUT_MS = 30 * 60_000;
+
+/**
+ Причины неудачи транзакции:
+ • reverted: транзакция включена в блок, но отклонена сетью (выполнение контракта прервано)
+ • timeout: транзакция не появилась в блоке за TX_RECEIPT_TIMEOUT_MS
+ • unsupportedChain: сеть транзакции не поддерживается приложением (нет RPC для отслеживания)
+ */
+export const TransactionErrors = {
+    REVERTED: 'reverted',
+    TIMEOUT: 'timeout',
+    UNSUPPORTED_CHAIN: 'unsupportedChain',
+} as const;
+
+export type TransactionError = typeof TransactionErrors[keyof typeof TransactionErrors];
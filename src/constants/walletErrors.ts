@@ -0,0 +1,51 @@
+// Константы причин ошибок кошелька и их соответствие кодам EIP-1193 / JSON-RPC [★★★☆☆]
+
+/**
+ Причины, по которым фаза подключения может завершиться с ошибкой:
+ • userRejected: пользователь отклонил запрос в кошельке (4001)
+ • unauthorized: метод или аккаунт не авторизованы пользователем для сайта (4100)
+ • unsupportedMethod: кошелёк не поддерживает метод (4200)
+ • disconnected: провайдер отключён от всех сетей (4900)
+ • chainDisconnected: провайдер не подключён к запрошенной сети (4901)
+ • unknownChain: сеть не добавлена в кошелёк (4902)
+ • requestPending: в кошельке уже открыт такой же запрос (-32002)
+ • internalError: внутренняя ошибка кошелька или узла (-32603)
+ • notInstalled: кошелёк не обнаружен
+ • noAccounts: кошелёк не вернул ни одного аккаунта (заблокирован)
+ • wrongChain: кошелёк остался в другой сети
+ • invalidSignature: подпись не соответствует адресу
+ • cancelled: проверка отменена (AbortSignal)
+ • unknown: причину определить не удалось
+ */
+export const WalletErrorReasons = {
+    USER_REJECTED: 'userRejected',
+    UNAUTHORIZED: 'unauthorized',
+    UNSUPPORTED_METHOD: 'unsupportedMethod',
+    DISCONNECTED: 'disconnected',
+    CHAIN_DISCONNECTED: 'chainDisconnected',
+    UNKNOWN_CHAIN: 'unknownChain',
+    REQUEST_PENDING: 'requestPending',
+    INTERNAL_ERROR: 'internalError',
+    NOT_INSTALLED: 'notInstalled',
+    NO_ACCOUNTS: 'noAccounts',
+    WRONG_CHAIN: 'wrongChain',
+    INVALID_SIGNATURE: 'invalidSignature',
+    CANCELLED: 'cancelled',
+    UNKNOWN: 'unknown',
+} as const;
+
+export type WalletErrorReason = typeof WalletErrorReasons[keyof typeof WalletErrorReasons];
+
+/**
+ Коды ошибок провайдера (EIP-1193) и JSON-RPC (EIP-1474), которые различает приложение
+ */
+export const WALLET_ERROR_CODE_REASONS: Readonly<Record<number, WalletErrorReason>> = {
+    4001:     WalletErrorReasons.USER_REJECTED,      // User Rejected Request
+    4100:     WalletErrorReasons.UNAUTHORIZED,       // Unauthorized
+    4200:     WalletErrorReasons.UNSUPPORTED_METHOD, // Unsupported Method
+    4900:     WalletErrorReasons.DISCONNECTED,       // Disconnected
+    4901:     WalletErrorReasons.CHAIN_DISCONNECTED, // Chain Disconnected
+    4902:     WalletErrorReasons.UNKNOWN_CHAIN,      // Unrecognized chain ID (MetaMask, EIP-3085)
+    [-32002]: WalletErrorReasons.REQUEST_PENDING,  // Resource unavailable: запрос уже ожидает ответа
+    [-32603]: WalletErrorReasons.INTERNAL_ERROR,   // Internal JSON-RPC error
+};
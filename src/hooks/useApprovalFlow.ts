@@ -0,0 +1,244 @@
+// Хук процесса «разрешение на списание токена RUBAS → целевой вызов» с проверкой текущего разрешения [★★★★☆]
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { type Address, formatUnits, type Hash, maxUint256 } from 'viem';
+import { readContract } from 'wagmi/actions';
+
+import {
+    APPROVAL_STEP_ORDER,
+    type ApprovalFailReason,
+    type ApprovalMode,
+    ApprovalModes,
+    type ApprovalStep,
+    ApprovalSteps,
+    type ApprovalStepStatus,
+    ApprovalStepStatuses,
+} from '@/constants/approvalFlow';
+import { RubasContracts } from '@/constants/contracts';
+import { TransactionErrors, TransactionStatuses } from '@/constants/transactions';
+import i18n from '@/i18n';
+import log from '@/log';
+import { ContractAccessError, resolveRubasContract } from '@/services/contractRegistry';
+import { sendRubasContractWrite } from '@/services/contractWrite';
+import { shortenAddress } from '@/services/formatAddress';
+import { type MMConnectionCommentParams } from '@/services/mmConnectionComments';
+import { waitForTransactionOutcome } from '@/services/transactionTracker';
+import { classifyWalletError } from '@/services/walletError';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+import { wagmiConfig } from '@/wagmi';
+
+/**
+ * @description Параметры хука
+ *
+ * @property {Address}  spender - Контракт, которому разрешается списывать токены (получатель approve)
+ * @property {bigint}   amount  - Сумма целевого вызова в минимальных единицах токена
+ * @property {Function} execute - Целевой вызов (signal — прерывание проверки перед подписью); возвращает хеш транзакции
+ */
+export interface ApprovalFlowOptions {
+    spender: Address;
+    amount: bigint;
+    execute: (signal: AbortSignal) => Promise<Hash>;
+}
+
+/**
+ * @description Состояние шагов процесса
+ *
+ * @property {Record} statuses   - Статусы шагов
+ * @property {Record} timestamps - Время последней смены статуса каждого шага (мс)
+ * @property {Record} reasons    - Причины неудачи шагов
+ */
+export interface ApprovalFlowSteps {
+    statuses: Record<ApprovalStep, ApprovalStepStatus>;
+    timestamps: Record<ApprovalStep, number | null>;
+    reasons: Record<ApprovalStep, ApprovalFailReason | null>;
+}
+
+/**
+ * @description Результат работы хука
+ *
+ * @property {Function}     start     - Запуск процесса; возвращает хеш целевой транзакции или null, если она не отправлена
+ * @property {Function}     cancel    - Отмена процесса (уже подписанные транзакции не отменяются)
+ * @property {Record}       params    - Значения для подстановки в комментарии шагов ({amount}, {symbol}, {allowance}, {spender})
+ * @property {ApprovalMode} mode      - Вид разрешения на списание (запоминается в настройках)
+ * @property {Function}     setMode   - Выбор вида разрешения
+ * @property {boolean}      isRunning - Процесс выполняется
+ */
+export interface ApprovalFlow extends ApprovalFlowSteps {
+    start: () => Promise<Hash | null>;
+    cancel: () => void;
+    params: MMConnectionCommentParams;
+    mode: ApprovalMode;
+    setMode: (mode: ApprovalMode) => void;
+    isRunning: boolean;
+}
+
+const createStepRecord = <T>(value: T): Record<ApprovalStep, T> =>
+    Object.fromEntries(APPROVAL_STEP_ORDER.map((step) => [step, value])) as Record<ApprovalStep, T>;
+
+const initialSteps: ApprovalFlowSteps = {
+    statuses: createStepRecord<ApprovalStepStatus>(ApprovalStepStatuses.WAITING),
+    timestamps: createStepRecord<number | null>(null),
+    reasons: createStepRecord<ApprovalFailReason | null>(null),
+};
+
+// Причина неудачи шага по перехваченной ошибке
+const toFailReason = (error: unknown): ApprovalFailReason =>
+    error instanceof ContractAccessError ? error.reason : classifyWalletError(error).reason;
+
+// Форматирует сумму токена (разрешение maxUint256 — «без ограничения»)
+const formatTokenAmount = (value: bigint, decimals: number): string =>
+    value === maxUint256 ? i18n.t('approvalFlow.unlimited') : formatUnits(value, decimals);
+
+/**
+
+ Хук useApprovalFlow
+
+ Выполняет процесс, который нужен большинству действий RUBAS, списывающих токены пользователя:
+ 1. checkAllowance — читает текущее разрешение (allowance) подключённого аккаунта для контракта spender;
+ 2. approve — если разрешения не хватает, запрашивает approve: ровно на сумму вызова или без ограничения
+    (выбор пользователя запоминается в useSettingsStore); транзакция проходит ту же проверку перед подписью,
+    что и любая другая (sendRubasContractWrite);
+ 3. waitConfirmation — ждёт подтверждения транзакции approve в сети (её отслеживает useTransactionTracking;
+    если транзакция заменена в кошельке, ожидание продолжается по заменившей);
+ 4. execute — отправляет целевой вызов.
+ Если разрешения хватает, шаги approve и waitConfirmation пропускаются (skipped). Статусы, время и причины неудачи
+ шагов хранятся в состоянии хука и отображаются молекулой ApprovalFlowTimeline. Процесс останавливается на первом
+ неудачном шаге; отмена (cancel или размонтирование) прерывает ожидание, но не отменяет уже подписанные транзакции.
+
+ @example
+   const flow = useApprovalFlow({
+       spender: stakingAddress,
+       amount,
+       execute: (signal) => sendRubasContractWrite({ contract, functionName: 'stake', args: [amount], signal }),
+   });
+   <ApprovalFlowTimeline {...flow} onModeChange={flow.setMode} />
+
+ @returns {ApprovalFlow} запуск и отмена процесса, состояние шагов, значения для комментариев и вид разрешения
+ */
+export const useApprovalFlow = ({ spender, amount, execute }: ApprovalFlowOptions): ApprovalFlow => {
+    const mode = useSettingsStore((state) => state.approvalMode);
+    const setMode = useSettingsStore((state) => state.setApprovalMode);
+
+    const [steps, setSteps] = useState<ApprovalFlowSteps>(initialSteps);
+    const [params, setParams] = useState<MMConnectionCommentParams>({ spender: shortenAddress(spender) });
+    const [isRunning, setIsRunning] = useState(false);
+
+    const controllerRef = useRef<AbortController | null>(null);
+
+    // Отмена при размонтировании
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const setStep = useCallback((step: ApprovalStep, status: ApprovalStepStatus, reason: ApprovalFailReason | null = null) => {
+        log.debug(`useApprovalFlow: шаг "${step}" — ${status}${reason ? ` (${reason})` : ''}.`);
+        setSteps((current) => ({
+            statuses: { ...current.statuses, [step]: status },
+            timestamps: { ...current.timestamps, [step]: Date.now() },
+            reasons: { ...current.reasons, [step]: reason },
+        }));
+    }, []);
+
+    const start = useCallback(async (): Promise<Hash | null> => {
+        if (controllerRef.current) {
+            log.warn('useApprovalFlow: процесс уже выполняется.');
+            return null;
+        }
+
+        const controller = new AbortController();
+        const { signal } = controller;
+        controllerRef.current = controller;
+
+        setSteps(initialSteps);
+        setIsRunning(true);
+
+        let step: ApprovalStep = ApprovalSteps.CHECK_ALLOWANCE;
+
+        try {
+            setStep(step, ApprovalStepStatuses.IN_PROGRESS);
+
+            const { address, abi, chainId } = resolveRubasContract(RubasContracts.TOKEN);
+            const account = useWalletStore.getState().account as Address;
+
+            const [allowance, decimals, symbol] = await Promise.all([
+                readContract(wagmiConfig, { address, abi, chainId, functionName: 'allowance', args: [account, spender] }),
+                readContract(wagmiConfig, { address, abi, chainId, functionName: 'decimals' }),
+                readContract(wagmiConfig, { address, abi, chainId, functionName: 'symbol' }),
+            ]);
+            signal.throwIfAborted();
+
+            setParams({
+                spender: shortenAddress(spender),
+                amount: formatTokenAmount(amount, decimals),
+                allowance: formatTokenAmount(allowance, decimals),
+                symbol,
+            });
+            log.debug(`useApprovalFlow: разрешение ${allowance} для ${spender}, нужно ${amount}.`);
+
+            setStep(step, ApprovalStepStatuses.SUCCESS);
+
+            if (allowance >= amount) {
+                setStep(ApprovalSteps.APPROVE, ApprovalStepStatuses.SKIPPED);
+                setStep(ApprovalSteps.WAIT_CONFIRMATION, ApprovalStepStatuses.SKIPPED);
+            } else {
+                step = ApprovalSteps.APPROVE;
+                setStep(step, ApprovalStepStatuses.IN_PROGRESS);
+
+                const approveMode = useSettingsStore.getState().approvalMode;
+                const approveHash = await sendRubasContractWrite({
+                    contract: RubasContracts.TOKEN,
+                    functionName: 'approve',
+                    args: [spender, approveMode === ApprovalModes.UNLIMITED ? maxUint256 : amount],
+                    signal,
+                });
+                signal.throwIfAborted();
+                setStep(step, ApprovalStepStatuses.SUCCESS);
+
+                step = ApprovalSteps.WAIT_CONFIRMATION;
+                setStep(step, ApprovalStepStatuses.IN_PROGRESS);
+
+                const outcome = await waitForTransactionOutcome(approveHash, signal);
+
+                if (outcome.status !== TransactionStatuses.CONFIRMED) {
+                    const status = outcome.error === TransactionErrors.TIMEOUT
+                        ? ApprovalStepStatuses.TIMEOUT
+                        : ApprovalStepStatuses.FAIL;
+
+                    setStep(step, status, outcome.error);
+                    return null;
+                }
+
+                setStep(step, ApprovalStepStatuses.SUCCESS);
+            }
+
+            step = ApprovalSteps.EXECUTE;
+            setStep(step, ApprovalStepStatuses.IN_PROGRESS);
+
+            const hash = await execute(signal);
+            signal.throwIfAborted();
+
+            log.debug(`useApprovalFlow: целевой вызов отправлен, хеш транзакции ${hash}.`);
+            setStep(step, ApprovalStepStatuses.SUCCESS);
+            return hash;
+        } catch (error) {
+            if (signal.aborted) {
+                setStep(step, ApprovalStepStatuses.CANCELLED);
+                return null;
+            }
+
+            const reason = toFailReason(error);
+            log.warn(`useApprovalFlow: шаг "${step}" не выполнен (${reason}).`, error);
+            setStep(step, ApprovalStepStatuses.FAIL, reason);
+            return null;
+        } finally {
+            if (controllerRef.current === controller) controllerRef.current = null;
+            setIsRunning(false);
+        }
+    }, [spender, amount, execute, setStep]);
+
+    const cancel = useCallback(() => {
+        log.debug('useApprovalFlow: процесс отменён пользователем.');
+        controllerRef.current?.abort();
+    }, []);
+
+    return { ...steps, start, cancel, params, mode, setMode, isRunning };
+};
@@ -1,48 +1,64 @@
 // Хук для получения текущего аккаунта MetaMask [★★★☆☆]
 
 import { useCallback } from 'react';
+import { getAccount } from 'wagmi/actions';
 
+import { type PhaseCheckOptions, type PhaseResult, PhaseStatuses } from '@/constants/connectionPhases';
+import { WalletErrorReasons } from '@/constants/walletErrors';
 import log from '@/log';
-import { useWalletStore } from '@/stores/useWalletStore';
+import { useAccountSelectionStore } from '@/stores/useAccountSelectionStore';
+import { selectActiveWalletId, useWalletProvidersStore } from '@/stores/useWalletProvidersStore';
+import { selectPreferredAccount, useWalletStore } from '@/stores/useWalletStore';
+import { wagmiConfig } from '@/wagmi';
 
 /**
 
  Хук useCheckMetaMaskAccount
- Выполняет запрос к MetaMask для получения текущего аккаунта.
- Возвращает true, если аккаунт получен (и логирует его), иначе — false.
- @returns асинхронная функция, возвращающая boolean: true — аккаунт получен, false — ошибка */
+ Получает авторизованные аккаунты из подключения wagmi (действие getAccount).
+ Если аккаунтов несколько — сообщает о промежуточном статусе selecting и ждёт, пока пользователь выберет
+ аккаунт в списке (useAccountSelectionStore); выбор запоминается для кошелька в useWalletStore
+ и в следующий раз выделяется заранее.
+ Возвращает { ok: true }, если аккаунт получен (и логирует его), иначе — причину неудачи.
+ После отмены (signal) аккаунт не сохраняется в хранилище.
+ @returns асинхронная функция, возвращающая PhaseResult: ok — аккаунт получен, иначе причина noAccounts или cancelled */
 
 export const useCheckMetaMaskAccount = () => { const setWalletState = useWalletStore((state) => state.setState);
-    return useCallback(async (): Promise<boolean> => {
-        if (
-            typeof window === 'undefined' ||
-            !window.ethereum ||
-            typeof window.ethereum.request !== 'function'
-        ) {
-            log.warn('useCheckMetaMaskAccount: MetaMask не найден или window.ethereum недоступен.');
-            return false;
+    return useCallback(async ({ signal, reportStatus }: PhaseCheckOptions = {}): Promise<PhaseResult> => {
+        const { addresses = [], isConnected } = getAccount(wagmiConfig);
+        const accounts = [...addresses];
+
+        if (signal?.aborted) {
+            log.debug('useCheckMetaMaskAccount: проверка отменена, аккаунт не сохраняется.');
+            return { ok: false, reason: WalletErrorReasons.CANCELLED };
+        }
+
+        if (!isConnected || accounts.length === 0) {
+            log.warn('useCheckMetaMaskAccount: кошелёк не подключён, аккаунт не получен.');
+            return { ok: false, reason: WalletErrorReasons.NO_ACCOUNTS };
         }
 
-        try {
-            const accounts: string[] = await window.ethereum.request({
-                method: 'eth_accounts',
-            });
+        const walletId = selectActiveWalletId(useWalletProvidersStore.getState());
+        const preferred = selectPreferredAccount(useWalletStore.getState(), walletId, accounts);
+        let account: string | null = accounts[0];
 
-            if (Array.isArray(accounts) && accounts.length > 0) {
-                const account = accounts[0];
-                log.debug(`useCheckMetaMaskAccount: получен аккаунт: ${account}`);
+        if (accounts.length > 1) {
+            log.debug(`useCheckMetaMaskAccount: авторизовано ${accounts.length} аккаунтов, ожидаем выбор пользователя.`);
+            reportStatus?.(PhaseStatuses.SELECTING);
 
-                // Сохраняем в zustand
-                setWalletState({ account });
+            account = await useAccountSelectionStore.getState().requestSelection({ accounts, preferred }, signal);
 
-                return true;
-            } else {
-                log.warn('useCheckMetaMaskAccount: список аккаунтов пуст.');
-                return false;
+            if (!account || signal?.aborted) {
+                log.debug('useCheckMetaMaskAccount: выбор аккаунта прерван, аккаунт не сохраняется.');
+                return { ok: false, reason: WalletErrorReasons.CANCELLED };
             }
-        } catch (error) {
-            log.error('useCheckMetaMaskAccount: ошибка при получении аккаунта:', error);
-            return false;
         }
+
+        log.debug(`useCheckMetaMaskAccount: получен аккаунт: ${account}`);
+
+        // Сохраняем в zustand (и запоминаем выбор для кошелька)
+        if (walletId) useWalletStore.getState().setPreferredAccount(walletId, account);
+        setWalletState({ account, accounts, isConnected: true });
+
+        return { ok: true };
     }, [setWalletState]);
-};
\ No newline at end of file
+};
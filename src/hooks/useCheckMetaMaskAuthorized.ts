@@ -0,0 +1,82 @@
+// Хук для проверки (и, при необходимости, запроса) доступа сайта к аккаунтам MetaMask [★★★☆☆]
+
+import { useCallback } from 'react';
+import { connect, getAccount } from 'wagmi/actions';
+
+import { type PhaseCheckOptions, type PhaseResult } from '@/constants/connectionPhases';
+import { WalletErrorReasons } from '@/constants/walletErrors';
+import log from '@/log';
+import { withAbortSignal } from '@/services/abortableRequest';
+import { getActiveProvider } from '@/services/eip6963ProviderDiscovery';
+import { classifyWalletError } from '@/services/walletError';
+import { hasAccountsPermission, requestAccountsPermission } from '@/services/walletPermissions';
+import { useWalletStore } from '@/stores/useWalletStore';
+import { getMetaMaskConnector, wagmiConfig } from '@/wagmi';
+
+/**
+
+ Хук useCheckMetaMaskAuthorized
+
+ Проверяет, выдано ли сайту разрешение eth_accounts (wallet_getPermissions / eth_accounts — без окна кошелька).
+ Разрешение запрашивается (wallet_requestPermissions — окно MetaMask с выбором аккаунтов) только если его нет.
+ После этого MetaMask подключается через wagmi (действие connect): для авторизованного сайта
+ eth_requestAccounts возвращает аккаунты без повторного окна.
+
+ Отказ пользователя (4001), уже открытый запрос (-32002) и другие ошибки кошелька
+ классифицируются по коду (classifyWalletError).
+
+ Ожидание любого запроса прерывается через signal: после отмены ответ кошелька игнорируется.
+
+ @returns асинхронная функция, принимающая (необязательно) параметры проверки (signal) и возвращающая PhaseResult:
+ ok — сайт авторизован и аккаунты получены, иначе причина неудачи
+ */
+export const useCheckMetaMaskAuthorized = () => {
+    const setWalletState = useWalletStore((state) => state.setState);
+
+    return useCallback(async ({ signal }: PhaseCheckOptions = {}): Promise<PhaseResult> => {
+        const provider = getActiveProvider();
+
+        if (!provider) {
+            log.warn('useCheckMetaMaskAuthorized: провайдер MetaMask не выбран (кошелёк не обнаружен).');
+            return { ok: false, reason: WalletErrorReasons.NOT_INSTALLED };
+        }
+
+        try {
+            const current = getAccount(wagmiConfig);
+
+            if (current.isConnected && (current.addresses?.length ?? 0) > 0) {
+                log.debug('useCheckMetaMaskAuthorized: кошелёк уже подключён, доступ к аккаунтам есть.');
+                return { ok: true };
+            }
+
+            const isAuthorized = await withAbortSignal(hasAccountsPermission(provider), signal);
+
+            if (!isAuthorized) {
+                log.debug('useCheckMetaMaskAuthorized: сайт не авторизован, запрашиваем разрешение eth_accounts.');
+                await withAbortSignal(requestAccountsPermission(provider), signal);
+            }
+
+            const { accounts } = await withAbortSignal(connect(wagmiConfig, { connector: getMetaMaskConnector() }), signal);
+
+            log.debug(`useCheckMetaMaskAuthorized: получено аккаунтов: ${accounts.length}.`);
+
+            if (accounts.length === 0) {
+                return { ok: false, reason: WalletErrorReasons.NO_ACCOUNTS };
+            }
+
+            // Кошелёк, вернувший аккаунты, заведомо разблокирован
+            setWalletState({ isMetaMaskUnlocked: true });
+            return { ok: true };
+        } catch (error) {
+            const { reason, code } = classifyWalletError(error);
+
+            if (reason === WalletErrorReasons.CANCELLED) {
+                log.debug('useCheckMetaMaskAuthorized: проверка отменена, ответ кошелька игнорируется.');
+            } else {
+                log.error(`useCheckMetaMaskAuthorized: доступ к аккаунтам не получен (${reason}, код ${code}):`, error);
+            }
+
+            return { ok: false, reason };
+        }
+    }, [setWalletState]);
+};
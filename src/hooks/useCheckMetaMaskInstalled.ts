@@ -1,13 +1,48 @@
-// Хук для проверки наличия MetaMask [★★☆☆☆]
+// Хук для проверки наличия MetaMask среди кошельков, объявленных по EIP-6963 [★★★☆☆]
 
 import { useCallback } from 'react';
 
+import { type PhaseCheckOptions, type PhaseResult } from '@/constants/connectionPhases';
+import { WalletErrorReasons } from '@/constants/walletErrors';
 import log from '@/log';
+import { findMetaMaskProvider } from '@/services/eip6963ProviderDiscovery';
+import { selectWalletsCount, useWalletProvidersStore } from '@/stores/useWalletProvidersStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+import { getMetaMaskConnector } from '@/wagmi';
 
+/**
+
+ Хук useCheckMetaMaskInstalled
+
+ Запрашивает объявления кошельков (EIP-6963) и ищет среди них MetaMask (rdns = io.metamask).
+ Найденный MetaMask становится выбранным провайдером, с которым работает коннектор wagmi (а через него —
+ остальные хуки подключения).
+
+ @returns асинхронная функция, возвращающая PhaseResult: ok — MetaMask обнаружен, иначе причина notInstalled или cancelled
+ */
 export const useCheckMetaMaskInstalled = () => {
-    return useCallback(async (): Promise<boolean> => {
-        const result = typeof window !== 'undefined' && !!window.ethereum?.isMetaMask;
-        log.debug(`useCheckMetaMaskInstalled: MetaMask ${result ? 'обнаружен' : 'не обнаружен'}`);
-        return result;
-    }, []);
-};
\ No newline at end of file
+    const setWalletState = useWalletStore((state) => state.setState);
+
+    return useCallback(async ({ signal }: PhaseCheckOptions = {}): Promise<PhaseResult> => {
+        const metaMask = await findMetaMaskProvider();
+
+        // Коннектор wagmi должен «видеть» выбранный провайдер MetaMask
+        const provider = metaMask ? await getMetaMaskConnector().getProvider() : null;
+
+        if (signal?.aborted) {
+            log.debug('useCheckMetaMaskInstalled: проверка отменена, результат поиска игнорируется.');
+            return { ok: false, reason: WalletErrorReasons.CANCELLED };
+        }
+
+        const walletsCount = selectWalletsCount(useWalletProvidersStore.getState());
+        const result = Boolean(provider);
+
+        log.debug(
+            `useCheckMetaMaskInstalled: MetaMask ${result ? 'обнаружен' : 'не обнаружен'} (кошельков: ${walletsCount})`,
+        );
+
+        setWalletState({ isMetaMaskAvailable: result });
+
+        return result ? { ok: true } : { ok: false, reason: WalletErrorReasons.NOT_INSTALLED };
+    }, [setWalletState]);
+};
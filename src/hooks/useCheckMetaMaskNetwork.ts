@@ -1,49 +1,88 @@
-// Хук для проверки, подключен ли MetaMask к сети BNB Smart Chain (BSC) [★★★☆☆]
+// Хук для проверки (и, при необходимости, переключения) сети MetaMask на целевую сеть из настроек [★★★☆☆]
 
 import { useCallback } from 'react';
+import { getAccount, switchChain } from 'wagmi/actions';
 
-import { BSC_CHAIN_ID } from '@/constants/network';
+import { type PhaseCheckOptions, type PhaseResult, PhaseStatuses } from '@/constants/connectionPhases';
+import { WalletErrorReasons } from '@/constants/walletErrors';
 import log from '@/log';
+import { withAbortSignal } from '@/services/abortableRequest';
+import { toAddEthereumChainParameter } from '@/services/networkRegistry';
+import { classifyWalletError } from '@/services/walletError';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+import { getMetaMaskConnector, wagmiConfig } from '@/wagmi';
 
 /**
 
  Хук useCheckMetaMaskNetwork
 
- Проверяет, подключён ли MetaMask к нужной сети (BNB Smart Chain / BSC).
+ Проверяет, подключён ли MetaMask к целевой сети (выбирается в настройках, см. useSettingsStore), по данным подключения wagmi.
 
- Возвращает true, если chainId совпадает с ожидаемым (56), иначе — false.
+ Если сеть другая — сообщает о промежуточном статусе switching и запрашивает переключение
+ (действие wagmi switchChain). Если кошелёк не знает целевую сеть (ошибка 4902), wagmi предлагает её добавить
+ (wallet_addEthereumChain) с параметрами из реестра сетей. После этого сеть проверяется повторно.
 
- @returns асинхронная функция, возвращающая boolean: true — сеть корректна, false — нет
+ Ожидание любого запроса прерывается через signal: после отмены ответ кошелька в хранилище не попадает.
+ Отказ от переключения и другие ошибки кошелька классифицируются по коду (classifyWalletError).
+
+ @returns асинхронная функция, принимающая (необязательно) параметры проверки (signal, reportStatus)
+ и возвращающая PhaseResult: ok — сеть корректна, иначе причина неудачи (например, userRejected или wrongChain)
  */
 export const useCheckMetaMaskNetwork = () => {
-    return useCallback(async (): Promise<boolean> => {
-        if (
-            typeof window === 'undefined' ||
-            !window.ethereum ||
-            typeof window.ethereum.request !== 'function'
-        ) {
-            log.warn('useCheckMetaMaskNetwork: MetaMask не найден или window.ethereum недоступен.');
-            return false;
+    const setWalletState = useWalletStore((state) => state.setState);
+
+    return useCallback(async ({ signal, reportStatus }: PhaseCheckOptions = {}): Promise<PhaseResult> => {
+        const { chainId, isConnected } = getAccount(wagmiConfig);
+        // Сеть читается при каждой проверке: пользователь мог сменить её в настройках
+        const targetNetwork = selectTargetNetwork(useSettingsStore.getState());
+
+        if (!isConnected || chainId === undefined) {
+            log.warn('useCheckMetaMaskNetwork: кошелёк не подключён — сеть проверить невозможно.');
+            return { ok: false, reason: WalletErrorReasons.DISCONNECTED };
+        }
+
+        if (chainId === targetNetwork.chainId) {
+            log.debug(`useCheckMetaMaskNetwork: получен chainId = ${chainId}, сеть корректна (${targetNetwork.name}).`);
+            setWalletState({ chainId, isCorrectNetwork: true });
+            return { ok: true };
         }
 
+        log.debug(`useCheckMetaMaskNetwork: получен chainId = ${chainId}, неверная сеть! Запрашиваем переключение на ${targetNetwork.name}.`);
+        reportStatus?.(PhaseStatuses.SWITCHING);
+
         try {
-            const chainIdHex: string = await window.ethereum.request({
-                method: 'eth_chainId',
-            });
+            await withAbortSignal(
+                switchChain(wagmiConfig, {
+                    connector: getMetaMaskConnector(),
+                    chainId: targetNetwork.chainId,
+                    addEthereumChainParameter: toAddEthereumChainParameter(targetNetwork),
+                }),
+                signal,
+            );
 
-            const chainId = parseInt(chainIdHex, 16);
-            const isCorrect = chainId === BSC_CHAIN_ID;
+            // Повторная проверка: кошелёк мог принять запрос, но остаться в прежней сети
+            const switchedChainId = getAccount(wagmiConfig).chainId ?? null;
+            const isCorrect = switchedChainId === targetNetwork.chainId;
+            setWalletState({ chainId: switchedChainId, isCorrectNetwork: isCorrect });
 
             log.debug(
-                `useCheckMetaMaskNetwork: получен chainId = ${chainId} (${chainIdHex}), ${
-                    isCorrect ? 'сеть корректна (BSC).' : 'неверная сеть!'
+                `useCheckMetaMaskNetwork: после переключения chainId = ${switchedChainId}, ${
+                    isCorrect ? `сеть корректна (${targetNetwork.name}).` : 'неверная сеть!'
                 }`,
             );
 
-            return isCorrect;
+            return isCorrect ? { ok: true } : { ok: false, reason: WalletErrorReasons.WRONG_CHAIN };
         } catch (error) {
-            log.error('useCheckMetaMaskNetwork: ошибка при получении chainId:', error);
-            return false;
+            const { reason, code } = classifyWalletError(error);
+
+            if (reason === WalletErrorReasons.CANCELLED) {
+                log.debug('useCheckMetaMaskNetwork: проверка отменена, ответ кошелька игнорируется.');
+            } else {
+                log.warn(`useCheckMetaMaskNetwork: переключение сети не выполнено (${reason}, код ${code}):`, error);
+            }
+
+            return { ok: false, reason };
         }
-    }, []);
-};
\ No newline at end of file
+    }, [setWalletState]);
+};
@@ -0,0 +1,94 @@
+// Хук входа с подписью сообщения Sign-In with Ethereum (EIP-4361) [★★★☆☆]
+
+import { useCallback } from 'react';
+import { signMessage } from 'wagmi/actions';
+
+import { type PhaseCheckOptions, type PhaseResult } from '@/constants/connectionPhases';
+import { WalletErrorReasons } from '@/constants/walletErrors';
+import i18n from '@/i18n';
+import log from '@/log';
+import { withAbortSignal } from '@/services/abortableRequest';
+import { buildSiweMessage, verifySiweSignature } from '@/services/siweMessage';
+import { classifyWalletError } from '@/services/walletError';
+import { selectValidSession, useSiweSessionStore } from '@/stores/useSiweSessionStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+import { getMetaMaskConnector, wagmiConfig } from '@/wagmi';
+
+/**
+
+ Хук useCheckMetaMaskSignIn
+
+ Подтверждает владение адресом, полученным на предыдущей фазе:
+ формирует сообщение EIP-4361 (домен, nonce, chain id, срок действия), запрашивает подпись
+ (действие wagmi signMessage, внутри — personal_sign), проверяет её локально (viem verifyMessage)
+ и сохраняет сессию в useSiweSessionStore.
+
+ Если для текущего адреса и сети уже есть действующая сессия — повторная подпись не запрашивается.
+ После отмены (signal) подпись игнорируется и сессия не сохраняется.
+
+ @returns асинхронная функция, возвращающая PhaseResult: ok — вход выполнен, иначе причина (отказ, неверная подпись, отмена)
+ */
+export const useCheckMetaMaskSignIn = () => {
+    const setSession = useSiweSessionStore((state) => state.setSession);
+
+    return useCallback(async ({ signal }: PhaseCheckOptions = {}): Promise<PhaseResult> => {
+        const { account, chainId } = useWalletStore.getState();
+
+        if (!account || chainId === null) {
+            log.warn('useCheckMetaMaskSignIn: нет аккаунта или сети — вход невозможен.');
+            return { ok: false, reason: WalletErrorReasons.NO_ACCOUNTS };
+        }
+
+        if (selectValidSession(useSiweSessionStore.getState(), account, chainId)) {
+            log.debug(`useCheckMetaMaskSignIn: для ${account} уже есть действующая сессия, подпись не требуется.`);
+            return { ok: true };
+        }
+
+        try {
+            const siwe = buildSiweMessage({ address: account, chainId, statement: i18n.t('siwe.statement') });
+
+            const signature = await withAbortSignal(
+                signMessage(wagmiConfig, {
+                    connector: getMetaMaskConnector(),
+                    account: siwe.address,
+                    message: siwe.message,
+                }),
+                signal,
+            );
+
+            const isValid = await verifySiweSignature(siwe, signature);
+
+            if (signal?.aborted) {
+                log.debug('useCheckMetaMaskSignIn: вход отменён, подпись игнорируется.');
+                return { ok: false, reason: WalletErrorReasons.CANCELLED };
+            }
+
+            if (!isValid) {
+                log.warn('useCheckMetaMaskSignIn: подпись не прошла проверку.');
+                return { ok: false, reason: WalletErrorReasons.INVALID_SIGNATURE };
+            }
+
+            setSession({
+                address: siwe.address,
+                chainId: siwe.chainId,
+                message: siwe.message,
+                signature,
+                issuedAt: siwe.issuedAt,
+                expiresAt: siwe.expiresAt,
+            });
+
+            log.debug(`useCheckMetaMaskSignIn: вход выполнен (${siwe.address}).`);
+            return { ok: true };
+        } catch (error) {
+            const { reason, code } = classifyWalletError(error);
+
+            if (reason === WalletErrorReasons.CANCELLED) {
+                log.debug('useCheckMetaMaskSignIn: вход отменён, подпись игнорируется.');
+            } else {
+                log.error(`useCheckMetaMaskSignIn: ошибка при запросе или проверке подписи (${reason}, код ${code}):`, error);
+            }
+
+            return { ok: false, reason };
+        }
+    }, [setSession]);
+};
@@ -2,48 +2,78 @@
 
 import { useCallback } from 'react';
 
+import { UNLOCK_POLL_INTERVAL_MS } from '@/constants/connection';
+import { type PhaseCheckOptions, type PhaseResult } from '@/constants/connectionPhases';
+import { WalletErrorReasons } from '@/constants/walletErrors';
 import log from '@/log';
+import { withAbortSignal } from '@/services/abortableRequest';
+import { getActiveProvider } from '@/services/eip6963ProviderDiscovery';
+import { classifyWalletError } from '@/services/walletError';
+import { getUnlockState } from '@/services/walletPermissions';
+import { useWalletStore } from '@/stores/useWalletStore';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 /**
 
  Хук useCheckMetaMaskUnlocked
 
- Выполняет попытку запроса аккаунтов через MetaMask (eth_requestAccounts).
+ Проверяет, разблокирован ли MetaMask, не открывая окно кошелька (_metamask.isUnlocked).
+
+ Если кошелёк заблокирован — раз в UNLOCK_POLL_INTERVAL_MS проверяет снова, пока пользователь не введёт пароль
+ (время ожидания ограничено политикой фазы). Доступ сайта к аккаунтам здесь не запрашивается —
+ это следующая фаза (useCheckMetaMaskAuthorized).
 
- Если аккаунты возвращены — считаем, что MetaMask разблокирован.
+ Если кошелёк не сообщает своё состояние (не MetaMask или старая версия), фаза считается пройденной:
+ при необходимости окно разблокировки откроет запрос доступа к аккаунтам.
 
- Если ошибка или аккаунтов нет — считаем, что MetaMask заблокирован или пользователь отклонил доступ.
+ Ожидание прерывается через signal: после отмены ответ кошелька игнорируется.
 
- @returns асинхронная функция, возвращающая boolean: true — MetaMask разблокирован, false — заблокирован
+ @returns асинхронная функция, принимающая (необязательно) параметры проверки (signal) и возвращающая PhaseResult:
+ ok — MetaMask разблокирован, иначе причина неудачи
  */
 export const useCheckMetaMaskUnlocked = () => {
-    return useCallback(async (): Promise<boolean> => {
-        if (
-            typeof window === 'undefined' ||
-            !window.ethereum ||
-            typeof window.ethereum.request !== 'function'
-        ) {
-            log.warn('useCheckMetaMaskUnlocked: MetaMask не найден или window.ethereum недоступен.');
-            return false;
+    const setWalletState = useWalletStore((state) => state.setState);
+
+    return useCallback(async ({ signal }: PhaseCheckOptions = {}): Promise<PhaseResult> => {
+        const provider = getActiveProvider();
+
+        if (!provider) {
+            log.warn('useCheckMetaMaskUnlocked: провайдер MetaMask не выбран (кошелёк не обнаружен).');
+            return { ok: false, reason: WalletErrorReasons.NOT_INSTALLED };
         }
 
         try {
-            const accounts: string[] = await window.ethereum.request({
-                method: 'eth_requestAccounts',
-            });
+            for (let attempt = 0; ; attempt++) {
+                const isUnlocked = await withAbortSignal(getUnlockState(provider), signal);
 
-            const isUnlocked = Array.isArray(accounts) && accounts.length > 0;
+                if (isUnlocked !== false) {
+                    log.debug(
+                        `useCheckMetaMaskUnlocked: ${
+                            isUnlocked ? 'MetaMask разблокирован.' : 'кошелёк не сообщает состояние, проверка пропущена.'
+                        }`,
+                    );
+                    if (isUnlocked) setWalletState({ isMetaMaskUnlocked: true });
+                    return { ok: true };
+                }
 
-            log.debug(
-                `useCheckMetaMaskUnlocked: ${
-                    isUnlocked ? 'MetaMask разблокирован, аккаунты получены.' : 'Аккаунты не получены.'
-                }`,
-            );
+                if (attempt === 0) {
+                    log.debug('useCheckMetaMaskUnlocked: MetaMask заблокирован, ожидаем разблокировки пользователем.');
+                    setWalletState({ isMetaMaskUnlocked: false });
+                }
 
-            return isUnlocked;
+                await withAbortSignal(sleep(UNLOCK_POLL_INTERVAL_MS), signal);
+            }
         } catch (error) {
-            log.error('useCheckMetaMaskUnlocked: ошибка при запросе аккаунтов:', error);
-            return false;
+            const { reason, code } = classifyWalletError(error);
+
+            if (reason === WalletErrorReasons.CANCELLED) {
+                log.debug('useCheckMetaMaskUnlocked: проверка отменена, ответ кошелька игнорируется.');
+            } else {
+                log.error(`useCheckMetaMaskUnlocked: ошибка при проверке разблокировки (${reason}, код ${code}):`, error);
+            }
+
+            return { ok: false, reason };
         }
-    }, []);
-};
\ No newline at end of file
+    }, [setWalletState]);
+};
@@ -3,55 +3,101 @@
 /**
 
  Хук useConnectWallet.
- Обрабатывает логику подключения кошелька MetaMask и обновления zustand-стора.
+ Обрабатывает логику подключения кошелька MetaMask (действия wagmi connect / disconnect)
+ и обновления zustand-стора. При отключении отзывает разрешение сайта в кошельке (wallet_revokePermissions,
+ если кошелёк его поддерживает) и очищает хранилища кошелька, подключения и сессии Sign-In with Ethereum,
+ чтобы после перезагрузки страницы подключение не восстанавливалось само.
  @module */
 
 import { useCallback, useState } from 'react';
+import { connect as wagmiConnect, disconnect as wagmiDisconnect, getAccount } from 'wagmi/actions';
 
 import log from '@/log';
-import { useWalletStore } from '@/stores/useWalletStore';
+import { findMetaMaskProvider } from '@/services/eip6963ProviderDiscovery';
+import { revokeAccountsPermission } from '@/services/walletPermissions';
+import { useConnectionStore } from '@/stores/useConnectionStore';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+import { useSiweSessionStore } from '@/stores/useSiweSessionStore';
+import {
+    selectActiveProvider,
+    selectActiveWalletId,
+    useWalletProvidersStore,
+} from '@/stores/useWalletProvidersStore';
+import { selectPreferredAccount, useWalletStore } from '@/stores/useWalletStore';
+import { getMetaMaskConnector, wagmiConfig } from '@/wagmi';
 
 export const useConnectWallet = () => {
     const [loading, setLoading] = useState(false);
     const setWalletState = useWalletStore((state) => state.setState);
     const resetWalletState = useWalletStore((state) => state.resetState);
 
-    const connect = useCallback(async (componentName: string): Promise<void> => {
+    const connect = useCallback(async (componentName: string): Promise<boolean> => {
         log.debug(`useConnectWallet: [${componentName}] — начало подключения к MetaMask`);
         setLoading(true);
 
         try {
-            const isMetaMaskInstalled =
-                typeof window !== 'undefined' && !!window.ethereum?.isMetaMask;
+            const isMetaMaskInstalled = (await findMetaMaskProvider()) !== null;
 
             log.debug(`useConnectWallet: MetaMask установлен: ${isMetaMaskInstalled ? 'Да' : 'Нет'}`);
 
             // Обновляем zustand-стор
             setWalletState({isMetaMaskAvailable: isMetaMaskInstalled});
 
-            // Имитация асинхронной операции
-            await new Promise((resolve) => setTimeout(resolve, 1000));
+            if (!isMetaMaskInstalled) return false;
+
+            // Подключение через wagmi (если кошелёк уже подключён — используем текущее подключение)
+            const current = getAccount(wagmiConfig);
+            const { accounts, chainId } = current.isConnected
+                ? { accounts: current.addresses ?? [], chainId: current.chainId }
+                : await wagmiConnect(wagmiConfig, { connector: getMetaMaskConnector() });
+
+            const walletId = selectActiveWalletId(useWalletProvidersStore.getState());
+            const account = selectPreferredAccount(useWalletStore.getState(), walletId, accounts) ?? accounts[0] ?? null;
+
+            setWalletState({
+                isMetaMaskUnlocked: account !== null,
+                isConnected: account !== null,
+                isCorrectNetwork: chainId === selectTargetNetwork(useSettingsStore.getState()).chainId,
+                account,
+                accounts: [...accounts],
+                chainId: chainId ?? null,
+            });
+
+            log.debug(`useConnectWallet: [${componentName}] — подключено: ${account} (chainId = ${chainId})`);
+
+            return account !== null;
         } catch (error) {
             log.error(`useConnectWallet: ошибка при подключении к MetaMask`, error);
+            return false;
         } finally {
             setLoading(false);
         }
     }, [setWalletState]);
 
-    const disconnect = useCallback(async (componentName: string): Promise<void> => {
+    const disconnect = useCallback(async (componentName: string): Promise<boolean> => {
         log.debug(`useConnectWallet: [${componentName}] — начало отключения от MetaMask`);
         setLoading(true);
 
         try {
-            // Имитация асинхронной операции
-            await new Promise((resolve) => setTimeout(resolve, 500));
+            // Отзыв разрешения в кошельке (иначе MetaMask продолжит отдавать аккаунты сайту без запроса)
+            const provider = selectActiveProvider(useWalletProvidersStore.getState());
+            const isRevoked = provider ? await revokeAccountsPermission(provider) : false;
+
+            log.debug(`useConnectWallet: разрешение сайта в кошельке ${isRevoked ? 'отозвано' : 'не отозвано'}.`);
 
-            // Сброс состояния в zustand
+            await wagmiDisconnect(wagmiConfig);
+
+            // Сброс состояния в zustand (включая время последнего подключения и сессию SIWE)
             resetWalletState();
+            useConnectionStore.getState().fullReset();
+            useSiweSessionStore.getState().clearSession();
 
             log.debug(`useConnectWallet: [${componentName}] — успешно отключено`);
+
+            return true;
         } catch (error) {
             log.error(`useConnectWallet: ошибка при отключении от MetaMask`, error);
+            return false;
         } finally {
             setLoading(false);
         }
@@ -62,4 +108,4 @@ export const useConnectWallet = () => {
         disconnect,
         loading,
     };
-};
\ No newline at end of file
+};
@@ -0,0 +1,287 @@
+// Хук-оркестратор процесса подключения к MetaMask: запускает проверки фаз и управляет useConnectionStore [★★★☆☆]
+
+import { useCallback, useRef, useState } from 'react';
+
+import {
+    type ConnectionPhase,
+    type PhaseChecker,
+    PhaseStatuses,
+    type PhaseStatusReporter,
+} from '@/constants/connectionPhases';
+import { NON_RETRYABLE_REASONS, type PhasePolicy } from '@/constants/connectionPolicy';
+import { type WalletErrorReason, WalletErrorReasons } from '@/constants/walletErrors';
+import log from '@/log';
+import { withAbortSignal } from '@/services/abortableRequest';
+import {
+    CONNECTION_PHASE_ORDER,
+    CONNECTION_PHASE_REGISTRY,
+    getPhaseDefinition,
+} from '@/services/connectionPhaseRegistry';
+import { classifyWalletError } from '@/services/walletError';
+import { useConnectionStore } from '@/stores/useConnectionStore';
+
+/**
+ * @description Параметры оркестратора
+ *
+ * @property {number} [minStageTime] - Минимальная длительность фазы (мс), чтобы пользователь успевал увидеть её статус
+ * @property {Partial<Record<ConnectionPhase, PhaseChecker>>} [checkers] - Подмена проверок отдельных фаз (для историй и тестов)
+ * @property {Partial<Record<ConnectionPhase, Partial<PhasePolicy>>>} [policies] - Подмена политик фаз (таймаут, повторы, задержка)
+ */
+export interface ConnectionOrchestratorOptions {
+    minStageTime?: number;
+    checkers?: Partial<Record<ConnectionPhase, PhaseChecker>>;
+    policies?: Partial<Record<ConnectionPhase, Partial<PhasePolicy>>>;
+}
+
+/**
+ * @description Результат работы хука
+ *
+ * @property {Function} start     - Запуск процесса подключения с первой фазы (true — все фазы пройдены успешно)
+ * @property {Function} retry     - Повторный запуск с неудавшейся фазы: пройденные фазы сохраняются (true — все фазы пройдены)
+ * @property {Function} cancel    - Отмена выполняющегося процесса (текущая фаза получает статус cancelled)
+ * @property {boolean}  isRunning - Выполняется ли процесс в данный момент
+ */
+export interface ConnectionOrchestrator {
+    start: () => Promise<boolean>;
+    retry: () => Promise<boolean>;
+    cancel: () => void;
+    isRunning: boolean;
+}
+
+const componentName = 'useConnectionOrchestrator';
+
+// Исход одной попытки проверки фазы (для fail — с причиной неудачи)
+type PhaseAttemptOutcome = 'success' | 'fail' | 'timeout';
+
+interface PhaseAttemptResult {
+    outcome: PhaseAttemptOutcome;
+    reason?: WalletErrorReason;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Проверки всех фаз реестра. Реестр неизменен, поэтому хуки вызываются в одном и том же порядке при каждом рендере
+const useRegistryCheckers = (): Record<ConnectionPhase, PhaseChecker> => {
+    const checkers = {} as Record<ConnectionPhase, PhaseChecker>;
+
+    for (const definition of CONNECTION_PHASE_REGISTRY) {
+        checkers[definition.id] = definition.useChecker();
+    }
+
+    return checkers;
+};
+
+// Одна попытка проверки фазы, ограниченная по времени: по истечении timeoutMs ожидание прерывается через AbortSignal
+const runPhaseAttempt = async (
+    checker: PhaseChecker,
+    timeoutMs: number,
+    runSignal: AbortSignal,
+    reportStatus: PhaseStatusReporter,
+): Promise<PhaseAttemptResult> => {
+    const attemptController = new AbortController();
+    const abortAttempt = () => attemptController.abort();
+    let timedOut = false;
+
+    // Отмена всего процесса прерывает и текущую попытку
+    runSignal.addEventListener('abort', abortAttempt, { once: true });
+
+    const timer = setTimeout(() => {
+        timedOut = true;
+        attemptController.abort();
+    }, timeoutMs);
+
+    try {
+        const result = await withAbortSignal(
+            checker({ signal: attemptController.signal, reportStatus }),
+            attemptController.signal,
+        );
+
+        if (timedOut) return { outcome: 'timeout' };
+        return result.ok ? { outcome: 'success' } : { outcome: 'fail', reason: result.reason };
+    } catch (error) {
+        const { reason } = classifyWalletError(error);
+
+        if (reason !== WalletErrorReasons.CANCELLED) {
+            log.error(`${componentName}: ошибка при проверке фазы:`, error);
+        }
+        return timedOut ? { outcome: 'timeout' } : { outcome: 'fail', reason };
+    } finally {
+        clearTimeout(timer);
+        runSignal.removeEventListener('abort', abortAttempt);
+    }
+};
+
+/**
+
+ Хук useConnectionOrchestrator
+
+ Единственное место, где выполняется конечный автомат подключения: по очереди запускает проверки фаз
+ из реестра (CONNECTION_PHASE_REGISTRY) и переводит useConnectionStore через goOn / goFail. Причина неудачи фазы
+ (PhaseResult.reason) передаётся в goFail, чтобы таймлайн показал соответствующий комментарий. Промежуточные статусы
+ (например, switching при переключении сети) записываются через setPhaseStatus.
+
+ Каждая фаза выполняется по своей политике из реестра: попытка ограничена по времени,
+ после неудачи или таймаута выполняются повторы с удваивающейся задержкой (кроме отказа пользователя —
+ NON_RETRYABLE_REASONS: повтор снова открыл бы окно кошелька). Если последняя попытка
+ завершилась таймаутом, фаза получает статус timeout (goTimeout), иначе — fail (goFail).
+ Компонент MetaMaskConnectionTimeline лишь отображает состояние хранилища.
+
+ retry() продолжает процесс с неудавшейся фазы (useConnectionStore.retryFromCurrent): пройденные фазы
+ и их временные метки сохраняются.
+
+ Каждый запуск получает собственный AbortController. cancel() прерывает ожидание ответа кошелька
+ и фиксирует отмену (useConnectionStore.cancel); поздний ответ кошелька после этого игнорируется.
+
+ @param {ConnectionOrchestratorOptions} [options] - параметры оркестратора
+ @returns {ConnectionOrchestrator} функции запуска, повтора и отмены и признак выполнения
+ */
+export const useConnectionOrchestrator = (
+    options: ConnectionOrchestratorOptions = {},
+): ConnectionOrchestrator => {
+    const { minStageTime = 500, checkers: overrides, policies } = options;
+
+    // Объект проверок создаётся заново при каждом рендере, поэтому run читает его через ref
+    const registryCheckers = useRegistryCheckers();
+    const registryCheckersRef = useRef(registryCheckers);
+    registryCheckersRef.current = registryCheckers;
+
+    const runningRef = useRef(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+
+    // Выполнение фаз, начиная с текущей фазы хранилища; prepareStore переводит хранилище в начальное состояние запуска
+    const run = useCallback(async (prepareStore: () => boolean): Promise<boolean> => {
+        if (runningRef.current) {
+            log.debug(`${componentName}: процесс подключения уже выполняется.`);
+            return false;
+        }
+
+        if (!prepareStore()) {
+            return false;
+        }
+
+        const checkers: Record<ConnectionPhase, PhaseChecker> = { ...registryCheckersRef.current, ...overrides };
+
+        const abortController = new AbortController();
+        const { signal } = abortController;
+
+        abortControllerRef.current = abortController;
+        runningRef.current = true;
+        setIsRunning(true);
+
+        try {
+            for (;;) {
+                const { currentPhase } = useConnectionStore.getState();
+                const isLast = CONNECTION_PHASE_ORDER.indexOf(currentPhase) === CONNECTION_PHASE_ORDER.length - 1;
+
+                const policy: PhasePolicy = { ...getPhaseDefinition(currentPhase).policy, ...policies?.[currentPhase] };
+
+                log.debug(`${componentName}: начало проверки фазы "${currentPhase}".`);
+
+                const reportStatus: PhaseStatusReporter = (status) => {
+                    if (signal.aborted) return;
+
+                    log.debug(`${componentName}: промежуточный статус "${status}" фазы "${currentPhase}".`);
+                    useConnectionStore.getState().setPhaseStatus(currentPhase, status);
+                };
+
+                const startedAt = performance.now();
+                let outcome: PhaseAttemptOutcome = 'fail';
+                let reason: WalletErrorReason | undefined;
+
+                for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+                    if (attempt > 0) {
+                        const delay = policy.backoffMs * 2 ** (attempt - 1);
+                        log.debug(
+                            `${componentName}: фаза "${currentPhase}" — исход "${outcome}"${reason ? ` (${reason})` : ''}, повтор ${attempt}/${policy.maxRetries} через ${delay} мс.`,
+                        );
+
+                        await sleep(delay);
+                        if (signal.aborted) break;
+
+                        // Промежуточный статус предыдущей попытки (например, switching) сбрасываем
+                        useConnectionStore.getState().setPhaseStatus(currentPhase, PhaseStatuses.IN_PROGRESS);
+                    }
+
+                    ({ outcome, reason } = await runPhaseAttempt(checkers[currentPhase], policy.timeoutMs, signal, reportStatus));
+
+                    if (outcome === 'success' || signal.aborted) break;
+
+                    // Отказ пользователя не повторяем: повтор снова открыл бы окно кошелька
+                    if (reason && NON_RETRYABLE_REASONS.includes(reason)) {
+                        log.debug(`${componentName}: фаза "${currentPhase}" — причина "${reason}", повторы пропущены.`);
+                        break;
+                    }
+                }
+
+                // Выдерживаем минимальную длительность фазы
+                const waitTime = Math.max(minStageTime - (performance.now() - startedAt), 0);
+                await sleep(waitTime);
+
+                // После отмены результат проверки не применяется: статус cancelled уже зафиксирован
+                if (signal.aborted) {
+                    log.debug(`${componentName}: процесс отменён на фазе "${currentPhase}", результат проверки игнорируется.`);
+                    return false;
+                }
+
+                if (outcome === 'timeout') {
+                    log.debug(`${componentName}: фаза "${currentPhase}" — время ожидания истекло (${policy.timeoutMs} мс).`);
+                    useConnectionStore.getState().goTimeout();
+                    return false;
+                }
+
+                if (outcome === 'fail') {
+                    log.debug(`${componentName}: фаза "${currentPhase}" завершилась с ошибкой (${reason ?? WalletErrorReasons.UNKNOWN}).`);
+                    useConnectionStore.getState().goFail(reason);
+                    return false;
+                }
+
+                useConnectionStore.getState().goOn();
+
+                if (isLast) {
+                    log.debug(`${componentName}: все фазы успешно завершены.`);
+                    return true;
+                }
+            }
+        } finally {
+            if (abortControllerRef.current === abortController) {
+                abortControllerRef.current = null;
+            }
+            runningRef.current = false;
+            setIsRunning(false);
+        }
+    }, [overrides, policies, minStageTime]);
+
+    const start = useCallback((): Promise<boolean> => run(() => {
+        const store = useConnectionStore.getState();
+        if (store.firstTimeConnection) {
+            store.firstStart();
+        } else {
+            store.reStart();
+        }
+        return true;
+    }), [run]);
+
+    const retry = useCallback((): Promise<boolean> => run(() => {
+        const retried = useConnectionStore.getState().retryFromCurrent();
+        if (!retried) {
+            log.debug(`${componentName}: повторять нечего — текущая фаза не завершилась неудачей.`);
+        }
+        return retried;
+    }), [run]);
+
+    const cancel = useCallback((): void => {
+        const abortController = abortControllerRef.current;
+
+        if (!abortController || abortController.signal.aborted) {
+            log.debug(`${componentName}: отменять нечего — процесс подключения не выполняется.`);
+            return;
+        }
+
+        log.debug(`${componentName}: отмена процесса подключения пользователем.`);
+        abortController.abort();
+        useConnectionStore.getState().cancel();
+    }, []);
+
+    return { start, retry, cancel, isRunning };
+};
@@ -0,0 +1,71 @@
+// Хук баланса нативной монеты (BNB) подключённого аккаунта [★★☆☆☆]
+
+import { useCallback, useEffect, useState } from 'react';
+
+import log from '@/log';
+import { getNativeBalance } from '@/services/walletBalance';
+import { selectActiveProvider, useWalletProvidersStore } from '@/stores/useWalletProvidersStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+
+/**
+ * @description Результат работы хука
+ *
+ * @property {bigint | null} balance - Баланс в wei (null — ещё не получен или получить не удалось)
+ * @property {boolean}       loading - Идёт запрос баланса
+ * @property {Function}      refresh - Повторный запрос баланса
+ */
+export interface NativeBalance {
+    balance: bigint | null;
+    loading: boolean;
+    refresh: () => void;
+}
+
+/**
+
+ Хук useNativeBalance
+
+ Запрашивает баланс подключённого аккаунта (useWalletStore.account) у выбранного провайдера кошелька
+ и повторяет запрос при смене аккаунта или сети. Ответ, пришедший после смены аккаунта или сети, отбрасывается.
+
+ @returns {NativeBalance} баланс, признак загрузки и функция повторного запроса
+ */
+export const useNativeBalance = (): NativeBalance => {
+    const provider = useWalletProvidersStore(selectActiveProvider);
+    const account = useWalletStore((state) => state.account);
+    const chainId = useWalletStore((state) => state.chainId);
+
+    const [balance, setBalance] = useState<bigint | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [version, setVersion] = useState(0);
+
+    useEffect(() => {
+        setBalance(null);
+
+        if (!provider || !account) {
+            setLoading(false);
+            return;
+        }
+
+        let isActual = true;
+        setLoading(true);
+
+        getNativeBalance(provider, account)
+            .then((value) => {
+                if (isActual) setBalance(value);
+            })
+            .catch((error) => {
+                log.warn(`useNativeBalance: не удалось получить баланс ${account} (chainId = ${chainId}).`, error);
+            })
+            .finally(() => {
+                if (isActual) setLoading(false);
+            });
+
+        return () => {
+            isActual = false;
+        };
+    }, [provider, account, chainId, version]);
+
+    const refresh = useCallback(() => setVersion((value) => value + 1), []);
+
+    return { balance, loading, refresh };
+};
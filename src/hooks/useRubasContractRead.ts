@@ -0,0 +1,164 @@
+// Хук чтения данных контракта RUBAS (view/pure-функции) с проверкой готовности подключения [★★★☆☆]
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    type ContractFunctionArgs,
+    type ContractFunctionName,
+    type ContractFunctionReturnType,
+    stringify,
+} from 'viem';
+import { readContract, type ReadContractParameters } from 'wagmi/actions';
+
+import { type RubasContractAbi, type RubasContractId } from '@/constants/contracts';
+import log from '@/log';
+import {
+    type ContractAccessError,
+    resolveRubasContract,
+    type RubasContractConfig,
+} from '@/services/contractRegistry';
+import { classifyWalletError, type WalletError } from '@/services/walletError';
+import { selectIsConnectionComplete, useConnectionStore } from '@/stores/useConnectionStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+import { wagmiConfig } from '@/wagmi';
+
+type ReadMutability = 'pure' | 'view';
+
+/**
+ * @description Параметры чтения
+ *
+ * @property {RubasContractId} contract     - Контракт из реестра RUBAS
+ * @property {string}          functionName - Имя view/pure-функции (выводится из ABI)
+ * @property {Array}           [args]       - Аргументы функции (типы выводятся из ABI)
+ * @property {boolean}         [enabled]    - Выполнять ли чтение (по умолчанию true)
+ */
+export interface RubasContractReadOptions<
+    TContract extends RubasContractId,
+    TFunction extends ContractFunctionName<RubasContractAbi<TContract>, ReadMutability>,
+    TArgs extends ContractFunctionArgs<RubasContractAbi<TContract>, ReadMutability, TFunction>,
+> {
+    contract: TContract;
+    functionName: TFunction;
+    args?: TArgs;
+    enabled?: boolean;
+}
+
+/**
+ * @description Результат работы хука
+ *
+ * @property {TData | undefined}                        data    - Результат чтения (undefined — ещё не получен)
+ * @property {ContractAccessError | WalletError | null} error   - Причина, по которой чтение не выполнено
+ * @property {boolean}                                  loading - Идёт чтение
+ * @property {Function}                                 refresh - Повторное чтение
+ */
+export interface RubasContractRead<TData> {
+    data: TData | undefined;
+    error: ContractAccessError | WalletError | null;
+    loading: boolean;
+    refresh: () => void;
+}
+
+/**
+
+ Хук useRubasContractRead
+
+ Вызывает view/pure-функцию контракта RUBAS в целевой сети (действие wagmi readContract). Имя функции, аргументы
+ и тип результата выводятся из ABI реестра контрактов. Запрос не отправляется, пока процесс подключения
+ не завершён, кошелёк не в целевой сети или адрес контракта для сети не задан (ContractAccessError).
+ Чтение повторяется при смене аккаунта, сети кошелька, целевой сети или аргументов; устаревший ответ отбрасывается.
+ Результаты и ошибки логируются.
+
+ @example
+   const { data: balance } = useRubasContractRead({
+       contract: RubasContracts.TOKEN,
+       functionName: 'balanceOf',
+       args: [account],
+   });
+
+ @returns {RubasContractRead} результат чтения, ошибка, признак загрузки и функция повторного чтения
+ */
+export const useRubasContractRead = <
+    TContract extends RubasContractId,
+    TFunction extends ContractFunctionName<RubasContractAbi<TContract>, ReadMutability>,
+    const TArgs extends ContractFunctionArgs<RubasContractAbi<TContract>, ReadMutability, TFunction>,
+>({
+    contract,
+    functionName,
+    args,
+    enabled = true,
+}: RubasContractReadOptions<TContract, TFunction, TArgs>): RubasContractRead<
+    ContractFunctionReturnType<RubasContractAbi<TContract>, ReadMutability, TFunction, TArgs>
+> => {
+    type TData = ContractFunctionReturnType<RubasContractAbi<TContract>, ReadMutability, TFunction, TArgs>;
+
+    // Состояние, при изменении которого чтение выполняется заново
+    const isConnectionComplete = useConnectionStore(selectIsConnectionComplete);
+    const account = useWalletStore((state) => state.account);
+    const chainId = useWalletStore((state) => state.chainId);
+    const networkId = useSettingsStore((state) => state.networkId);
+
+    const [data, setData] = useState<TData | undefined>(undefined);
+    const [error, setError] = useState<ContractAccessError | WalletError | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [version, setVersion] = useState(0);
+
+    // Аргументы сравниваются по значению (массив аргументов создаётся заново при каждом рендере)
+    const argsKey = stringify(args ?? []);
+    const argsRef = useRef(args);
+    argsRef.current = args;
+
+    useEffect(() => {
+        if (!enabled) {
+            setLoading(false);
+            return;
+        }
+
+        const call = `${contract}.${functionName}(${argsKey})`;
+        let target: RubasContractConfig<TContract>;
+
+        try {
+            target = resolveRubasContract(contract);
+        } catch (accessError) {
+            log.debug(`useRubasContractRead: ${call} не выполняется — ${(accessError as Error).message}`);
+            setData(undefined);
+            setError(accessError as ContractAccessError);
+            setLoading(false);
+            return;
+        }
+
+        let isActual = true;
+        setLoading(true);
+
+        readContract(wagmiConfig, {
+            address: target.address,
+            abi: target.abi,
+            chainId: target.chainId,
+            functionName,
+            args: argsRef.current,
+        } as ReadContractParameters)
+            .then((value) => {
+                if (!isActual) return;
+                log.debug(`useRubasContractRead: ${call} в сети ${target.chainId} →`, value);
+                setData(value as TData);
+                setError(null);
+            })
+            .catch((readError) => {
+                if (!isActual) return;
+                const walletError = classifyWalletError(readError);
+                log.warn(`useRubasContractRead: ${call} в сети ${target.chainId} не выполнено (${walletError.reason}).`, readError);
+                setData(undefined);
+                setError(walletError);
+            })
+            .finally(() => {
+                if (isActual) setLoading(false);
+            });
+
+        return () => {
+            isActual = false;
+        };
+    }, [contract, functionName, argsKey, enabled, isConnectionComplete, account, chainId, networkId, version]);
+
+    const refresh = useCallback(() => setVersion((value) => value + 1), []);
+
+    return { data, error, loading, refresh };
+};
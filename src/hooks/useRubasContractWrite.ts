@@ -0,0 +1,113 @@
+// Хук отправки транзакции в контракт RUBAS с проверкой готовности подключения [★★★☆☆]
+
+import { useCallback, useState } from 'react';
+import { type ContractFunctionArgs, type ContractFunctionName, type Hash } from 'viem';
+
+import { type RubasContractAbi, type RubasContractId } from '@/constants/contracts';
+import { ContractAccessError } from '@/services/contractRegistry';
+import { sendRubasContractWrite } from '@/services/contractWrite';
+import { classifyWalletError, type WalletError } from '@/services/walletError';
+
+type WriteMutability = 'nonpayable' | 'payable';
+
+/**
+ * @description Параметры хука
+ *
+ * @property {RubasContractId} contract     - Контракт из реестра RUBAS
+ * @property {string}          functionName - Имя функции, изменяющей состояние (выводится из ABI)
+ */
+export interface RubasContractWriteOptions<
+    TContract extends RubasContractId,
+    TFunction extends ContractFunctionName<RubasContractAbi<TContract>, WriteMutability>,
+> {
+    contract: TContract;
+    functionName: TFunction;
+}
+
+/**
+ * @description Результат работы хука
+ *
+ * @property {Function}                                 write   - Отправка транзакции с аргументами (типы выводятся из ABI);
+ *                                                                возвращает хеш транзакции или null, если она не отправлена
+ * @property {Hash | null}                              hash    - Хеш последней отправленной транзакции
+ * @property {ContractAccessError | WalletError | null} error   - Причина, по которой транзакция не отправлена
+ * @property {boolean}                                  loading - Транзакция проверяется или ожидает подтверждения
+ * @property {Function}                                 reset   - Сброс хеша и ошибки
+ */
+export interface RubasContractWrite<TArgs> {
+    write: (args: TArgs, options?: { value?: bigint }) => Promise<Hash | null>;
+    hash: Hash | null;
+    error: ContractAccessError | WalletError | null;
+    loading: boolean;
+    reset: () => void;
+}
+
+/**
+
+ Хук useRubasContractWrite
+
+ Отправляет транзакцию в контракт RUBAS в целевой сети от подключённого аккаунта через MetaMask
+ (действие wagmi writeContract). Имя функции и типы аргументов выводятся из ABI реестра контрактов.
+ Перед подписью вызов симулируется (eth_call) и показывается в окне проверки (TransactionReviewModal):
+ разобранный вызов, причина отклонения, если симуляция не прошла, оценка газа и комиссии, баланс.
+ Если пользователь отклонил транзакцию в окне проверки, она не отправляется (ошибка userRejected, как и при отказе
+ в кошельке). Если пользователь отправил транзакцию несмотря на неудачную симуляцию, причина сохраняется вместе
+ с транзакцией.
+ Транзакция не отправляется, пока процесс подключения не завершён, кошелёк не в целевой сети
+ или адрес контракта для сети не задан (ContractAccessError). Ошибки кошелька классифицируются
+ по коду (classifyWalletError). Отправленная транзакция добавляется в useTransactionStore,
+ откуда её отслеживает до подтверждения хук useTransactionTracking. Сама отправка выполняется сервисом
+ sendRubasContractWrite; хук хранит её результат, ошибку и признак ожидания. Результаты и ошибки логируются.
+
+ @example
+   const { write, loading } = useRubasContractWrite({ contract: RubasContracts.TOKEN, functionName: 'transfer' });
+   const hash = await write([recipient, amount]);
+
+ @returns {RubasContractWrite} функция отправки, хеш транзакции, ошибка, признак ожидания и функция сброса
+ */
+export const useRubasContractWrite = <
+    TContract extends RubasContractId,
+    TFunction extends ContractFunctionName<RubasContractAbi<TContract>, WriteMutability>,
+>({
+    contract,
+    functionName,
+}: RubasContractWriteOptions<TContract, TFunction>): RubasContractWrite<
+    ContractFunctionArgs<RubasContractAbi<TContract>, WriteMutability, TFunction>
+> => {
+    const [hash, setHash] = useState<Hash | null>(null);
+    const [error, setError] = useState<ContractAccessError | WalletError | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const write = useCallback(async (
+        args: ContractFunctionArgs<RubasContractAbi<TContract>, WriteMutability, TFunction>,
+        options: { value?: bigint } = {},
+    ): Promise<Hash | null> => {
+        setHash(null);
+        setError(null);
+        setLoading(true);
+
+        try {
+            const txHash = await sendRubasContractWrite({
+                contract,
+                functionName,
+                args: args as readonly unknown[],
+                value: options.value,
+            });
+
+            setHash(txHash);
+            return txHash;
+        } catch (writeError) {
+            setError(writeError instanceof ContractAccessError ? writeError : classifyWalletError(writeError));
+            return null;
+        } finally {
+            setLoading(false);
+        }
+    }, [contract, functionName]);
+
+    const reset = useCallback(() => {
+        setHash(null);
+        setError(null);
+    }, []);
+
+    return { write, hash, error, loading, reset };
+};
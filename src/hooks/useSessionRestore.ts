@@ -0,0 +1,120 @@
+// Хук тихого восстановления подключения после перезагрузки страницы [★★★☆☆]
+
+import { useEffect, useState } from 'react';
+import { getAccount, reconnect } from 'wagmi/actions';
+
+import { CONNECTION_RESET_TIMEOUT_MINUTES, SIWE_ENABLED } from '@/constants/connection';
+import log from '@/log';
+import { findMetaMaskProvider } from '@/services/eip6963ProviderDiscovery';
+import { useConnectionStore } from '@/stores/useConnectionStore';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+import { selectValidSession, useSiweSessionStore } from '@/stores/useSiweSessionStore';
+import { selectActiveWalletId, useWalletProvidersStore } from '@/stores/useWalletProvidersStore';
+import { selectPreferredAccount, useWalletStore } from '@/stores/useWalletStore';
+import { getMetaMaskConnector, wagmiConfig } from '@/wagmi';
+
+/**
+ Состояние восстановления:
+ • idle: восстановление ещё не начиналось
+ • restoring: идёт тихая проверка кошелька
+ • restored: подключение восстановлено без участия пользователя
+ • skipped: восстанавливать нечего (подключения не было или оно устарело)
+ • failed: проверка не прошла — используется обычный процесс подключения
+ */
+export type SessionRestoreStatus = 'idle' | 'restoring' | 'restored' | 'skipped' | 'failed';
+
+// Восстановление выполняется один раз за загрузку страницы (в т.ч. при двойном монтировании в StrictMode)
+let restorePromise: Promise<SessionRestoreStatus> | null = null;
+
+// Тихая проверка кошелька: только запросы, не открывающие окно MetaMask (reconnect в wagmi использует eth_accounts)
+const restoreSession = async (): Promise<SessionRestoreStatus> => {
+    const { lastSuccessfulConnection } = useConnectionStore.getState();
+    const diffMinutes = lastSuccessfulConnection ? (Date.now() - lastSuccessfulConnection) / 1000 / 60 : Infinity;
+
+    if (diffMinutes > CONNECTION_RESET_TIMEOUT_MINUTES) {
+        log.debug('useSessionRestore: последнее подключение отсутствует или устарело, восстановление не требуется.');
+        return 'skipped';
+    }
+
+    try {
+        const metaMask = await findMetaMaskProvider();
+
+        if (!metaMask) {
+            log.debug('useSessionRestore: MetaMask не обнаружен.');
+            return 'failed';
+        }
+
+        await reconnect(wagmiConfig, { connectors: [getMetaMaskConnector()] });
+
+        const { addresses = [], chainId } = getAccount(wagmiConfig);
+        const accounts = [...addresses];
+        const walletId = selectActiveWalletId(useWalletProvidersStore.getState());
+        const account = selectPreferredAccount(useWalletStore.getState(), walletId, accounts) ?? accounts[0];
+
+        if (!account) {
+            log.debug('useSessionRestore: сайт больше не авторизован в MetaMask или кошелёк заблокирован.');
+            return 'failed';
+        }
+
+        if (chainId !== selectTargetNetwork(useSettingsStore.getState()).chainId) {
+            log.debug(`useSessionRestore: кошелёк в сети ${chainId}, переключение требует участия пользователя.`);
+            return 'failed';
+        }
+
+        if (SIWE_ENABLED && !selectValidSession(useSiweSessionStore.getState(), account, chainId)) {
+            log.debug('useSessionRestore: нет действующей сессии Sign-In with Ethereum, нужна новая подпись.');
+            return 'failed';
+        }
+
+        useWalletStore.getState().setState({
+            isMetaMaskAvailable: true,
+            isMetaMaskUnlocked: true,
+            isConnected: true,
+            isCorrectNetwork: true,
+            account,
+            accounts,
+            chainId,
+        });
+        useConnectionStore.getState().restore();
+
+        log.debug(`useSessionRestore: подключение восстановлено (${account}).`);
+        return 'restored';
+    } catch (error) {
+        log.error('useSessionRestore: ошибка при восстановлении подключения:', error);
+        return 'failed';
+    }
+};
+
+/**
+
+ Хук useSessionRestore
+
+ При загрузке страницы проверяет lastSuccessfulConnection из useConnectionStore. Если последнее успешное
+ подключение было не раньше CONNECTION_RESET_TIMEOUT_MINUTES назад, без всплывающих окон восстанавливает
+ подключение wagmi (reconnect) и проверяет аккаунт и сеть. При успехе заполняет useWalletStore
+ и отмечает все фазы в useConnectionStore как пройденные, иначе оставляет обычный процесс подключения.
+
+ Монтируется один раз (в AppShell).
+
+ @returns {SessionRestoreStatus} текущее состояние восстановления
+ */
+export const useSessionRestore = (): SessionRestoreStatus => {
+    const [status, setStatus] = useState<SessionRestoreStatus>('idle');
+
+    useEffect(() => {
+        let isMounted = true;
+
+        setStatus('restoring');
+        restorePromise ??= restoreSession();
+
+        void restorePromise.then((result) => {
+            if (isMounted) setStatus(result);
+        });
+
+        return () => {
+            isMounted = false;
+        };
+    }, []);
+
+    return status;
+};
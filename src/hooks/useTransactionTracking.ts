@@ -0,0 +1,53 @@
+// Хук запуска отслеживания всех неподтверждённых транзакций, в том числе после перезагрузки страницы [★★★☆☆]
+
+import { useEffect } from 'react';
+
+import log from '@/log';
+import { trackTransaction } from '@/services/transactionTracker';
+import { selectActiveTransactions, useTransactionStore } from '@/stores/useTransactionStore';
+
+// Отслеживаемые транзакции (по хешу): каждая отслеживается один раз, даже при двойном монтировании в StrictMode
+const trackers = new Map<string, AbortController>();
+
+// Запускает отслеживание транзакций в статусах submitted и pending, которые ещё не отслеживаются
+const startTracking = () => {
+    selectActiveTransactions(useTransactionStore.getState())
+        .filter((transaction) => !trackers.has(transaction.hash))
+        .forEach((transaction) => {
+            const controller = new AbortController();
+            trackers.set(transaction.hash, controller);
+
+            void trackTransaction(transaction, controller.signal).finally(() => {
+                if (trackers.get(transaction.hash) === controller) trackers.delete(transaction.hash);
+            });
+        });
+};
+
+/**
+
+ Хук useTransactionTracking
+
+ Отслеживает транзакции из useTransactionStore до итогового статуса (сервис transactionTracker).
+ При монтировании подхватывает неподтверждённые транзакции, сохранённые до перезагрузки страницы, затем
+ запускает отслеживание каждой новой транзакции. При размонтировании отслеживание прерывается,
+ а транзакции остаются в ожидании до следующего запуска.
+
+ @example
+   useTransactionTracking(); // в AppShell
+ */
+export const useTransactionTracking = (): void => {
+    useEffect(() => {
+        log.debug('useTransactionTracking: запуск отслеживания транзакций.');
+        startTracking();
+
+        const unsubscribe = useTransactionStore.subscribe((state, previous) => {
+            if (state.transactions !== previous.transactions) startTracking();
+        });
+
+        return () => {
+            unsubscribe();
+            trackers.forEach((controller) => controller.abort());
+            trackers.clear();
+        };
+    }, []);
+};
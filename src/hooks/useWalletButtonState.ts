@@ -1,28 +1,79 @@
-import * as React from 'react';
+// Хук состояния кнопки подключения кошелька, вычисляемого по хранилищам кошелька и подключения [★★★☆☆]
 
+import { useEffect } from 'react';
+
+import { type ConnectionPhase, PHASE_ACTIVE_STATUSES } from '@/constants/connectionPhases';
 import log from '@/log';
+import {
+    selectIsConnectionComplete,
+    selectIsConnectionCompleteExceptNetwork,
+    useConnectionStore,
+} from '@/stores/useConnectionStore';
+import { useWalletStore } from '@/stores/useWalletStore';
 
-type WalletButtonState = 'disconnected' | 'connected';
+/**
+ Состояние кнопки:
+ • disconnected: кошелёк не подключён или процесс подключения не завершён (нажатие запускает подключение)
+ • connecting: идёт процесс подключения (отображается текущая фаза)
+ • connected: кошелёк подключён к целевой сети (отображается сокращённый адрес, нажатие отключает)
+ • wrongNetwork: кошелёк подключён, но находится в другой сети (нажатие повторяет подключение)
+ */
+export type WalletButtonState = 'disconnected' | 'connecting' | 'connected' | 'wrongNetwork';
 
-export const useWalletButtonState = () => {
-    const [state, setState] = React.useState<WalletButtonState>('disconnected');
+/**
+ * @description Результат работы хука
+ *
+ * @property {WalletButtonState}      state   - Состояние кнопки
+ * @property {ConnectionPhase | null} phase   - Выполняемая фаза подключения (только для connecting)
+ * @property {string | null}          account - Адрес подключённого аккаунта
+ */
+export interface WalletButtonStateResult {
+    state: WalletButtonState;
+    phase: ConnectionPhase | null;
+    account: string | null;
+}
 
-    const setConnected = (): void => {
-        setState((prev) => {
-            const next = prev === 'disconnected' ? 'connected' : 'disconnected';
-            log.debug(`useWalletButtonState: переключение состояния с "${prev}" на "${next}"`);
-            return next;
-        });
-    };
+/**
 
-    const setDisconnected = (): void => {
-        log.debug('useWalletButtonState: сброс состояния в "disconnected"');
-        setState('disconnected');
-    };
+ Хук useWalletButtonState
+
+ Не хранит собственного состояния: выводит его из useConnectionStore (выполняется ли сейчас какая-либо фаза
+ и пройдены ли все фазы) и useWalletStore (isConnected, account, isCorrectNetwork). Поэтому кнопка показывает
+ настоящий результат подключения, отмены или отключения, а также изменения, пришедшие из кошелька (смена сети
+ или аккаунта). Кошелёк с доступным аккаунтом, но с незавершённым подключением (например, вход с подписью
+ отклонён), считается не подключённым: обращения к контрактам в таком состоянии не выполняются. Фаза сети
+ при этом не учитывается: если после подключения кошелёк перешёл в другую сеть, состояние — wrongNetwork,
+ а connected — только когда пройдены все фазы.
+
+ @returns {WalletButtonStateResult} состояние кнопки, текущая фаза и адрес
+ */
+export const useWalletButtonState = (): WalletButtonStateResult => {
+    const currentPhase = useConnectionStore((state) => state.currentPhase);
+    const isPhaseRunning = useConnectionStore(
+        (state) => PHASE_ACTIVE_STATUSES.includes(state.phaseStatuses[state.currentPhase]),
+    );
+    const isConnectionComplete = useConnectionStore(selectIsConnectionComplete);
+    const isCompleteExceptNetwork = useConnectionStore(selectIsConnectionCompleteExceptNetwork);
+    const isConnected = useWalletStore((state) => state.isConnected);
+    const isCorrectNetwork = useWalletStore((state) => state.isCorrectNetwork);
+    const account = useWalletStore((state) => state.account);
+
+    let state: WalletButtonState = 'disconnected';
+
+    if (isPhaseRunning) {
+        state = 'connecting';
+    } else if (isConnected && account && isCompleteExceptNetwork) {
+        // Смена сети после подключения понижает только фазу сети: кошелёк остаётся подключённым, но в другой сети
+        state = isCorrectNetwork && isConnectionComplete ? 'connected' : 'wrongNetwork';
+    }
+
+    useEffect(() => {
+        log.debug(`useWalletButtonState: состояние "${state}" (фаза "${currentPhase}", аккаунт ${account ?? '—'}).`);
+    }, [state, currentPhase, account]);
 
     return {
         state,
-        setConnected,
-        setDisconnected,
+        phase: state === 'connecting' ? currentPhase : null,
+        account: state === 'disconnected' ? null : account,
     };
-};
\ No newline at end of file
+};
@@ -0,0 +1,123 @@
+// Хук синхронизации хранилищ кошелька и подключения с событиями провайдера EIP-1193 [★★★☆☆]
+
+import { useEffect } from 'react';
+
+import { ConnectionPhases } from '@/constants/connectionPhases';
+import log from '@/log';
+import { downgradePhase, endForeignSiweSession } from '@/services/connectionDowngrade';
+import { getUnlockState } from '@/services/walletPermissions';
+import { subscribeToProviderEvents } from '@/services/walletProviderEvents';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+import {
+    selectActiveProvider,
+    selectActiveWalletId,
+    useWalletProvidersStore,
+} from '@/stores/useWalletProvidersStore';
+import { selectPreferredAccount, useWalletStore } from '@/stores/useWalletStore';
+
+// Аккаунт, с которым продолжает работать приложение: текущий, если он ещё авторизован,
+// иначе предпочитаемый для кошелька, иначе первый из списка
+const pickAccount = (accounts: string[]): string | null => {
+    const { account: current } = useWalletStore.getState();
+    const walletId = selectActiveWalletId(useWalletProvidersStore.getState());
+
+    return accounts.find((account) => account.toLowerCase() === current?.toLowerCase())
+        ?? selectPreferredAccount(useWalletStore.getState(), walletId, accounts)
+        ?? accounts[0]
+        ?? null;
+};
+
+// Сверка сети кошелька с целевой сетью из настроек
+const applyNetworkState = (chainId: number, reason: string): void => {
+    const targetNetwork = selectTargetNetwork(useSettingsStore.getState());
+    const isCorrectNetwork = chainId === targetNetwork.chainId;
+
+    useWalletStore.getState().setState({ chainId, isCorrectNetwork });
+
+    if (!isCorrectNetwork) {
+        downgradePhase(ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK, reason);
+    }
+};
+
+// Применение нового chainId к хранилищам
+const applyChainId = (chainIdHex: string): void => {
+    const chainId = parseInt(chainIdHex, 16);
+    const previous = useWalletStore.getState().chainId;
+
+    log.debug(`useWalletProviderEvents: chainId ${previous} → ${chainId}.`);
+    applyNetworkState(chainId, `сеть сменилась на ${chainId}`);
+};
+
+/**
+
+ Хук useWalletProviderEvents
+
+ Подписывается на события выбранного провайдера (accountsChanged, chainChanged, connect, disconnect)
+ и поддерживает useWalletStore (account, accounts, chainId, isCorrectNetwork, isConnected) в актуальном состоянии.
+ Если авторизовано несколько аккаунтов, выбранный пользователем аккаунт сохраняется, пока он остаётся в списке.
+ Если сеть или аккаунт становятся недействительными, соответствующая фаза в useConnectionStore
+ переводится из success в fail. Сеть сверяется и при смене целевой сети в настройках. При смене аккаунта сессия Sign-In with Ethereum другого адреса завершается.
+ Каждое изменение логируется.
+
+ Монтируется один раз (в AppShell).
+
+ @returns void
+ */
+export const useWalletProviderEvents = (): void => {
+    const provider = useWalletProvidersStore(selectActiveProvider);
+    const targetChainId = useSettingsStore((state) => selectTargetNetwork(state).chainId);
+
+    useEffect(() => {
+        const { chainId } = useWalletStore.getState();
+        if (chainId === null) return;
+
+        log.debug(`useWalletProviderEvents: целевая сеть ${targetChainId}, кошелёк в сети ${chainId}.`);
+        applyNetworkState(chainId, `целевая сеть сменилась на ${targetChainId}`);
+    }, [targetChainId]);
+
+    useEffect(() => {
+        if (!provider) return;
+
+        return subscribeToProviderEvents(provider, {
+            onAccountsChanged: (accounts) => {
+                const account = pickAccount(accounts);
+                const previous = useWalletStore.getState().account;
+
+                log.debug(`useWalletProviderEvents: аккаунт ${previous} → ${account}.`);
+                endForeignSiweSession(account);
+
+                if (!account) {
+                    useWalletStore.getState().setState({ account: null, accounts: [], isConnected: false });
+                    downgradePhase(ConnectionPhases.CHECK_IF_AUTHORIZED, 'доступ к аккаунтам утрачен');
+                    downgradePhase(ConnectionPhases.CHECK_OUT_ACCOUNT, 'доступ к аккаунтам утрачен');
+
+                    // Пустой список аккаунтов MetaMask присылает и при блокировке кошелька
+                    void getUnlockState(provider).then((isUnlocked) => {
+                        if (isUnlocked !== false) return;
+
+                        useWalletStore.getState().setState({ isMetaMaskUnlocked: false });
+                        downgradePhase(ConnectionPhases.CHECK_IF_UNLOCKED, 'кошелёк заблокирован');
+                    }).catch((error) => {
+                        log.debug('useWalletProviderEvents: не удалось проверить блокировку кошелька:', error);
+                    });
+                    return;
+                }
+
+                useWalletStore.getState().setState({ account, accounts });
+            },
+
+            onChainChanged: applyChainId,
+
+            onConnect: ({ chainId }) => {
+                log.debug(`useWalletProviderEvents: провайдер подключён (chainId = ${chainId}).`);
+                applyChainId(chainId);
+            },
+
+            onDisconnect: (error) => {
+                log.warn(`useWalletProviderEvents: провайдер отключён (${error?.code}: ${error?.message}).`);
+                useWalletStore.getState().setState({ isConnected: false, chainId: null, isCorrectNetwork: false });
+                downgradePhase(ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK, 'провайдер отключён от сети');
+            },
+        });
+    }, [provider]);
+};
@@ -3,13 +3,25 @@
 import './index.css';
 import './i18n';
 
+import { QueryClientProvider } from '@tanstack/react-query';
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
+import { WagmiProvider } from 'wagmi';
 
 import App from './App.tsx';
+import { startProviderDiscovery } from './services/eip6963ProviderDiscovery';
+import { queryClient, wagmiConfig } from './wagmi';
+
+// Начинаем слушать объявления кошельков (EIP-6963) до первого рендера
+startProviderDiscovery();
 
 createRoot(document.getElementById('root')!).render(
     <StrictMode>
-        <App />
+        {/* Восстановление подключения выполняет useSessionRestore (с учётом lastSuccessfulConnection) */}
+        <WagmiProvider config={wagmiConfig} reconnectOnMount={false}>
+            <QueryClientProvider client={queryClient}>
+                <App />
+            </QueryClientProvider>
+        </WagmiProvider>
     </StrictMode>,
 );
\ No newline at end of file
@@ -0,0 +1,430 @@
+// Сценарный mock-провайдер EIP-1193 (MetaMask) для Storybook и vitest [★★★☆☆]
+
+/**
+ * @fileoverview Имитация расширения MetaMask без установленного кошелька
+ *
+ * Провайдер ведёт себя по заданному сценарию (не установлен, заблокирован, отказ пользователя, неверная сеть,
+ * успешное переключение сети, уже ожидающий запрос, медленные ответы), отвечает с настраиваемой задержкой,
+ * рассылает события accountsChanged / chainChanged и записывает каждый полученный запрос.
+ * Подписи (personal_sign) настоящие: их делает локальный аккаунт viem, поэтому они проходят проверку SIWE.
+ *
+ * installMockEthereumProvider устанавливает провайдер как window.ethereum и объявляет его по EIP-6963,
+ * так что сервис eip6963ProviderDiscovery и коннектор wagmi работают с ним как с настоящим MetaMask.
+ *
+ * @module mockEthereumProvider
+ * @category Mocks
+ * @example
+ *   const provider = installMockEthereumProvider({ scenario: MockProviderScenarios.WRONG_CHAIN, delayMs: 100 });
+ *   // ... подключение ...
+ *   expect(provider?.requests.map(({ method }) => method)).toContain('wallet_switchEthereumChain');
+ *   uninstallMockEthereumProvider();
+ */
+
+import { type Address, type Hex, hexToNumber, numberToHex } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+
+import { METAMASK_RDNS } from '@/constants/connection';
+import log from '@/log';
+import {
+    type EIP1193EventListener,
+    type EIP1193Provider,
+    type EIP1193RequestArguments,
+    type EIP6963ProviderDetail,
+} from '@/services/eip6963ProviderDiscovery';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+
+/**
+ Сценарии поведения кошелька:
+ • connected: кошелёк разблокирован, целевая сеть из настроек, все запросы подтверждаются
+ • notInstalled: расширение не установлено (провайдер не объявляется)
+ • locked: кошелёк заблокирован (_metamask.isUnlocked = false), запросы доступа к аккаунтам ждут вызова unlock()
+ • userRejects: пользователь отклоняет доступ к аккаунтам, переключение сети и подпись (4001)
+ • wrongChain: кошелёк в Ethereum Mainnet, переключение на целевую сеть отклоняется (4001)
+ • chainSwitchSucceeds: кошелёк в Ethereum Mainnet, целевая сеть не добавлена (4902) — добавляется и выбирается
+ • requestPending: в кошельке уже открыт запрос доступа к аккаунтам (-32002)
+ • slowResponses: всё подтверждается, но каждый ответ приходит с большой задержкой
+ */
+export const MockProviderScenarios = {
+    CONNECTED: 'connected',
+    NOT_INSTALLED: 'notInstalled',
+    LOCKED: 'locked',
+    USER_REJECTS: 'userRejects',
+    WRONG_CHAIN: 'wrongChain',
+    CHAIN_SWITCH_SUCCEEDS: 'chainSwitchSucceeds',
+    REQUEST_PENDING: 'requestPending',
+    SLOW_RESPONSES: 'slowResponses',
+} as const;
+
+export type MockProviderScenario = typeof MockProviderScenarios[keyof typeof MockProviderScenarios];
+
+// Задержка ответов в сценарии slowResponses, мс
+export const MOCK_SLOW_RESPONSE_DELAY_MS = 4_000;
+
+// Сеть, в которой находится кошелёк в сценариях с неверной сетью (Ethereum Mainnet)
+const MAINNET_CHAIN_HEX = '0x1';
+
+/**
+ * @description Параметры mock-провайдера
+ *
+ * @property {MockProviderScenario} [scenario]   - Сценарий поведения (по умолчанию connected)
+ * @property {number}               [delayMs]    - Задержка каждого ответа, мс (по умолчанию 0, для slowResponses — MOCK_SLOW_RESPONSE_DELAY_MS)
+ * @property {Hex}                  [privateKey] - Ключ аккаунта кошелька (по умолчанию генерируется случайный)
+ * @property {boolean}              [authorized] - Сайт уже авторизован: eth_accounts сразу возвращает аккаунт
+ * @property {bigint}               [balance]    - Баланс аккаунта в нативной монете, wei (по умолчанию 0)
+ * @property {number}               [accountsCount] - Количество аккаунтов, открываемых сайту (по умолчанию 1; остальные со случайными ключами)
+ */
+export interface MockProviderOptions {
+    scenario?: MockProviderScenario;
+    delayMs?: number;
+    privateKey?: Hex;
+    authorized?: boolean;
+    balance?: bigint;
+    accountsCount?: number;
+}
+
+/**
+ * @description Запись о запросе к провайдеру
+ *
+ * @property {string}  method    - Метод JSON-RPC
+ * @property {unknown} params    - Параметры запроса
+ * @property {number}  timestamp - Время получения запроса (мс)
+ * @property {string}  outcome   - pending (ответа ещё нет), resolved или rejected
+ * @property {unknown} [result]  - Результат (для resolved)
+ * @property {unknown} [error]   - Ошибка (для rejected)
+ */
+export interface MockRequestRecord {
+    method: string;
+    params: EIP1193RequestArguments['params'];
+    timestamp: number;
+    outcome: 'pending' | 'resolved' | 'rejected';
+    result?: unknown;
+    error?: unknown;
+}
+
+/**
+ * @description Mock-провайдер и средства управления им из историй и тестов
+ */
+export interface MockEthereumProvider extends Required<EIP1193Provider> {
+    readonly scenario: MockProviderScenario;
+    readonly address: Address;
+    readonly requests: readonly MockRequestRecord[];
+
+    /**
+     * Изменяет задержку последующих ответов
+     */
+    setDelay: (delayMs: number) => void;
+
+    /**
+     * Разблокирует кошелёк (сценарий locked): ожидающие запросы доступа к аккаунтам получают ответ
+     */
+    unlock: () => void;
+
+    /**
+     * Меняет набор аккаунтов и рассылает accountsChanged
+     */
+    setAccounts: (accounts: Address[]) => void;
+
+    /**
+     * Меняет сеть и рассылает chainChanged
+     */
+    setChainId: (chainId: Hex) => void;
+
+    /**
+     * Рассылает произвольное событие EIP-1193 подписчикам
+     */
+    emit: (event: string, ...args: unknown[]) => void;
+
+    /**
+     * Очищает журнал запросов
+     */
+    clearRequests: () => void;
+}
+
+/**
+ * @description Ошибка JSON-RPC провайдера (EIP-1193: code и message)
+ */
+export class MockProviderRpcError extends Error {
+    readonly code: number;
+
+    constructor(code: number, message: string) {
+        super(message);
+        this.name = 'ProviderRpcError';
+        this.code = code;
+    }
+}
+
+const userRejected = () => new MockProviderRpcError(4001, 'User rejected the request.');
+
+/**
+ * Создаёт mock-провайдер EIP-1193 с заданным сценарием (без установки в window)
+ * @param {MockProviderOptions} [options] - параметры провайдера
+ * @returns {MockEthereumProvider} провайдер
+ */
+export const createMockEthereumProvider = ({
+    scenario = MockProviderScenarios.CONNECTED,
+    delayMs = scenario === MockProviderScenarios.SLOW_RESPONSES ? MOCK_SLOW_RESPONSE_DELAY_MS : 0,
+    privateKey = generatePrivateKey(),
+    authorized = false,
+    balance = 0n,
+    accountsCount = 1,
+}: MockProviderOptions = {}): MockEthereumProvider => {
+    const account = privateKeyToAccount(privateKey);
+    const localAccounts = [
+        account,
+        ...Array.from({ length: Math.max(accountsCount - 1, 0) }, () => privateKeyToAccount(generatePrivateKey())),
+    ];
+    const listeners = new Map<string, Set<EIP1193EventListener>>();
+    const requests: MockRequestRecord[] = [];
+    const pendingUnlocks: Array<() => void> = [];
+
+    const isOnMainnet = scenario === MockProviderScenarios.WRONG_CHAIN
+        || scenario === MockProviderScenarios.CHAIN_SWITCH_SUCCEEDS;
+
+    let delay = delayMs;
+    let isUnlocked = scenario !== MockProviderScenarios.LOCKED;
+    let isAuthorized = authorized && isUnlocked;
+    let accounts: Address[] = localAccounts.map(({ address }) => address);
+    // Целевая сеть на момент создания провайдера (выбирается в настройках приложения)
+    const targetChainHex = selectTargetNetwork(useSettingsStore.getState()).chainHex;
+
+    let chainId: Hex = isOnMainnet ? MAINNET_CHAIN_HEX : targetChainHex;
+    const knownChains = new Set<Hex>(
+        scenario === MockProviderScenarios.CHAIN_SWITCH_SUCCEEDS ? [MAINNET_CHAIN_HEX] : [MAINNET_CHAIN_HEX, targetChainHex],
+    );
+
+    const emit = (event: string, ...args: unknown[]): void => {
+        log.debug(`mockEthereumProvider: событие ${event}`, ...args);
+        listeners.get(event)?.forEach((listener) => listener(...args));
+    };
+
+    const setChainId = (nextChainId: Hex): void => {
+        if (nextChainId === chainId) return;
+        chainId = nextChainId;
+        emit('chainChanged', chainId);
+    };
+
+    const setAccounts = (nextAccounts: Address[]): void => {
+        accounts = nextAccounts;
+        emit('accountsChanged', isAuthorized ? accounts : []);
+    };
+
+    // Запрос доступа к аккаунтам (eth_requestAccounts / wallet_requestPermissions): окно MetaMask
+    const requestAccounts = (): Promise<Address[]> => {
+        if (isAuthorized && isUnlocked) return Promise.resolve(accounts);
+
+        switch (scenario) {
+            case MockProviderScenarios.USER_REJECTS:
+                throw userRejected();
+            case MockProviderScenarios.REQUEST_PENDING:
+                throw new MockProviderRpcError(
+                    -32002,
+                    `Request of type 'wallet_requestPermissions' already pending for origin ${window.location.origin}. Please wait.`,
+                );
+        }
+
+        const authorize = (): Address[] => {
+            if (!isAuthorized) {
+                isAuthorized = true;
+                emit('accountsChanged', accounts);
+            }
+            return accounts;
+        };
+
+        if (isUnlocked) return Promise.resolve(authorize());
+
+        // Заблокированный кошелёк: запрос ждёт, пока пользователь введёт пароль (unlock)
+        return new Promise((resolve) => {
+            pendingUnlocks.push(() => resolve(authorize()));
+        });
+    };
+
+    const switchChain = (targetChainId: Hex): null => {
+        if (scenario === MockProviderScenarios.WRONG_CHAIN || scenario === MockProviderScenarios.USER_REJECTS) {
+            throw userRejected();
+        }
+
+        if (!knownChains.has(targetChainId)) {
+            throw new MockProviderRpcError(4902, `Unrecognized chain ID "${targetChainId}".`);
+        }
+
+        setChainId(targetChainId);
+        return null;
+    };
+
+    const personalSign = async ([message, address]: readonly unknown[]): Promise<Hex> => {
+        if (scenario === MockProviderScenarios.USER_REJECTS) throw userRejected();
+
+        const signer = localAccounts.find((local) => local.address.toLowerCase() === String(address).toLowerCase());
+
+        if (!isAuthorized || !signer || !accounts.includes(signer.address)) {
+            throw new MockProviderRpcError(4100, 'The requested account has not been authorized by the user.');
+        }
+
+        return signer.signMessage({ message: { raw: message as Hex } });
+    };
+
+    const handleRequest = async ({ method, params = [] }: EIP1193RequestArguments): Promise<unknown> => {
+        const list = Array.isArray(params) ? params : [];
+
+        switch (method) {
+            case 'eth_accounts':
+                return isAuthorized && isUnlocked ? accounts : [];
+            case 'eth_requestAccounts':
+                return requestAccounts();
+            case 'wallet_getPermissions':
+                return isAuthorized ? [{ parentCapability: 'eth_accounts', invoker: window.location.origin }] : [];
+            case 'wallet_requestPermissions':
+                await requestAccounts();
+                return [{ parentCapability: 'eth_accounts', invoker: window.location.origin }];
+            case 'wallet_revokePermissions':
+                if (isAuthorized) {
+                    isAuthorized = false;
+                    emit('accountsChanged', []);
+                }
+                return null;
+            case 'eth_chainId':
+                return chainId;
+            case 'eth_getBalance':
+                return numberToHex(balance);
+            case 'net_version':
+                return String(hexToNumber(chainId));
+            case 'wallet_switchEthereumChain':
+                return switchChain((list[0] as { chainId: Hex }).chainId);
+            case 'wallet_addEthereumChain': {
+                if (scenario === MockProviderScenarios.USER_REJECTS) throw userRejected();
+                const { chainId: addedChainId } = list[0] as { chainId: Hex };
+                knownChains.add(addedChainId);
+                setChainId(addedChainId);
+                return null;
+            }
+            case 'personal_sign':
+                return personalSign(list);
+            default:
+                throw new MockProviderRpcError(4200, `The Provider does not support the requested method "${method}".`);
+        }
+    };
+
+    const request = async <T = unknown>(args: EIP1193RequestArguments): Promise<T> => {
+        const record: MockRequestRecord = {
+            method: args.method,
+            params: args.params,
+            timestamp: Date.now(),
+            outcome: 'pending',
+        };
+        requests.push(record);
+        log.debug(`mockEthereumProvider: запрос ${args.method}`, args.params ?? '');
+
+        if (delay > 0) {
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+
+        try {
+            const result = await handleRequest(args);
+            Object.assign(record, { outcome: 'resolved', result });
+            return result as T;
+        } catch (error) {
+            Object.assign(record, { outcome: 'rejected', error });
+            throw error;
+        }
+    };
+
+    return {
+        isMetaMask: true,
+        _metamask: {
+            isUnlocked: async () => isUnlocked,
+        },
+        scenario,
+        address: account.address,
+        requests,
+        request,
+        on: (event, listener) => {
+            if (!listeners.has(event)) listeners.set(event, new Set());
+            listeners.get(event)?.add(listener);
+        },
+        removeListener: (event, listener) => {
+            listeners.get(event)?.delete(listener);
+        },
+        setDelay: (nextDelayMs) => {
+            delay = nextDelayMs;
+        },
+        unlock: () => {
+            isUnlocked = true;
+            pendingUnlocks.splice(0).forEach((resolve) => resolve());
+        },
+        setAccounts,
+        setChainId,
+        emit,
+        clearRequests: () => {
+            requests.length = 0;
+        },
+    };
+};
+
+interface InstalledMock {
+    provider: MockEthereumProvider | null;
+    previousEthereum: EIP1193Provider | undefined;
+    announce: () => void;
+}
+
+let installed: InstalledMock | null = null;
+
+/**
+ * Устанавливает mock-провайдер как window.ethereum и объявляет его по EIP-6963 (сейчас и на каждый
+ * eip6963:requestProvider). В сценарии notInstalled window.ethereum удаляется и ничего не объявляется.
+ * Предыдущий mock при этом снимается.
+ * @param {MockProviderOptions} [options] - параметры провайдера
+ * @returns {MockEthereumProvider | null} установленный провайдер (null для notInstalled)
+ */
+export const installMockEthereumProvider = (options: MockProviderOptions = {}): MockEthereumProvider | null => {
+    uninstallMockEthereumProvider();
+
+    const previousEthereum = window.ethereum;
+
+    if (options.scenario === MockProviderScenarios.NOT_INSTALLED) {
+        delete window.ethereum;
+        installed = { provider: null, previousEthereum, announce: () => undefined };
+        log.debug('mockEthereumProvider: сценарий notInstalled — кошелёк не объявляется.');
+        return null;
+    }
+
+    const provider = createMockEthereumProvider(options);
+    const detail: EIP6963ProviderDetail = Object.freeze({
+        info: { uuid: crypto.randomUUID(), name: 'MetaMask (mock)', icon: '', rdns: METAMASK_RDNS },
+        provider,
+    });
+    const announce = () => {
+        window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail }));
+    };
+
+    window.ethereum = provider;
+    window.addEventListener('eip6963:requestProvider', announce);
+    installed = { provider, previousEthereum, announce };
+    announce();
+
+    log.debug(`mockEthereumProvider: установлен провайдер, сценарий ${provider.scenario}, аккаунт ${provider.address}.`);
+    return provider;
+};
+
+/**
+ * Снимает установленный mock-провайдер и возвращает прежний window.ethereum
+ * @returns {void}
+ */
+export const uninstallMockEthereumProvider = (): void => {
+    if (!installed) return;
+
+    window.removeEventListener('eip6963:requestProvider', installed.announce);
+
+    if (installed.previousEthereum) {
+        window.ethereum = installed.previousEthereum;
+    } else {
+        delete window.ethereum;
+    }
+
+    installed = null;
+};
+
+/**
+ * Возвращает установленный mock-провайдер (для проверки журнала запросов в тестах)
+ * @returns {MockEthereumProvider | null}
+ */
+export const getMockEthereumProvider = (): MockEthereumProvider | null => installed?.provider ?? null;
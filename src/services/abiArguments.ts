@@ -0,0 +1,49 @@
+// Сервис представления аргументов, разобранных по ABI (функции или ошибки контракта) [★☆☆☆☆]
+
+/**
+ * toDecodedArguments - сопоставляет разобранные значения аргументов с параметрами из ABI: имя, тип Solidity
+ * и значение строкой (числа и адреса как есть, массивы и структуры — в JSON). Используется для отображения
+ * вызова контракта перед подписью и аргументов пользовательской ошибки контракта.
+ * @module abiArguments
+ * @category Services
+ * @example
+ *   toDecodedArguments([{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }], [to, 5n]);
+ *   // [{ name: 'to', type: 'address', value: '0x...' }, { name: 'amount', type: 'uint256', value: '5' }]
+ */
+
+import { type AbiParameter, stringify } from 'viem';
+
+/**
+ * @description Аргумент, разобранный по ABI
+ *
+ * @property {string} name  - Имя параметра из ABI (или argN, если имя не задано)
+ * @property {string} type  - Тип параметра Solidity (address, uint256 и т.д.)
+ * @property {string} value - Значение для отображения
+ */
+export interface DecodedArgument {
+    name: string;
+    type: string;
+    value: string;
+}
+
+// Значение аргумента для отображения: числа и адреса как есть, массивы и структуры — в JSON
+const formatArgumentValue = (value: unknown): string => {
+    if (typeof value === 'string' || typeof value === 'bigint' || typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+    }
+
+    return stringify(value);
+};
+
+/**
+ * Сопоставляет значения аргументов с параметрами из ABI
+ * @param {AbiParameter[]} inputs - параметры функции или ошибки из ABI
+ * @param {Array} values - разобранные значения аргументов
+ * @returns {DecodedArgument[]} именованные аргументы для отображения
+ */
+export const toDecodedArguments = (inputs: readonly AbiParameter[], values: readonly unknown[]): DecodedArgument[] =>
+    values.map((value, index) => ({
+        name: inputs[index]?.name || `arg${index}`,
+        type: inputs[index]?.type ?? 'unknown',
+        value: formatArgumentValue(value),
+    }));
@@ -0,0 +1,62 @@
+// Сервис прерываемого ожидания запросов к кошельку (AbortSignal) [★★★☆☆]
+
+/**
+ * withAbortSignal - оборачивает промис (как правило, запрос к провайдеру EIP-1193) так, чтобы ожидание можно было
+ * прервать через AbortSignal. Сам запрос в кошельке при этом не отменяется (EIP-1193 этого не предусматривает),
+ * но его поздний ответ будет проигнорирован: обёртка уже отклонена с ошибкой AbortError.
+ * @module abortableRequest
+ * @category Services
+ * @example
+ *   const accounts = await withAbortSignal(provider.request<string[]>({ method: 'eth_requestAccounts' }), signal);
+ */
+
+import log from '@/log';
+
+/**
+ * Создаёт ошибку отмены (аналог DOMException с именем AbortError)
+ * @returns {DOMException} ошибка отмены
+ */
+const createAbortError = (): DOMException => new DOMException('Операция отменена пользователем', 'AbortError');
+
+/**
+ * Проверяет, является ли ошибка ошибкой отмены
+ * @param {unknown} error - перехваченная ошибка
+ * @returns {boolean} true — операция была отменена через AbortSignal
+ */
+export const isAbortError = (error: unknown): boolean => {
+    return (error as { name?: string } | null)?.name === 'AbortError';
+};
+
+/**
+ * Ожидает промис с возможностью прерывания
+ * @param {Promise<T>} promise - ожидаемый промис
+ * @param {AbortSignal} [signal] - сигнал отмены; если не передан, промис возвращается без изменений
+ * @returns {Promise<T>} результат промиса или отклонение с AbortError после отмены
+ */
+export const withAbortSignal = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+
+    if (signal.aborted) {
+        return Promise.reject(createAbortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            log.debug('abortableRequest: ожидание ответа кошелька прервано, поздний ответ будет проигнорирован.');
+            reject(createAbortError());
+        };
+
+        signal.addEventListener('abort', onAbort, { once: true });
+
+        promise.then(
+            (value) => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            (error: unknown) => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            },
+        );
+    });
+};
@@ -0,0 +1,71 @@
+// Функция получения заголовков и комментариев для шагов процесса разрешения на списание токенов [★☆☆☆☆]
+
+/**
+ * approvalFlowComments - функция для получения заголовков и комментариев к шагам процесса
+ * «разрешение на списание → целевой вызов» по тем же правилам, что и mmConnectionComments для фаз подключения:
+ * тексты шага берутся из approvalFlowSteps.<шаг>, для неудачного шага с известной причиной комментарий выбирается
+ * сначала по approvalFlowSteps.<шаг>.reasons.<причина>, затем по общему walletErrorReasons.<причина>,
+ * и только потом используется общий текст состояния fail.
+ * Подставляет время ({formatedNow}) и дополнительные значения ({amount}, {symbol}, {spender} и т.п.).
+ * @module approvalFlowComments
+ * @category Services
+ * @example
+ *   const { header, comment } = approvalFlowComments('checkAllowance', 'success', null, { allowance: '10', symbol: 'RUBAS' });
+ *   const { comment: failed } = approvalFlowComments('approve', 'fail', null, undefined, 'userRejected');
+ */
+
+import { type ApprovalFailReason, type ApprovalStep, type ApprovalStepStatus, ApprovalStepStatuses } from '@/constants/approvalFlow';
+import i18n from '@/i18n';
+import log from '@/log';
+
+import { formatDateTime } from './formatDateTime';
+import { type MMConnectionCommentParams, type MMConnectionCommentResult } from './mmConnectionComments';
+
+/**
+ * Возвращает заголовок и комментарий для указанного шага и состояния
+ * @param {ApprovalStep} step - шаг процесса
+ * @param {ApprovalStepStatus} state - состояние шага
+ * @param {string | null} [formattedTime] - строка с датой/временем для подстановки в комментарий (опционально)
+ * @param {MMConnectionCommentParams} [params] - дополнительные значения для подстановки, например {amount} или {symbol} (опционально)
+ * @param {ApprovalFailReason | null} [reason] - причина неудачи шага (учитывается только для состояния fail)
+ * @returns {MMConnectionCommentResult} объект с полями header и comment
+ */
+export const approvalFlowComments = (
+    step: ApprovalStep,
+    state: ApprovalStepStatus,
+    formattedTime?: string | null,
+    params?: MMConnectionCommentParams,
+    reason?: ApprovalFailReason | null,
+): MMConnectionCommentResult => {
+    const formatedNow = formattedTime ?? formatDateTime();
+
+    log.debug(`approvalFlowComments: вызов с параметрами step="${step}", state="${state}", formattedTime="${formattedTime}", params=${JSON.stringify(params ?? {})}, reason="${reason ?? ''}"`);
+
+    const stepTranslations = i18n.t(`approvalFlowSteps.${step}`, {
+        returnObjects: true,
+    }) as {
+        header: string;
+        states: Record<string, string>;
+        reasons?: Record<string, string>;
+    };
+
+    let header = stepTranslations?.header ?? '-';
+    let commentTemplate = stepTranslations?.states?.[state] ?? '';
+
+    // Для неудачного шага — комментарий по причине (своей для шага или общей для ошибок кошелька), если он есть
+    if (state === ApprovalStepStatuses.FAIL && reason) {
+        const commonReasonKey = `walletErrorReasons.${reason}`;
+
+        commentTemplate = stepTranslations?.reasons?.[reason]
+            ?? (i18n.exists(commonReasonKey) ? i18n.t(commonReasonKey) : commentTemplate);
+    }
+
+    let comment = commentTemplate.replace('{formatedNow}', formatedNow);
+
+    Object.entries(params ?? {}).forEach(([key, value]) => {
+        header = header.split(`{${key}}`).join(String(value));
+        comment = comment.split(`{${key}}`).join(String(value));
+    });
+
+    return { header, comment };
+};
@@ -0,0 +1,70 @@
+// Сервис сведений о сети: название, нативная монета и ссылки на обозреватель блоков [★★☆☆☆]
+
+/**
+ * getChainInfo - название сети, символ нативной монеты и адрес обозревателя блоков по chainId
+ * (по реестру сетей).
+ * getAddressExplorerUrl - ссылка на страницу адреса в обозревателе блоков сети.
+ * getTransactionExplorerUrl - ссылка на страницу транзакции в обозревателе блоков сети.
+ * @module blockExplorer
+ * @category Services
+ * @example
+ *   getChainInfo(56);                       // { name: 'BNB Smart Chain Mainnet', symbol: 'BNB', explorerUrl: 'https://bscscan.com' }
+ *   getAddressExplorerUrl(56, account);     // 'https://bscscan.com/address/0x...'
+ *   getTransactionExplorerUrl(56, hash);    // 'https://bscscan.com/tx/0x...'
+ */
+
+import { findNetworkByChainId } from '@/services/networkRegistry';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+
+/**
+ * @description Сведения о сети
+ *
+ * @property {string}        name        - Название сети
+ * @property {string}        symbol      - Символ нативной монеты
+ * @property {string | null} explorerUrl - Адрес обозревателя блоков (null — неизвестен)
+ */
+export interface ChainInfo {
+    name: string;
+    symbol: string;
+    explorerUrl: string | null;
+}
+
+/**
+ * Сведения о сети из реестра сетей
+ * @param {number} chainId - идентификатор сети
+ * @returns {ChainInfo | null} сведения или null, если сеть не поддерживается приложением
+ */
+export const getChainInfo = (chainId: number): ChainInfo | null => {
+    const network = findNetworkByChainId(chainId);
+
+    if (!network) return null;
+
+    return {
+        name: network.name,
+        symbol: network.nativeCurrency.symbol,
+        explorerUrl: network.explorerUrl,
+    };
+};
+
+// Адрес обозревателя блоков сети (для неизвестной сети — обозреватель целевой сети)
+const resolveExplorerUrl = (chainId: number | null): string =>
+    (chainId !== null ? getChainInfo(chainId)?.explorerUrl : null)
+        ?? selectTargetNetwork(useSettingsStore.getState()).explorerUrl;
+
+/**
+ * Ссылка на страницу адреса в обозревателе блоков
+ * @param {number | null} chainId - идентификатор сети (для неизвестной сети используется обозреватель целевой сети)
+ * @param {string} address - адрес
+ * @returns {string} ссылка на страницу адреса
+ */
+export const getAddressExplorerUrl = (chainId: number | null, address: string): string =>
+    `${resolveExplorerUrl(chainId)}/address/${address}`;
+
+/**
+ * Ссылка на страницу транзакции в обозревателе блоков
+ * @param {number | null} chainId - идентификатор сети (для неизвестной сети используется обозреватель целевой сети)
+ * @param {string} hash - хеш транзакции
+ * @returns {string} ссылка на страницу транзакции
+ */
+export const getTransactionExplorerUrl = (chainId: number | null, hash: string): string =>
+    `${resolveExplorerUrl(chainId)}/tx/${hash}`;
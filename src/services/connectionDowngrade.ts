@@ -0,0 +1,45 @@
+// Сервис понижения пройденных фаз подключения, когда их результат больше не действителен [★★☆☆☆]
+
+/**
+ * downgradePhase - переводит успешно пройденную фазу подключения в fail (сеть сменилась, доступ утрачен и т.п.).
+ * endForeignSiweSession - завершает сессию Sign-In with Ethereum, выданную другому адресу (или когда адреса нет),
+ * и понижает фазу входа с подписью: новый аккаунт не подписывал сообщение, поэтому подключение не завершено.
+ * Используются везде, где аккаунт или сеть меняются после подключения (события кошелька, меню аккаунта).
+ * @module connectionDowngrade
+ * @category Services
+ * @example
+ *   endForeignSiweSession(nextAccount);
+ *   downgradePhase(ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK, 'сеть сменилась');
+ */
+
+import { type ConnectionPhase, ConnectionPhases, PhaseStatuses } from '@/constants/connectionPhases';
+import log from '@/log';
+import { useConnectionStore } from '@/stores/useConnectionStore';
+import { useSiweSessionStore } from '@/stores/useSiweSessionStore';
+
+/**
+ * Понижает статус фазы: успешно пройденная фаза становится неуспешной (фаза в другом статусе не меняется)
+ * @param {ConnectionPhase} phase - фаза подключения
+ * @param {string} reason - причина понижения (для журнала)
+ */
+export const downgradePhase = (phase: ConnectionPhase, reason: string): void => {
+    const { phaseStatuses, setPhaseStatus } = useConnectionStore.getState();
+
+    if (phaseStatuses[phase] !== PhaseStatuses.SUCCESS) return;
+
+    log.warn(`connectionDowngrade: фаза "${phase}" больше не выполнена (${reason}).`);
+    setPhaseStatus(phase, PhaseStatuses.FAIL);
+};
+
+/**
+ * Завершает сессию Sign-In with Ethereum, если она выдана другому адресу (или адреса больше нет)
+ * @param {string | null} account - аккаунт, с которым продолжает работать приложение
+ */
+export const endForeignSiweSession = (account: string | null): void => {
+    const { session, clearSession } = useSiweSessionStore.getState();
+
+    if (!session || session.address.toLowerCase() === account?.toLowerCase()) return;
+
+    clearSession();
+    downgradePhase(ConnectionPhases.SIGN_IN_WITH_ETHEREUM, 'вход выполнен другим адресом');
+};
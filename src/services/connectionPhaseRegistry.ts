@@ -0,0 +1,162 @@
+// Реестр фаз подключения: проверка, политика и ключи локализации каждой фазы [★★★☆☆]
+
+/**
+ * CONNECTION_PHASE_REGISTRY - единственное место, где объявляются фазы подключения: идентификатор, хук проверки,
+ * признак необязательности, политика выполнения, ключ локализации и инструкции на случай неудачи.
+ * Хранилища, оркестратор, таймлайн, комментарии к фазам и панель помощи получают порядок фаз и их параметры отсюда.
+ * CONNECTION_PHASE_ORDER - порядок выполнения включённых фаз.
+ * getPhaseDefinition - описание фазы по идентификатору.
+ * createPhaseRecord - объект с одинаковым значением для каждой фазы реестра (начальные статусы, метки и т.п.).
+ *
+ * Чтобы добавить шаг (например, одобрение токена), достаточно добавить идентификатор в ConnectionPhases,
+ * описание фазы в реестр и тексты mmConnectionPhases.<фаза> в файлы переводов.
+ * @module connectionPhaseRegistry
+ * @category Services
+ * @example
+ *   const { policy, i18nKey } = getPhaseDefinition(ConnectionPhases.CHECK_IF_UNLOCKED);
+ *   const initialStatuses = createPhaseRecord<PhaseStatus>(PhaseStatuses.WAITING);
+ */
+
+import { SIWE_ENABLED } from '@/constants/connection';
+import { type ConnectionPhase, ConnectionPhases, type PhaseChecker } from '@/constants/connectionPhases';
+import { type PhasePolicy } from '@/constants/connectionPolicy';
+import { type PhaseRemediation, RemediationTopics } from '@/constants/connectionRemediation';
+import { WalletErrorReasons } from '@/constants/walletErrors';
+import { useCheckMetaMaskAccount } from '@/hooks/useCheckMetaMaskAccount';
+import { useCheckMetaMaskAuthorized } from '@/hooks/useCheckMetaMaskAuthorized';
+import { useCheckMetaMaskInstalled } from '@/hooks/useCheckMetaMaskInstalled';
+import { useCheckMetaMaskNetwork } from '@/hooks/useCheckMetaMaskNetwork';
+import { useCheckMetaMaskSignIn } from '@/hooks/useCheckMetaMaskSignIn';
+import { useCheckMetaMaskUnlocked } from '@/hooks/useCheckMetaMaskUnlocked';
+
+/**
+ * @description Описание фазы подключения
+ *
+ * @property {ConnectionPhase}     id         - Идентификатор фазы
+ * @property {() => PhaseChecker}  useChecker - Хук, возвращающий функцию проверки фазы
+ * @property {boolean}             optional   - Необязательная фаза (выполняется, только если включена)
+ * @property {boolean}             enabled    - Включена ли необязательная фаза (для обязательных не учитывается)
+ * @property {PhasePolicy}         policy     - Политика выполнения: таймаут, повторы и задержка между ними
+ * @property {string}              i18nKey    - Ключ текстов фазы в файлах переводов (header, states, reasons)
+ * @property {PhaseRemediation}    [remediation] - Темы инструкций панели помощи при неудаче фазы
+ */
+export interface ConnectionPhaseDefinition {
+    id: ConnectionPhase;
+    useChecker: () => PhaseChecker;
+    optional: boolean;
+    enabled: boolean;
+    policy: PhasePolicy;
+    i18nKey: string;
+    remediation?: PhaseRemediation;
+}
+
+/**
+ Реестр фаз в порядке выполнения.
+ Фазы, в которых пользователь отвечает во всплывающем окне MetaMask (разблокировка, доступ к аккаунтам,
+ переключение сети, подпись), ждут дольше и не повторяются: повторный запрос при открытом окне MetaMask отклоняет (-32002).
+ Реестр неизменен после загрузки модуля, поэтому хуки проверок вызываются в одном и том же порядке при каждом рендере.
+ */
+export const CONNECTION_PHASE_REGISTRY: readonly ConnectionPhaseDefinition[] = [
+    {
+        id: ConnectionPhases.CHECK_IF_INSTALLED,
+        useChecker: useCheckMetaMaskInstalled,
+        optional: false,
+        enabled: true,
+        policy: { timeoutMs: 3_000, maxRetries: 1, backoffMs: 500 },
+        i18nKey: `mmConnectionPhases.${ConnectionPhases.CHECK_IF_INSTALLED}`,
+        remediation: { default: RemediationTopics.INSTALL_METAMASK },
+    },
+    {
+        id: ConnectionPhases.CHECK_IF_UNLOCKED,
+        useChecker: useCheckMetaMaskUnlocked,
+        optional: false,
+        enabled: true,
+        policy: { timeoutMs: 60_000, maxRetries: 0, backoffMs: 0 },
+        i18nKey: `mmConnectionPhases.${ConnectionPhases.CHECK_IF_UNLOCKED}`,
+        remediation: { default: RemediationTopics.UNLOCK_WALLET },
+    },
+    {
+        id: ConnectionPhases.CHECK_IF_AUTHORIZED,
+        useChecker: useCheckMetaMaskAuthorized,
+        optional: false,
+        enabled: true,
+        policy: { timeoutMs: 60_000, maxRetries: 0, backoffMs: 0 },
+        i18nKey: `mmConnectionPhases.${ConnectionPhases.CHECK_IF_AUTHORIZED}`,
+        remediation: {
+            reasons: {
+                [WalletErrorReasons.NOT_INSTALLED]: RemediationTopics.INSTALL_METAMASK,
+                [WalletErrorReasons.NO_ACCOUNTS]:   RemediationTopics.UNLOCK_WALLET,
+            },
+            default: RemediationTopics.APPROVE_REQUEST,
+        },
+    },
+    {
+        id: ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK,
+        useChecker: useCheckMetaMaskNetwork,
+        optional: false,
+        enabled: true,
+        policy: { timeoutMs: 60_000, maxRetries: 0, backoffMs: 0 },
+        i18nKey: `mmConnectionPhases.${ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK}`,
+        remediation: {
+            reasons: {
+                [WalletErrorReasons.REQUEST_PENDING]: RemediationTopics.APPROVE_REQUEST,
+            },
+            default: RemediationTopics.ADD_NETWORK,
+        },
+    },
+    {
+        id: ConnectionPhases.CHECK_OUT_ACCOUNT,
+        useChecker: useCheckMetaMaskAccount,
+        optional: false,
+        enabled: true,
+        // Время ожидания рассчитано на выбор аккаунта из списка; повторы — на случай, когда wagmi ещё не вернул аккаунты
+        // (отказ от выбора не повторяется — NON_RETRYABLE_REASONS)
+        policy: { timeoutMs: 60_000, maxRetries: 2, backoffMs: 1_000 },
+        i18nKey: `mmConnectionPhases.${ConnectionPhases.CHECK_OUT_ACCOUNT}`,
+        remediation: {
+            reasons: {
+                [WalletErrorReasons.NO_ACCOUNTS]: RemediationTopics.UNLOCK_WALLET,
+            },
+        },
+    },
+    {
+        id: ConnectionPhases.SIGN_IN_WITH_ETHEREUM,
+        useChecker: useCheckMetaMaskSignIn,
+        optional: true,
+        enabled: SIWE_ENABLED,
+        policy: { timeoutMs: 120_000, maxRetries: 0, backoffMs: 0 },
+        i18nKey: `mmConnectionPhases.${ConnectionPhases.SIGN_IN_WITH_ETHEREUM}`,
+        remediation: { default: RemediationTopics.APPROVE_REQUEST },
+    },
+];
+
+/**
+ Порядок выполнения фаз подключения (единый для хранилища, оркестратора и таймлайна):
+ обязательные фазы и включённые необязательные
+ */
+export const CONNECTION_PHASE_ORDER: readonly ConnectionPhase[] = CONNECTION_PHASE_REGISTRY
+    .filter(({ optional, enabled }) => !optional || enabled)
+    .map(({ id }) => id);
+
+/**
+ * Возвращает описание фазы из реестра
+ * @param {ConnectionPhase} phase - идентификатор фазы
+ * @returns {ConnectionPhaseDefinition} описание фазы
+ */
+export const getPhaseDefinition = (phase: ConnectionPhase): ConnectionPhaseDefinition => {
+    const definition = CONNECTION_PHASE_REGISTRY.find(({ id }) => id === phase);
+
+    if (!definition) {
+        throw new Error(`connectionPhaseRegistry: фаза "${phase}" не объявлена в реестре.`);
+    }
+
+    return definition;
+};
+
+/**
+ * Создаёт объект с одинаковым значением для каждой фазы реестра (включая отключённые)
+ * @param {T} value - значение для каждой фазы
+ * @returns {Record<ConnectionPhase, T>} объект вида { [фаза]: value }
+ */
+export const createPhaseRecord = <T>(value: T): Record<ConnectionPhase, T> =>
+    Object.fromEntries(CONNECTION_PHASE_REGISTRY.map(({ id }) => [id, value])) as Record<ConnectionPhase, T>;
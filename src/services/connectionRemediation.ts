@@ -0,0 +1,105 @@
+// Сервис выбора инструкции по устранению ошибки фазы подключения [★★★☆☆]
+
+/**
+ * getConnectionRemediation - по фазе, её статусу и причине неудачи выбирает тему инструкции (из реестра фаз),
+ * загружает текст инструкции на нужном языке (locales/<язык>/remediation/<тема>.md) и список действий панели помощи.
+ * Инструкции подключаются при сборке (import.meta.glob с ?raw), отдельных запросов не требуется.
+ * Если для языка нет файла, используется язык по умолчанию (REMEDIATION_FALLBACK_LANGUAGE).
+ * В тексте заменяются подстановки вида {networkName} (параметры целевой сети и т.п.).
+ * @module connectionRemediation
+ * @category Services
+ * @example
+ *   const remediation = getConnectionRemediation('checkIfMetaMaskInstalled', 'fail', 'notInstalled', 'ru');
+ *   // { topic: 'installMetaMask', markdown: '### Установите MetaMask ...', actions: ['installMetaMask', 'retry'] }
+ */
+
+import { type ConnectionPhase, type PhaseStatus, PhaseStatuses } from '@/constants/connectionPhases';
+import {
+    REMEDIATION_TOPIC_ACTIONS,
+    type RemediationAction,
+    type RemediationTopic,
+} from '@/constants/connectionRemediation';
+import { type WalletErrorReason } from '@/constants/walletErrors';
+import log from '@/log';
+import { getPhaseDefinition } from '@/services/connectionPhaseRegistry';
+
+// Язык инструкций по умолчанию (совпадает с fallbackLng в i18n)
+const REMEDIATION_FALLBACK_LANGUAGE = 'en';
+
+// Тексты инструкций всех языков: ключ — путь к файлу относительно этого модуля
+const REMEDIATION_MARKDOWN = import.meta.glob<string>('../locales/*/remediation/*.md', {
+    query: '?raw',
+    import: 'default',
+    eager: true,
+});
+
+// Значения для подстановки в текст инструкции ({networkName}, {chainId} и т.п.)
+export type RemediationParams = Record<string, string | number>;
+
+/**
+ * @description Инструкция для неудавшейся фазы
+ *
+ * @property {RemediationTopic}    topic    - Тема инструкции
+ * @property {string}              markdown - Текст инструкции (markdown)
+ * @property {RemediationAction[]} actions  - Действия панели помощи (в порядке отображения кнопок)
+ */
+export interface ConnectionRemediation {
+    topic: RemediationTopic;
+    markdown: string;
+    actions: readonly RemediationAction[];
+}
+
+/**
+ * Возвращает текст инструкции на указанном языке (или на языке по умолчанию)
+ * @param {RemediationTopic} topic - тема инструкции
+ * @param {string} language - код языка (например, 'ru' или 'en-US')
+ * @returns {string | null} текст инструкции или null, если файла нет
+ */
+export const getRemediationMarkdown = (topic: RemediationTopic, language: string): string | null => {
+    const languages = [language, language.split('-')[0], REMEDIATION_FALLBACK_LANGUAGE];
+
+    for (const lng of languages) {
+        const markdown = REMEDIATION_MARKDOWN[`../locales/${lng}/remediation/${topic}.md`];
+        if (markdown !== undefined) return markdown;
+    }
+
+    log.warn(`connectionRemediation: нет инструкции "${topic}" ни для одного из языков ${languages.join(', ')}.`);
+    return null;
+};
+
+/**
+ * Выбирает инструкцию для фазы, завершившейся неудачей или таймаутом
+ * @param {ConnectionPhase} phase - фаза подключения
+ * @param {PhaseStatus} status - статус фазы (инструкция есть только для fail и timeout)
+ * @param {WalletErrorReason | null} reason - причина неудачи (для fail)
+ * @param {string} language - код языка инструкции
+ * @param {RemediationParams} [params] - значения для подстановки в текст инструкции (опционально)
+ * @returns {ConnectionRemediation | null} инструкция или null, если для фазы и причины её нет
+ */
+export const getConnectionRemediation = (
+    phase: ConnectionPhase,
+    status: PhaseStatus,
+    reason: WalletErrorReason | null,
+    language: string,
+    params?: RemediationParams,
+): ConnectionRemediation | null => {
+    if (status !== PhaseStatuses.FAIL && status !== PhaseStatuses.TIMEOUT) return null;
+
+    const { remediation } = getPhaseDefinition(phase);
+    const topic = (reason ? remediation?.reasons?.[reason] : undefined) ?? remediation?.default;
+
+    if (!topic) {
+        log.debug(`connectionRemediation: для фазы "${phase}" (${status}, ${reason ?? '—'}) инструкции нет.`);
+        return null;
+    }
+
+    const template = getRemediationMarkdown(topic, language);
+    if (template === null) return null;
+
+    const markdown = Object.entries(params ?? {}).reduce(
+        (text, [key, value]) => text.split(`{${key}}`).join(String(value)),
+        template,
+    );
+
+    return { topic, markdown, actions: REMEDIATION_TOPIC_ACTIONS[topic] };
+};
@@ -0,0 +1,121 @@
+// Сервис реестра контрактов RUBAS: адрес и ABI контракта в сети и проверка готовности к обращению [★★★☆☆]
+
+/**
+ * getRubasContract - адрес, ABI и chainId контракта в указанной сети (или null, если адрес для сети не задан).
+ * ContractAccessError - ошибка, по которой обращение к контракту не отправляется (ContractAccessReason).
+ * resolveRubasContract - контракт в целевой сети, если к нему можно обращаться: процесс подключения завершён
+ * (все фазы useConnectionStore пройдены), кошелёк в целевой сети, адрес контракта задан. Иначе — ContractAccessError.
+ * @module contractRegistry
+ * @category Services
+ * @example
+ *   const { address, abi, chainId } = resolveRubasContract(RubasContracts.TOKEN);
+ *   const balance = await readContract(wagmiConfig, { address, abi, chainId, functionName: 'balanceOf', args: [account] });
+ */
+
+import { type Address, getAddress, isAddress } from 'viem';
+
+import {
+    type ContractAccessReason,
+    ContractAccessReasons,
+    RUBAS_CONTRACT_ABIS,
+    RUBAS_CONTRACT_ADDRESSES,
+    type RubasContractAbi,
+    type RubasContractId,
+} from '@/constants/contracts';
+import { type NetworkDefinition } from '@/constants/network';
+import log from '@/log';
+import { selectIsConnectionComplete, useConnectionStore } from '@/stores/useConnectionStore';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+
+/**
+ * @description Контракт в конкретной сети
+ *
+ * @property {RubasContractId} id      - Идентификатор контракта
+ * @property {Address}         address - Адрес контракта (checksum)
+ * @property {Abi}             abi     - ABI контракта
+ * @property {number}          chainId - Сеть, в которой развёрнут контракт
+ */
+export interface RubasContractConfig<TContract extends RubasContractId = RubasContractId> {
+    id: TContract;
+    address: Address;
+    abi: RubasContractAbi<TContract>;
+    chainId: number;
+}
+
+/**
+ * @description Ошибка, по которой обращение к контракту не отправляется
+ *
+ * @property {ContractAccessReason} reason - Причина
+ */
+export class ContractAccessError extends Error {
+    readonly reason: ContractAccessReason;
+
+    constructor(reason: ContractAccessReason, message: string) {
+        super(message);
+        this.name = 'ContractAccessError';
+        this.reason = reason;
+    }
+}
+
+/**
+ * Адрес, ABI и chainId контракта в указанной сети
+ * @param {RubasContractId} contractId - идентификатор контракта
+ * @param {NetworkDefinition} network - сеть
+ * @returns {RubasContractConfig | null} контракт или null, если адрес для сети не задан или задан неверно
+ */
+export const getRubasContract = <TContract extends RubasContractId>(
+    contractId: TContract,
+    network: NetworkDefinition,
+): RubasContractConfig<TContract> | null => {
+    const address = RUBAS_CONTRACT_ADDRESSES[contractId][network.id];
+
+    if (!address) return null;
+
+    if (!isAddress(address)) {
+        log.warn(`contractRegistry: неверный адрес контракта "${contractId}" в сети ${network.name}: "${address}".`);
+        return null;
+    }
+
+    return {
+        id: contractId,
+        address: getAddress(address),
+        abi: RUBAS_CONTRACT_ABIS[contractId],
+        chainId: network.chainId,
+    };
+};
+
+/**
+ * Контракт в целевой сети, если к нему можно обращаться
+ * @param {RubasContractId} contractId - идентификатор контракта
+ * @returns {RubasContractConfig} контракт в целевой сети
+ * @throws {ContractAccessError} подключение не завершено, кошелёк в другой сети или адрес контракта не задан
+ */
+export const resolveRubasContract = <TContract extends RubasContractId>(
+    contractId: TContract,
+): RubasContractConfig<TContract> => {
+    const targetNetwork = selectTargetNetwork(useSettingsStore.getState());
+    const { chainId } = useWalletStore.getState();
+
+    if (!selectIsConnectionComplete(useConnectionStore.getState())) {
+        throw new ContractAccessError(ContractAccessReasons.NOT_CONNECTED, 'Подключение кошелька не завершено.');
+    }
+
+    if (chainId !== targetNetwork.chainId) {
+        throw new ContractAccessError(
+            ContractAccessReasons.WRONG_CHAIN,
+            `Кошелёк в сети ${chainId}, контракт вызывается в сети ${targetNetwork.chainId} (${targetNetwork.name}).`,
+        );
+    }
+
+    const contract = getRubasContract(contractId, targetNetwork);
+
+    if (!contract) {
+        throw new ContractAccessError(
+            ContractAccessReasons.NOT_DEPLOYED,
+            `Адрес контракта "${contractId}" для сети ${targetNetwork.name} не задан.`,
+        );
+    }
+
+    return contract;
+};
@@ -0,0 +1,215 @@
+// Сервис предварительной симуляции вызова контракта и разбора причины отклонения (revert) [★★★★☆]
+
+/**
+ * simulateRubasCall - выполняет вызов контракта без отправки транзакции (simulateContract, eth_call) от имени
+ * аккаунта. Если вызов будет отклонён, возвращает разобранную причину, а не ошибку: транзакция, отклонённая
+ * в сети, всё равно стоит газа. Ошибки, не связанные с отклонением (например, недоступен узел), передаются
+ * вызывающему коду. Через stateOverride симуляция может выполняться с подменённым состоянием сети
+ * (например, с балансом аккаунта, достаточным для value).
+ * decodeRevertData - разбирает данные отклонения по ABI вызванного контракта и всех контрактов реестра RUBAS:
+ * Error(string), Panic(uint256) или пользовательская ошибка с именованными аргументами.
+ * describeRevert - локализованное описание причины отклонения для пользователя.
+ * @module contractSimulation
+ * @category Services
+ * @example
+ *   const simulation = await simulateRubasCall({ ...resolveRubasContract(RubasContracts.TOKEN),
+ *       functionName: 'transfer', args: [recipient, amount], account });
+ *   if (!simulation.ok) describeRevert(simulation.revert); // "Контракт отклонил вызов: BEP20: transfer amount exceeds balance"
+ */
+
+import {
+    type Abi,
+    type Address,
+    BaseError,
+    ContractFunctionRevertedError,
+    decodeErrorResult,
+    type Hex,
+    type StateOverride,
+    stringify,
+} from 'viem';
+import { getPublicClient } from 'wagmi/actions';
+
+import { RUBAS_CONTRACT_ABIS, type RubasContractId } from '@/constants/contracts';
+import { PANIC_CODE_KEYS, type RevertKind, RevertKinds } from '@/constants/revertReasons';
+import i18n from '@/i18n';
+import log from '@/log';
+import { type DecodedArgument, toDecodedArguments } from '@/services/abiArguments';
+import { wagmiConfig } from '@/wagmi';
+
+/**
+ * @description Вызов контракта из реестра RUBAS
+ *
+ * @property {RubasContractId} id           - Контракт из реестра RUBAS
+ * @property {Address}         address      - Адрес контракта
+ * @property {Abi}             abi          - ABI контракта
+ * @property {number}          chainId      - Сеть вызова
+ * @property {string}          functionName - Имя функции
+ * @property {Array}           args         - Аргументы функции
+ * @property {Address}         account      - Аккаунт, от имени которого выполняется вызов
+ * @property {bigint}          [value]      - Передаваемая сумма в нативной монете (wei)
+ */
+export interface ContractCallRequest {
+    id: RubasContractId;
+    address: Address;
+    abi: Abi;
+    chainId: number;
+    functionName: string;
+    args: readonly unknown[];
+    account: Address;
+    value?: bigint;
+}
+
+/**
+ * @description Разобранная причина отклонения вызова (сохраняется в useTransactionStore, поэтому только JSON-значения)
+ *
+ * @property {RevertKind}        kind      - Вид причины
+ * @property {string | null}     name      - Имя пользовательской ошибки (customError)
+ * @property {string | null}     message   - Сообщение require/revert (errorString)
+ * @property {number | null}     panicCode - Код Panic (panic)
+ * @property {DecodedArgument[]} args      - Именованные аргументы пользовательской ошибки
+ * @property {Hex | null}        raw       - Исходные данные отклонения
+ */
+export interface DecodedRevert {
+    kind: RevertKind;
+    name: string | null;
+    message: string | null;
+    panicCode: number | null;
+    args: DecodedArgument[];
+    raw: Hex | null;
+}
+
+/**
+ * Итог симуляции: результат вызова (строкой) или причина отклонения
+ */
+export type SimulationResult =
+    | { ok: true; result: string }
+    | { ok: false; revert: DecodedRevert };
+
+const emptyRevert: DecodedRevert = {
+    kind: RevertKinds.UNKNOWN,
+    name: null,
+    message: null,
+    panicCode: null,
+    args: [],
+    raw: null,
+};
+
+// Элемент ABI с описанием ошибки контракта
+type AbiError = Extract<Abi[number], { type: 'error' }>;
+
+// Ошибки всех контрактов реестра: вызванный контракт мог получить отклонение от другого контракта экосистемы
+const REGISTRY_ERRORS: AbiError[] = Object.values(RUBAS_CONTRACT_ABIS)
+    .flatMap((abi) => (abi as Abi).filter((item): item is AbiError => item.type === 'error'));
+
+/**
+ * Разбирает данные отклонения по ABI вызванного контракта и контрактов реестра
+ * @param {Hex} raw - данные отклонения (селектор и аргументы ошибки)
+ * @param {Abi} [abi] - ABI вызванного контракта
+ * @returns {DecodedRevert} причина отклонения (unknown, если ошибка не найдена ни в одном ABI)
+ */
+export const decodeRevertData = (raw: Hex, abi: Abi = []): DecodedRevert => {
+    if (raw === '0x') return emptyRevert;
+
+    try {
+        // Error(string) и Panic(uint256) viem распознаёт без объявления в ABI
+        const { abiItem, errorName, args = [] } = decodeErrorResult({ abi: [...abi, ...REGISTRY_ERRORS], data: raw });
+
+        if (errorName === 'Error') {
+            return { ...emptyRevert, kind: RevertKinds.ERROR_STRING, message: String(args[0]), raw };
+        }
+
+        if (errorName === 'Panic') {
+            return { ...emptyRevert, kind: RevertKinds.PANIC, panicCode: Number(args[0]), raw };
+        }
+
+        return {
+            ...emptyRevert,
+            kind: RevertKinds.CUSTOM_ERROR,
+            name: errorName,
+            args: toDecodedArguments((abiItem as AbiError).inputs, args),
+            raw,
+        };
+    } catch {
+        log.debug(`contractSimulation: данные отклонения ${raw.slice(0, 10)} не соответствуют ABI реестра.`);
+        return { ...emptyRevert, raw };
+    }
+};
+
+/**
+ * Выполняет вызов контракта без отправки транзакции
+ * @param {ContractCallRequest} request - контракт, вызов и аккаунт
+ * @param {StateOverride} [stateOverride] - подмена состояния сети на время симуляции
+ * @returns {Promise<SimulationResult>} результат вызова или разобранная причина отклонения
+ */
+export const simulateRubasCall = async (
+    { id, address, abi, chainId, functionName, args, account, value }: ContractCallRequest,
+    stateOverride?: StateOverride,
+): Promise<SimulationResult> => {
+    const call = `${id}.${functionName}(${stringify(args)})`;
+    const client = getPublicClient(wagmiConfig, { chainId });
+
+    if (!client) {
+        throw new Error(`Сеть ${chainId} не поддерживается приложением`);
+    }
+
+    try {
+        const { result } = await client.simulateContract({
+            address,
+            abi,
+            functionName,
+            args,
+            account,
+            value,
+            stateOverride,
+        });
+
+        log.debug(`contractSimulation: ${call} выполнится успешно, результат ${stringify(result)}.`);
+        return { ok: true, result: stringify(result) };
+    } catch (error) {
+        const reverted = error instanceof BaseError
+            ? error.walk((cause) => cause instanceof ContractFunctionRevertedError)
+            : null;
+
+        if (!(reverted instanceof ContractFunctionRevertedError)) {
+            log.warn(`contractSimulation: ${call} не удалось симулировать.`, error);
+            throw error;
+        }
+
+        // Узел может вернуть только текст причины без данных отклонения
+        const revert = reverted.raw
+            ? decodeRevertData(reverted.raw, abi)
+            : reverted.reason
+                ? { ...emptyRevert, kind: RevertKinds.ERROR_STRING, message: reverted.reason }
+                : emptyRevert;
+
+        log.warn(`contractSimulation: ${call} будет отклонён (${revert.kind}).`, revert);
+        return { ok: false, revert };
+    }
+};
+
+/**
+ * Локализованное описание причины отклонения
+ * @param {DecodedRevert} revert - причина отклонения
+ * @returns {string} описание для пользователя
+ */
+export const describeRevert = (revert: DecodedRevert): string => {
+    switch (revert.kind) {
+        case RevertKinds.ERROR_STRING:
+            return i18n.t('contractSimulation.reasons.errorString', { message: revert.message });
+        case RevertKinds.PANIC: {
+            const key = revert.panicCode !== null ? PANIC_CODE_KEYS[revert.panicCode] : undefined;
+            const code = `0x${(revert.panicCode ?? 0).toString(16).padStart(2, '0')}`;
+
+            return i18n.t('contractSimulation.reasons.panic', {
+                code,
+                description: i18n.t(`contractSimulation.panics.${key ?? 'unknown'}`),
+            });
+        }
+        case RevertKinds.CUSTOM_ERROR: {
+            const args = revert.args.map(({ name, value }) => `${name}: ${value}`).join(', ');
+            return i18n.t('contractSimulation.reasons.customError', { name: revert.name, args });
+        }
+        default:
+            return i18n.t('contractSimulation.reasons.unknown');
+    }
+};
@@ -0,0 +1,126 @@
+// Сервис отправки транзакции в контракт RUBAS: проверка перед подписью, подпись в MetaMask и учёт транзакции [★★★☆☆]
+
+/**
+ * sendRubasContractWrite - отправляет транзакцию в контракт RUBAS в целевой сети от подключённого аккаунта
+ * через MetaMask (действие wagmi writeContract). Перед подписью вызов симулируется и показывается в окне проверки
+ * (prepareTransactionReview, useTransactionReviewStore); если пользователь отправил транзакцию несмотря
+ * на неудачную симуляцию, причина сохраняется вместе с транзакцией. Отправленная транзакция добавляется
+ * в useTransactionStore (её отслеживает хук useTransactionTracking).
+ * Транзакция не отправляется, если к контракту нельзя обращаться (ContractAccessError), пользователь отклонил
+ * её в окне проверки или в кошельке, или кошелёк вернул ошибку (WalletError, classifyWalletError).
+ * Используется хуком useRubasContractWrite и процессом разрешения на списание (useApprovalFlow).
+ * @module contractWrite
+ * @category Services
+ * @example
+ *   const hash = await sendRubasContractWrite({ contract: RubasContracts.TOKEN, functionName: 'approve',
+ *       args: [spender, amount] });
+ */
+
+import { type Address, type Hash, stringify } from 'viem';
+import { writeContract, type WriteContractParameters } from 'wagmi/actions';
+
+import { type RubasContractId } from '@/constants/contracts';
+import { WalletErrorReasons } from '@/constants/walletErrors';
+import log from '@/log';
+import { ContractAccessError, resolveRubasContract } from '@/services/contractRegistry';
+import { prepareTransactionReview } from '@/services/transactionReview';
+import { classifyWalletError, WalletError } from '@/services/walletError';
+import { useTransactionReviewStore } from '@/stores/useTransactionReviewStore';
+import { useTransactionStore } from '@/stores/useTransactionStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+import { getMetaMaskConnector, wagmiConfig } from '@/wagmi';
+
+/**
+ * @description Транзакция в контракт RUBAS
+ *
+ * @property {RubasContractId} contract     - Контракт из реестра RUBAS
+ * @property {string}          functionName - Имя функции, изменяющей состояние
+ * @property {Array}           args         - Аргументы функции
+ * @property {bigint}          [value]      - Передаваемая сумма в нативной монете (wei)
+ * @property {AbortSignal}     [signal]     - Прерывание проверки перед подписью (транзакция не отправляется)
+ */
+export interface RubasContractWriteRequest {
+    contract: RubasContractId;
+    functionName: string;
+    args: readonly unknown[];
+    value?: bigint;
+    signal?: AbortSignal;
+}
+
+/**
+ * Отправляет транзакцию в контракт RUBAS
+ * @param {RubasContractWriteRequest} request - контракт, функция, аргументы и сумма
+ * @returns {Promise<Hash>} хеш отправленной транзакции
+ * @throws {ContractAccessError} к контракту нельзя обращаться
+ * @throws {WalletError} транзакция отклонена при проверке или в кошельке, либо кошелёк вернул ошибку
+ */
+export const sendRubasContractWrite = async ({
+    contract,
+    functionName,
+    args,
+    value,
+    signal,
+}: RubasContractWriteRequest): Promise<Hash> => {
+    const call = `${contract}.${functionName}(${stringify(args)})`;
+
+    try {
+        const { address, abi, chainId } = resolveRubasContract(contract);
+        const account = useWalletStore.getState().account as Address;
+
+        log.debug(`contractWrite: ${call} в сети ${chainId} — проверка транзакции перед подписью.`);
+
+        const review = await prepareTransactionReview({
+            id: contract,
+            address,
+            abi,
+            chainId,
+            functionName,
+            args,
+            account,
+            value,
+        });
+
+        if (!await useTransactionReviewStore.getState().requestReview(review, signal)) {
+            log.debug(`contractWrite: ${call} отклонено пользователем при проверке.`);
+            throw new WalletError(WalletErrorReasons.USER_REJECTED, 'Транзакция отклонена при проверке');
+        }
+
+        const simulationRevert = review.simulation.ok ? null : review.simulation.revert;
+
+        if (simulationRevert) {
+            log.warn(`contractWrite: ${call} отправляется несмотря на неудачную симуляцию (${simulationRevert.kind}).`);
+        }
+
+        log.debug(`contractWrite: ${call} — ожидаем подтверждения в кошельке.`);
+
+        const hash = await writeContract(wagmiConfig, {
+            address,
+            abi,
+            chainId,
+            functionName,
+            args,
+            account,
+            value,
+            connector: getMetaMaskConnector(),
+        } as WriteContractParameters);
+
+        log.debug(`contractWrite: ${call} отправлено, хеш транзакции ${hash}.`);
+        useTransactionStore.getState().addTransaction({
+            hash,
+            account,
+            chainId,
+            description: `${contract}.${functionName}`,
+            simulationRevert,
+        });
+        return hash;
+    } catch (writeError) {
+        if (writeError instanceof ContractAccessError || writeError instanceof WalletError) {
+            log.warn(`contractWrite: ${call} не отправлено — ${writeError.message}`);
+            throw writeError;
+        }
+
+        const walletError = classifyWalletError(writeError);
+        log.warn(`contractWrite: ${call} не отправлено (${walletError.reason}).`, writeError);
+        throw walletError;
+    }
+};
@@ -0,0 +1,128 @@
+// История для сервиса обнаружения кошельков по EIP-6963 (с тестами)
+
+import { type Meta, type StoryObj } from '@storybook/react';
+import { expect, userEvent, within } from '@storybook/test';
+import { Button, Divider, Space, Tag, Typography } from 'antd';
+import * as React from 'react';
+
+import { METAMASK_RDNS } from '@/constants/connection';
+import log from '@/log';
+import {
+    type EIP1193Provider,
+    type EIP6963ProviderInfo,
+    findMetaMaskProvider,
+} from '@/services/eip6963ProviderDiscovery';
+import { useWalletProvidersStore } from '@/stores/useWalletProvidersStore';
+
+const { Title, Text } = Typography;
+
+// Кошельки, которые «объявляют» себя в истории
+const fakeWallets: EIP6963ProviderInfo[] = [
+    { uuid: 'storybook-rabby', name: 'Rabby Wallet', icon: '', rdns: 'io.rabby' },
+    { uuid: 'storybook-okx', name: 'OKX Wallet', icon: '', rdns: 'com.okex.wallet' },
+    { uuid: 'storybook-metamask', name: 'MetaMask', icon: '', rdns: METAMASK_RDNS },
+];
+
+// Заглушка провайдера EIP-1193
+const createStubProvider = (name: string): EIP1193Provider => ({
+    request: async ({ method }) => {
+        log.debug(`Storybook: ${name} получил запрос ${method}`);
+        return null as never;
+    },
+});
+
+type DiscoveryExampleProps = {
+    wallets: EIP6963ProviderInfo[];
+};
+
+const DiscoveryExample: React.FC<DiscoveryExampleProps> = ({ wallets }) => {
+    const providers = useWalletProvidersStore((state) => state.providers);
+    const selectedUuid = useWalletProvidersStore((state) => state.selectedUuid);
+    const [result, setResult] = React.useState<string>('—');
+
+    // Каждый кошелёк отвечает на eip6963:requestProvider собственным объявлением
+    React.useEffect(() => {
+        useWalletProvidersStore.getState().resetProviders();
+
+        const announce = () => {
+            wallets.forEach((info) => {
+                window.dispatchEvent(
+                    new CustomEvent('eip6963:announceProvider', {
+                        detail: Object.freeze({ info, provider: createStubProvider(info.name) }),
+                    }),
+                );
+            });
+        };
+
+        window.addEventListener('eip6963:requestProvider', announce);
+        return () => window.removeEventListener('eip6963:requestProvider', announce);
+    }, [wallets]);
+
+    const handleDiscover = async () => {
+        const metaMask = await findMetaMaskProvider(50);
+        const count = Object.keys(useWalletProvidersStore.getState().providers).length;
+        setResult(metaMask ? `MetaMask found among ${count} wallets` : `MetaMask not found (${count} wallets)`);
+    };
+
+    return (
+        <div style={{ padding: 24, maxWidth: 640 }}>
+            <Title level={4}>eip6963ProviderDiscovery</Title>
+            <Button type="primary" onClick={handleDiscover} data-testid="btn-discover">
+                discoverProviders
+            </Button>
+
+            <Divider>Результат</Divider>
+            <Text data-testid="discovery-result">{result}</Text>
+
+            <Divider>Реестр</Divider>
+            <Space direction="vertical" data-testid="providers-list">
+                {Object.values(providers).map(({ info }) => (
+                    <div key={info.uuid} data-testid={`provider-${info.rdns}`}>
+                        <Text strong>{info.name}</Text> <Text code>{info.rdns}</Text>{' '}
+                        {info.uuid === selectedUuid && <Tag color="green">selected</Tag>}
+                    </div>
+                ))}
+            </Space>
+        </div>
+    );
+};
+
+const meta: Meta<typeof DiscoveryExample> = {
+    title: 'Services/eip6963ProviderDiscovery',
+    component: DiscoveryExample,
+    tags: ['autodocs'],
+    parameters: {
+        docs: {
+            page: undefined,
+        },
+    },
+};
+
+export default meta;
+
+type Story = StoryObj<typeof DiscoveryExample>;
+
+export const SeveralWallets: Story = {
+    args: {
+        wallets: fakeWallets,
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+        await userEvent.click(canvas.getByTestId('btn-discover'));
+
+        await expect(canvas.findByText('MetaMask found among 3 wallets')).resolves.toBeInTheDocument();
+        await expect(canvas.getByTestId(`provider-${METAMASK_RDNS}`)).toHaveTextContent('selected');
+    },
+};
+
+export const WithoutMetaMask: Story = {
+    args: {
+        wallets: fakeWallets.filter((info) => info.rdns !== METAMASK_RDNS),
+    },
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+        await userEvent.click(canvas.getByTestId('btn-discover'));
+
+        await expect(canvas.findByText('MetaMask not found (2 wallets)')).resolves.toBeInTheDocument();
+    },
+};
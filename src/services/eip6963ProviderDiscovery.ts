@@ -0,0 +1,204 @@
+// Сервис обнаружения кошельков по стандарту EIP-6963 (Multi Injected Provider Discovery) [★★★☆☆]
+
+/**
+ * @fileoverview Обнаружение установленных кошельков по EIP-6963
+ *
+ * Вместо проверки глобального `window.ethereum.isMetaMask` (флаг, который перехватывают или
+ * перезаписывают другие расширения — Rabby, OKX, Trust, Binance Wallet и т.д.) сервис слушает событие
+ * `eip6963:announceProvider`, складывает объявленные провайдеры в реестр {@link useWalletProvidersStore}
+ * и позволяет выбрать провайдер, с которым будут работать хуки подключения.
+ *
+ * @module eip6963ProviderDiscovery
+ * @category Services
+ * @see {@link https://eips.ethereum.org/EIPS/eip-6963 EIP-6963}
+ * @example
+ *   startProviderDiscovery();
+ *   const detail = await findMetaMaskProvider();
+ *   const provider = getActiveProvider();
+ */
+
+import { METAMASK_RDNS, PROVIDER_DISCOVERY_TIMEOUT_MS } from '@/constants/connection';
+import log from '@/log';
+import {
+    selectActiveProvider,
+    selectMetaMaskProvider,
+    useWalletProvidersStore,
+} from '@/stores/useWalletProvidersStore';
+import { useWalletStore } from '@/stores/useWalletStore';
+
+/**
+ * @description Аргументы запроса к провайдеру (EIP-1193)
+ */
+export interface EIP1193RequestArguments {
+    method: string;
+    params?: readonly unknown[] | Record<string, unknown>;
+}
+
+/**
+ * @description Обработчик события провайдера: состав аргументов зависит от события и проверяется в обработчике
+ */
+export type EIP1193EventListener = (...args: unknown[]) => void;
+
+/**
+ * @description Минимальный интерфейс провайдера EIP-1193, используемый в приложении
+ */
+export interface EIP1193Provider {
+    isMetaMask?: boolean;
+    request: <T = unknown>(args: EIP1193RequestArguments) => Promise<T>;
+    on?: (event: string, listener: EIP1193EventListener) => void;
+    removeListener?: (event: string, listener: EIP1193EventListener) => void;
+    // Экспериментальное API MetaMask: проверка разблокировки без всплывающего окна
+    _metamask?: {
+        isUnlocked: () => Promise<boolean>;
+    };
+}
+
+/**
+ * @description Информация о кошельке, передаваемая в событии eip6963:announceProvider
+ *
+ * @property {string} uuid - Уникальный (для сессии) идентификатор провайдера
+ * @property {string} name - Человекочитаемое название кошелька
+ * @property {string} icon - Иконка кошелька (data URI)
+ * @property {string} rdns - Идентификатор кошелька в формате reverse-DNS (например, io.metamask)
+ */
+export interface EIP6963ProviderInfo {
+    uuid: string;
+    name: string;
+    icon: string;
+    rdns: string;
+}
+
+/**
+ * @description Объявленный кошелёк: информация и сам провайдер
+ */
+export interface EIP6963ProviderDetail {
+    info: EIP6963ProviderInfo;
+    provider: EIP1193Provider;
+}
+
+export type EIP6963AnnounceProviderEvent = CustomEvent<EIP6963ProviderDetail>;
+
+declare global {
+    interface Window {
+        ethereum?: EIP1193Provider;
+    }
+
+    interface WindowEventMap {
+        'eip6963:announceProvider': EIP6963AnnounceProviderEvent;
+        'eip6963:requestProvider': Event;
+    }
+}
+
+// uuid, под которым в реестр попадает устаревший window.ethereum (кошельки без поддержки EIP-6963)
+export const LEGACY_PROVIDER_UUID = 'legacy-window-ethereum';
+
+let isListening = false;
+
+// Обработчик объявления кошелька
+const handleAnnounceProvider = (event: EIP6963AnnounceProviderEvent): void => {
+    const detail = event.detail;
+
+    if (!detail?.info?.uuid || typeof detail.provider?.request !== 'function') {
+        log.warn('eip6963ProviderDiscovery: получено некорректное объявление кошелька.', detail);
+        return;
+    }
+
+    log.debug(`eip6963ProviderDiscovery: объявлен кошелёк "${detail.info.name}" (${detail.info.rdns}).`);
+    useWalletProvidersStore.getState().registerProvider(Object.freeze({ ...detail }));
+
+    if (detail.info.rdns === METAMASK_RDNS) {
+        useWalletStore.getState().setState({ isMetaMaskAvailable: true });
+    }
+};
+
+/**
+ * Запускает прослушивание объявлений кошельков и отправляет запрос eip6963:requestProvider.
+ * Повторный вызов не добавляет второй обработчик, а лишь повторяет запрос.
+ * @returns {void}
+ */
+export const startProviderDiscovery = (): void => {
+    if (typeof window === 'undefined') {
+        return;
+    }
+
+    if (!isListening) {
+        window.addEventListener('eip6963:announceProvider', handleAnnounceProvider);
+        isListening = true;
+        log.debug('eip6963ProviderDiscovery: начато прослушивание eip6963:announceProvider.');
+    }
+
+    window.dispatchEvent(new Event('eip6963:requestProvider'));
+};
+
+/**
+ * Останавливает прослушивание объявлений кошельков (реестр при этом не очищается)
+ * @returns {void}
+ */
+export const stopProviderDiscovery = (): void => {
+    if (typeof window === 'undefined' || !isListening) {
+        return;
+    }
+
+    window.removeEventListener('eip6963:announceProvider', handleAnnounceProvider);
+    isListening = false;
+    log.debug('eip6963ProviderDiscovery: прослушивание eip6963:announceProvider остановлено.');
+};
+
+/**
+ * Запрашивает объявления кошельков и ожидает ответы в течение заданного времени.
+ * Если ни один кошелёк не объявил себя, а window.ethereum помечен как MetaMask (старые версии
+ * расширения без поддержки EIP-6963), он регистрируется в реестре как запасной вариант.
+ * @param {number} [timeoutMs] - время ожидания объявлений, мс
+ * @returns {Promise<EIP6963ProviderDetail[]>} список объявленных кошельков
+ */
+export const discoverProviders = async (
+    timeoutMs: number = PROVIDER_DISCOVERY_TIMEOUT_MS,
+): Promise<EIP6963ProviderDetail[]> => {
+    if (typeof window === 'undefined') {
+        return [];
+    }
+
+    startProviderDiscovery();
+    await new Promise((resolve) => setTimeout(resolve, timeoutMs));
+
+    const { providers, registerProvider } = useWalletProvidersStore.getState();
+
+    if (Object.keys(providers).length === 0 && window.ethereum?.isMetaMask) {
+        log.warn('eip6963ProviderDiscovery: кошельки не объявлены, используется устаревший window.ethereum.');
+        registerProvider({
+            info: { uuid: LEGACY_PROVIDER_UUID, name: 'MetaMask', icon: '', rdns: METAMASK_RDNS },
+            provider: window.ethereum,
+        });
+    }
+
+    const result = Object.values(useWalletProvidersStore.getState().providers);
+    log.debug(`eip6963ProviderDiscovery: обнаружено кошельков: ${result.length}.`);
+    return result;
+};
+
+/**
+ * Ищет MetaMask среди объявленных кошельков и, если он найден, делает его выбранным провайдером
+ * @param {number} [timeoutMs] - время ожидания объявлений, мс
+ * @returns {Promise<EIP6963ProviderDetail | null>} описание MetaMask или null
+ */
+export const findMetaMaskProvider = async (
+    timeoutMs?: number,
+): Promise<EIP6963ProviderDetail | null> => {
+    await discoverProviders(timeoutMs);
+
+    const state = useWalletProvidersStore.getState();
+    const metaMask = selectMetaMaskProvider(state);
+
+    if (metaMask && state.selectedUuid !== metaMask.info.uuid) {
+        state.selectProvider(metaMask.info.uuid);
+    }
+
+    return metaMask;
+};
+
+/**
+ * Возвращает выбранный провайдер EIP-1193 (или null, если провайдер ещё не выбран)
+ * @returns {EIP1193Provider | null}
+ */
+export const getActiveProvider = (): EIP1193Provider | null =>
+    selectActiveProvider(useWalletProvidersStore.getState());
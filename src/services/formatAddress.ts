@@ -0,0 +1,15 @@
+// Функция сокращённого представления адреса кошелька [★☆☆☆☆]
+
+/**
+ * Сокращает адрес кошелька до начала и конца (для кнопок и подписей с ограниченной шириной)
+ * @param {string} address - адрес (0x и 40 шестнадцатеричных символов)
+ * @param {number} [chars=4] - количество символов адреса, сохраняемых в начале (после 0x) и в конце
+ * @returns {string} сокращённый адрес или исходная строка, если она и так короткая
+ * @example
+   shortenAddress('0x8ba1f109551bD432803012645Ac136ddd64DBA72') // "0x8ba1…BA72"
+ */
+export const shortenAddress = (address: string, chars: number = 4): string => {
+    if (address.length <= chars * 2 + 3) return address;
+
+    return `${address.slice(0, chars + 2)}…${address.slice(-chars)}`;
+};
@@ -0,0 +1,55 @@
+// Сервис построения identicon (узнаваемой картинки) по адресу кошелька [★★☆☆☆]
+
+/**
+ * createIdenticon - по адресу кошелька детерминированно строит симметричный узор 5×5 и цвета
+ * (в духе blockies, без внешних зависимостей). Один и тот же адрес всегда даёт одну и ту же картинку,
+ * а регистр букв (checksum) на неё не влияет.
+ * @module identicon
+ * @category Services
+ * @example
+ *   const { cells, color, background } = createIdenticon('0x8ba1f109551bD432803012645Ac136ddd64DBA72');
+ */
+
+// Размер узора (клеток по каждой стороне)
+export const IDENTICON_SIZE = 5;
+
+/**
+ * @description Узор identicon
+ *
+ * @property {boolean[][]} cells      - Закрашенные клетки (строки сверху вниз, узор симметричен по вертикальной оси)
+ * @property {string}      color      - Цвет закрашенных клеток (hsl)
+ * @property {string}      background - Цвет фона (hsl)
+ */
+export interface Identicon {
+    cells: boolean[][];
+    color: string;
+    background: string;
+}
+
+// Байты адреса без префикса 0x (недостающие заменяются нулями)
+const addressBytes = (address: string): number[] => {
+    const hex = address.toLowerCase().replace(/^0x/, '').padEnd(40, '0');
+    return Array.from({ length: hex.length / 2 }, (_, index) => parseInt(hex.slice(index * 2, index * 2 + 2), 16) || 0);
+};
+
+/**
+ * Строит узор и цвета identicon по адресу
+ * @param {string} address - адрес кошелька
+ * @returns {Identicon} узор и цвета
+ */
+export const createIdenticon = (address: string): Identicon => {
+    const bytes = addressBytes(address);
+    const hue = Math.round(((bytes[0] << 8) | bytes[1]) / 0xffff * 360);
+    const half = Math.ceil(IDENTICON_SIZE / 2);
+
+    const cells = Array.from({ length: IDENTICON_SIZE }, (_, row) => {
+        const left = Array.from({ length: half }, (_, column) => bytes[2 + row * half + column] % 2 === 0);
+        return [...left, ...left.slice(0, IDENTICON_SIZE - half).reverse()];
+    });
+
+    return {
+        cells,
+        color: `hsl(${hue}, 65%, 45%)`,
+        background: `hsl(${(hue + 180) % 360}, 45%, 92%)`,
+    };
+};
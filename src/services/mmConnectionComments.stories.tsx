@@ -4,37 +4,52 @@ import React from 'react';
 import { Meta, StoryObj } from '@storybook/react';
 import { Select, Space, Typography } from 'antd';
 
-import { mmConnectionComments, MMConnectionPhases, MMConnectionStates } from './mmConnectionComments';
+import { ConnectionPhases, PhaseStatuses } from '@/constants/connectionPhases';
+import { type WalletErrorReason, WalletErrorReasons } from '@/constants/walletErrors';
+import { selectTargetNetwork, useSettingsStore } from '@/stores/useSettingsStore';
+
+import { mmConnectionComments } from './mmConnectionComments';
 
 const { Title, Text, Paragraph } = Typography;
 
-type Phase = keyof typeof MMConnectionPhases;
-type State = keyof typeof MMConnectionStates;
+type Phase = keyof typeof ConnectionPhases;
+type State = keyof typeof PhaseStatuses;
 
-const phases = Object.entries(MMConnectionPhases).map(([key, value]) => ({
+const phases = Object.entries(ConnectionPhases).map(([key, value]) => ({
     label: key,
     value,
 }));
 
-const states = Object.entries(MMConnectionStates).map(([key, value]) => ({
+const states = Object.entries(PhaseStatuses).map(([key, value]) => ({
     label: key,
     value,
 }));
 
+const reasons = [
+    { label: '—', value: '' },
+    ...Object.entries(WalletErrorReasons).map(([key, value]) => ({
+        label: key,
+        value,
+    })),
+];
+
 type Props = {};
 
 const MMConnectionCommentsExample: React.FC<Props> = () => {
-    const [phase, setPhase] = React.useState(MMConnectionPhases.CHECK_IF_INSTALLED);
-    const [state, setState] = React.useState(MMConnectionStates.WAITING);
+    const [phase, setPhase] = React.useState(ConnectionPhases.CHECK_IF_INSTALLED);
+    const [state, setState] = React.useState(PhaseStatuses.WAITING);
+    const [reason, setReason] = React.useState<WalletErrorReason | ''>('');
+
+    const networkName = useSettingsStore((store) => selectTargetNetwork(store).name);
 
-    const { header, comment } = mmConnectionComments(phase, state);
+    const { header, comment } = mmConnectionComments(phase, state, null, { networkName }, reason || null);
 
     return (
         <Space direction="vertical" style={{ width: '100%' }}>
             <Title level={4}>mmConnectionComments</Title>
             <Paragraph>
                 Демонстрация работы функции mmConnectionComments: отображаются заголовок и
-                комментарий для выбранной фазы и состояния.
+                комментарий для выбранной фазы и состояния (для состояния fail — с учётом причины неудачи).
             </Paragraph>
 
             <Space>
@@ -57,6 +72,16 @@ const MMConnectionCommentsExample: React.FC<Props> = () => {
                 />
             </Space>
 
+            <Space>
+                <Text strong>Причина (fail):</Text>
+                <Select
+                    options={reasons}
+                    value={reason}
+                    onChange={(value) => setReason(value)}
+                    style={{ width: 300 }}
+                />
+            </Space>
+
             <div style={{ marginTop: 24 }}>
                 <Paragraph>
                     <Text strong>Заголовок:</Text> {header}
@@ -3,37 +3,28 @@
 /**
  * mmConnectionComments - функция для получения заголовков и комментариев
  * к стадиям подключения MetaMask в зависимости от текущей фазы и состояния.
+ * Тексты фазы берутся по ключу локализации из реестра фаз (i18nKey, обычно mmConnectionPhases.<фаза>).
+ * Для неудачной фазы с известной причиной (WalletErrorReason) комментарий выбирается по причине:
+ * сначала <i18nKey>.reasons.<причина>, затем общий walletErrorReasons.<причина>,
+ * и только потом общий текст состояния fail.
  * Использует локализацию и форматирование времени.
  * @module mmConnectionComments
  * @category Services
  * @example
  *   const { header, comment } = mmConnectionComments('checkIfMetaMaskInstalled', 'success');
+ *   const { comment: failed } = mmConnectionComments('checkIfSiteAuthorized', 'fail', null, undefined, 'userRejected');
  */
 
+import { type ConnectionPhase, type PhaseStatus, PhaseStatuses } from '@/constants/connectionPhases';
+import { type WalletErrorReason } from '@/constants/walletErrors';
 import i18n from '@/i18n';
 import log from '@/log';
+import { getPhaseDefinition } from '@/services/connectionPhaseRegistry';
 
 import { formatDateTime } from './formatDateTime';
 
-// Константы фаз подключения
-export const MMConnectionPhases = {
-    CHECK_IF_INSTALLED: 'checkIfMetaMaskInstalled',
-    CHECK_IF_UNLOCKED: 'checkIfMetaMaskUnlocked',
-    CHECK_IF_CONNECTED_TO_BSC: 'checkIfMetaMaskConnectedToBSC',
-    CHECK_OUT_ACCOUNT: 'checkOutMetaMaskAccount',
-} as const;
-
-export type MMConnectionPhase = typeof MMConnectionPhases[keyof typeof MMConnectionPhases];
-
-// Константы состояний
-export const MMConnectionStates = {
-    WAITING: 'waiting',
-    IN_PROGRESS: 'inprogress',
-    SUCCESS: 'success',
-    FAIL: 'fail',
-} as const;
-
-export type MMConnectionState = typeof MMConnectionStates[keyof typeof MMConnectionStates];
+// Дополнительные значения для подстановки в заголовок и комментарий ({walletsCount}, {networkName} и т.п.)
+export type MMConnectionCommentParams = Record<string, string | number>;
 
 // Тип возвращаемого результата
 export interface MMConnectionCommentResult {
@@ -43,34 +34,53 @@ export interface MMConnectionCommentResult {
 
 /**
  * Возвращает заголовок и комментарий для указанной фазы и состояния
- * @param {MMConnectionPhase} phase - текущая фаза подключения
- * @param {MMConnectionState} state - состояние в рамках фазы
+ * @param {ConnectionPhase} phase - текущая фаза подключения
+ * @param {PhaseStatus} state - состояние в рамках фазы
  * @param {string | null} [formattedTime] - строка с датой/временем для подстановки в комментарий (опционально)
+ * @param {MMConnectionCommentParams} [params] - дополнительные значения для подстановки, например {walletsCount} или {networkName} (опционально)
+ * @param {WalletErrorReason | null} [reason] - причина неудачи фазы (учитывается только для состояния fail)
  * @returns {MMConnectionCommentResult} объект с полями header и comment
  */
 export const mmConnectionComments = (
-    phase: MMConnectionPhase,
-    state: MMConnectionState,
+    phase: ConnectionPhase,
+    state: PhaseStatus,
     formattedTime?: string | null,
+    params?: MMConnectionCommentParams,
+    reason?: WalletErrorReason | null,
 ): MMConnectionCommentResult => {
     // Если передано время, используем его, иначе - текущее
     const formatedNow = formattedTime ?? formatDateTime();
 
     // Логируем входящие параметры
-    log.debug(`mmConnectionComments: вызов с параметрами phase="${phase}", state="${state}", formattedTime="${formattedTime}"`);
+    log.debug(`mmConnectionComments: вызов с параметрами phase="${phase}", state="${state}", formattedTime="${formattedTime}", params=${JSON.stringify(params ?? {})}, reason="${reason ?? ''}"`);
 
-    const phaseTranslations = i18n.t(`mmConnectionPhases.${phase}`, {
+    const phaseTranslations = i18n.t(getPhaseDefinition(phase).i18nKey, {
         returnObjects: true,
     }) as {
         header: string;
         states: Record<string, string>;
+        reasons?: Record<string, string>;
     };
 
-    const header = phaseTranslations?.header ?? '-';
+    let header = phaseTranslations?.header ?? '-';
     let commentTemplate = phaseTranslations?.states?.[state] ?? '';
 
+    // Для неудачной фазы — комментарий по причине (своей для фазы или общий), если он есть
+    if (state === PhaseStatuses.FAIL && reason) {
+        const commonReasonKey = `walletErrorReasons.${reason}`;
+
+        commentTemplate = phaseTranslations?.reasons?.[reason]
+            ?? (i18n.exists(commonReasonKey) ? i18n.t(commonReasonKey) : commentTemplate);
+    }
+
     // Заменяем {formatedNow}, если он есть
-    const comment = commentTemplate.replace('{formatedNow}', formatedNow);
+    let comment = commentTemplate.replace('{formatedNow}', formatedNow);
+
+    // Заменяем дополнительные подстановки
+    Object.entries(params ?? {}).forEach(([key, value]) => {
+        header = header.split(`{${key}}`).join(String(value));
+        comment = comment.split(`{${key}}`).join(String(value));
+    });
 
     return { header, comment };
 };
@@ -0,0 +1,72 @@
+// Сервис реестра сетей: поиск сети, сеть по умолчанию и параметры для добавления сети в кошелёк [★★☆☆☆]
+
+/**
+ * NETWORK_LIST - поддерживаемые сети в порядке отображения.
+ * isNetworkId - проверяет, что значение является идентификатором сети из реестра.
+ * DEFAULT_NETWORK_ID - сеть по умолчанию для окружения (переменная VITE_DEFAULT_NETWORK, например, в .env.development).
+ * findNetworkByChainId - описание сети по chainId (или null, если сеть не поддерживается).
+ * toAddEthereumChainParameter - параметры wallet_addEthereumChain (EIP-3085) для сети (chainId подставляет wagmi).
+ * @module networkRegistry
+ * @category Services
+ * @example
+ *   findNetworkByChainId(97)?.name;                                  // 'BNB Smart Chain Testnet'
+ *   toAddEthereumChainParameter(NETWORK_REGISTRY.opBnbMainnet);      // { chainName: 'opBNB Mainnet', ... }
+ */
+
+import { type AddEthereumChainParameter } from 'viem';
+
+import {
+    FALLBACK_NETWORK_ID,
+    NETWORK_REGISTRY,
+    type NetworkDefinition,
+    type NetworkId,
+} from '@/constants/network';
+import log from '@/log';
+
+export const NETWORK_LIST: readonly NetworkDefinition[] = Object.values(NETWORK_REGISTRY);
+
+/**
+ * Проверяет, что значение является идентификатором сети из реестра
+ * @param {unknown} value - проверяемое значение (например, из переменной окружения или localStorage)
+ * @returns {boolean} true, если сеть есть в реестре
+ */
+export const isNetworkId = (value: unknown): value is NetworkId =>
+    typeof value === 'string' && Object.keys(NETWORK_REGISTRY).includes(value);
+
+/**
+ * Определяет сеть по умолчанию из значения переменной окружения
+ * @param {string | undefined} value - значение VITE_DEFAULT_NETWORK
+ * @returns {NetworkId} сеть из реестра (FALLBACK_NETWORK_ID, если значение не задано или неизвестно)
+ */
+const resolveDefaultNetworkId = (value: string | undefined): NetworkId => {
+    if (value === undefined || value === '') return FALLBACK_NETWORK_ID;
+
+    if (!isNetworkId(value)) {
+        log.warn(`networkRegistry: неизвестная сеть VITE_DEFAULT_NETWORK="${value}", используется "${FALLBACK_NETWORK_ID}".`);
+        return FALLBACK_NETWORK_ID;
+    }
+
+    return value;
+};
+
+export const DEFAULT_NETWORK_ID: NetworkId = resolveDefaultNetworkId(import.meta.env.VITE_DEFAULT_NETWORK);
+
+/**
+ * Описание сети по chainId
+ * @param {number | null} chainId - идентификатор сети
+ * @returns {NetworkDefinition | null} описание сети или null, если сеть не поддерживается приложением
+ */
+export const findNetworkByChainId = (chainId: number | null): NetworkDefinition | null =>
+    NETWORK_LIST.find((network) => network.chainId === chainId) ?? null;
+
+/**
+ * Параметры для wallet_addEthereumChain (EIP-3085), если сеть не добавлена в кошелёк
+ * @param {NetworkDefinition} network - описание сети
+ * @returns {Omit<AddEthereumChainParameter, 'chainId'>} параметры без chainId (его подставляет действие wagmi switchChain)
+ */
+export const toAddEthereumChainParameter = (network: NetworkDefinition): Omit<AddEthereumChainParameter, 'chainId'> => ({
+    chainName: network.name,
+    nativeCurrency: { ...network.nativeCurrency },
+    rpcUrls: [...network.rpcUrls],
+    blockExplorerUrls: [network.explorerUrl],
+});
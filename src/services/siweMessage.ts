@@ -0,0 +1,104 @@
+// Сервис подготовки и проверки сообщения Sign-In with Ethereum (EIP-4361) [★★★☆☆]
+
+/**
+ * buildSiweMessage - формирует сообщение EIP-4361 (домен, адрес, nonce, chain id, время выдачи и срок действия),
+ * которое пользователь подписывает в кошельке (personal_sign).
+ * verifySiweSignature - локально (без обращения к узлу сети) проверяет, что подпись сделана владельцем адреса.
+ * @module siweMessage
+ * @category Services
+ * @see {@link https://eips.ethereum.org/EIPS/eip-4361 EIP-4361: Sign-In with Ethereum}
+ * @example
+ *   const siwe = buildSiweMessage({ address, chainId: 56, statement: t('siwe.statement') });
+ *   const signature = await signMessage(wagmiConfig, { account: siwe.address, message: siwe.message });
+ *   const isValid = await verifySiweSignature(siwe, signature);
+ */
+
+import { type Address, getAddress, type Hex, verifyMessage } from 'viem';
+import { createSiweMessage, generateSiweNonce } from 'viem/siwe';
+
+import { SIWE_SESSION_TTL_MINUTES } from '@/constants/connection';
+import log from '@/log';
+
+/**
+ * @description Параметры сообщения
+ *
+ * @property {string} address      - Адрес аккаунта, который входит в приложение
+ * @property {number} chainId      - Идентификатор сети (EIP-155), в которой выполняется вход
+ * @property {string} [statement]  - Человекочитаемое пояснение, которое кошелёк покажет пользователю
+ * @property {number} [ttlMinutes] - Срок действия сессии, мин (по умолчанию SIWE_SESSION_TTL_MINUTES)
+ */
+export interface SiweMessageParams {
+    address: string;
+    chainId: number;
+    statement?: string;
+    ttlMinutes?: number;
+}
+
+/**
+ * @description Подготовленное сообщение и его ключевые поля
+ */
+export interface SiweMessageData {
+    message: string;
+    address: Address;
+    chainId: number;
+    nonce: string;
+    issuedAt: number;
+    expiresAt: number;
+}
+
+/**
+ * Формирует сообщение EIP-4361 для текущего сайта (домен и URI берутся из window.location)
+ * @param {SiweMessageParams} params - параметры сообщения
+ * @returns {SiweMessageData} текст сообщения и его ключевые поля
+ */
+export const buildSiweMessage = ({
+    address,
+    chainId,
+    statement,
+    ttlMinutes = SIWE_SESSION_TTL_MINUTES,
+}: SiweMessageParams): SiweMessageData => {
+    const checksumAddress = getAddress(address);
+    const nonce = generateSiweNonce();
+    const issuedAt = new Date();
+    const expirationTime = new Date(issuedAt.getTime() + ttlMinutes * 60_000);
+
+    const message = createSiweMessage({
+        domain: window.location.host,
+        address: checksumAddress,
+        statement,
+        uri: window.location.origin,
+        version: '1',
+        chainId,
+        nonce,
+        issuedAt,
+        expirationTime,
+    });
+
+    log.debug(`siweMessage: подготовлено сообщение для ${checksumAddress} (chainId = ${chainId}, nonce = ${nonce}).`);
+
+    return {
+        message,
+        address: checksumAddress,
+        chainId,
+        nonce,
+        issuedAt: issuedAt.getTime(),
+        expiresAt: expirationTime.getTime(),
+    };
+};
+
+/**
+ * Проверяет подпись сообщения EIP-4361 локально (восстановление адреса из подписи)
+ * @param {SiweMessageData} siwe - подписанное сообщение
+ * @param {Hex} signature - подпись, полученная от кошелька
+ * @returns {Promise<boolean>} true — подпись сделана владельцем адреса
+ */
+export const verifySiweSignature = async (siwe: SiweMessageData, signature: Hex): Promise<boolean> => {
+    try {
+        const isValid = await verifyMessage({ address: siwe.address, message: siwe.message, signature });
+        log.debug(`siweMessage: подпись ${isValid ? 'подтверждена' : 'не соответствует адресу'} (${siwe.address}).`);
+        return isValid;
+    } catch (error) {
+        log.error('siweMessage: ошибка при проверке подписи:', error);
+        return false;
+    }
+};
@@ -0,0 +1,159 @@
+// Сервис подготовки транзакции к проверке перед подписью: разбор вызова, симуляция, оценка газа и комиссии [★★★☆☆]
+
+/**
+ * decodeContractCall - разбирает calldata по ABI контракта: имя функции и именованные аргументы (для отображения).
+ * prepareTransactionReview - собирает сведения для окна проверки транзакции перед подписью: calldata вызова
+ * и его разбор по ABI реестра, итог предварительной симуляции (simulateRubasCall), оценка газа (estimateGas)
+ * и цены газа (getGasPrice) через публичный клиент сети, комиссия и итоговая сумма в нативной монете,
+ * баланс аккаунта и признак того, что его хватает на value и комиссию. Если симуляция показала, что вызов
+ * будет отклонён, газ не оценивается (оценка тоже была бы отклонена): комиссия неизвестна. Если газ оценить
+ * не удалось (например, баланса не хватает на value), комиссия тоже неизвестна, а окно проверки всё равно
+ * открывается с предупреждением о нехватке баланса; чтобы узел не отклонил симуляцию по той же причине,
+ * она выполняется с балансом аккаунта, подменённым на value.
+ * @module transactionReview
+ * @category Services
+ * @example
+ *   const review = await prepareTransactionReview({ ...resolveRubasContract(RubasContracts.TOKEN),
+ *       functionName: 'transfer', args: [recipient, amount], account });
+ *   review.fee;                 // 21000000000000n (wei)
+ *   review.isBalanceSufficient; // true
+ */
+
+import {
+    type Abi,
+    type AbiFunction,
+    type AbiParameter,
+    type Address,
+    decodeFunctionData,
+    encodeFunctionData,
+    type EncodeFunctionDataParameters,
+    type Hex,
+} from 'viem';
+import { getPublicClient } from 'wagmi/actions';
+
+import { type RubasContractId } from '@/constants/contracts';
+import log from '@/log';
+import { type DecodedArgument, toDecodedArguments } from '@/services/abiArguments';
+import { type ContractCallRequest, simulateRubasCall, type SimulationResult } from '@/services/contractSimulation';
+import { wagmiConfig } from '@/wagmi';
+
+/**
+ * @description Разобранный вызов контракта
+ *
+ * @property {string}            functionName - Имя функции
+ * @property {DecodedArgument[]} args         - Именованные аргументы
+ */
+export interface DecodedContractCall {
+    functionName: string;
+    args: DecodedArgument[];
+}
+
+/**
+ * @description Сведения о транзакции для проверки перед подписью (суммы — в wei)
+ *
+ * @property {RubasContractId}     contract            - Контракт из реестра RUBAS
+ * @property {Address}             address             - Адрес контракта
+ * @property {number}              chainId             - Сеть транзакции
+ * @property {Address}             account             - Аккаунт, подписывающий транзакцию
+ * @property {Hex}                 data                - Calldata вызова
+ * @property {DecodedContractCall} call                - Вызов, разобранный из calldata по ABI
+ * @property {SimulationResult}    simulation          - Итог предварительной симуляции вызова
+ * @property {bigint}              value               - Передаваемая сумма в нативной монете
+ * @property {bigint | null}       gas                 - Оценка газа (null — вызов будет отклонён или газ не оценён)
+ * @property {bigint}              gasPrice            - Цена газа
+ * @property {bigint | null}       fee                 - Комиссия (gas × gasPrice; null — газ не оценён)
+ * @property {bigint}              total               - Всего к списанию (value + fee)
+ * @property {bigint}              balance             - Баланс аккаунта в нативной монете
+ * @property {boolean}             isBalanceSufficient - Хватает ли баланса на value и комиссию
+ */
+export interface TransactionReview {
+    contract: RubasContractId;
+    address: Address;
+    chainId: number;
+    account: Address;
+    data: Hex;
+    call: DecodedContractCall;
+    simulation: SimulationResult;
+    value: bigint;
+    gas: bigint | null;
+    gasPrice: bigint;
+    fee: bigint | null;
+    total: bigint;
+    balance: bigint;
+    isBalanceSufficient: boolean;
+}
+
+/**
+ * Разбирает calldata по ABI: имя функции и именованные аргументы
+ * @param {Abi} abi - ABI контракта
+ * @param {Hex} data - calldata вызова
+ * @returns {DecodedContractCall} имя функции и аргументы
+ */
+export const decodeContractCall = (abi: Abi, data: Hex): DecodedContractCall => {
+    const { functionName, args = [] } = decodeFunctionData({ abi, data });
+
+    // Параметры функции с тем же селектором (при перегрузке — с тем же числом параметров)
+    const inputs: readonly AbiParameter[] = abi.find((item): item is AbiFunction =>
+        item.type === 'function' && item.name === functionName && item.inputs.length === args.length,
+    )?.inputs ?? [];
+
+    return { functionName, args: toDecodedArguments(inputs, args) };
+};
+
+/**
+ * Собирает сведения о транзакции для проверки перед подписью
+ * @param {ContractCallRequest} request - контракт, вызов и аккаунт
+ * @returns {Promise<TransactionReview>} разобранный вызов, симуляция, газ, комиссия, итог и баланс
+ */
+export const prepareTransactionReview = async (request: ContractCallRequest): Promise<TransactionReview> => {
+    const { id, address, abi, chainId, functionName, args, account, value = 0n } = request;
+    const client = getPublicClient(wagmiConfig, { chainId });
+
+    if (!client) {
+        throw new Error(`Сеть ${chainId} не поддерживается приложением`);
+    }
+
+    const data = encodeFunctionData({ abi, functionName, args } as EncodeFunctionDataParameters);
+    const call = decodeContractCall(abi, data);
+
+    const [gasPrice, balance] = await Promise.all([
+        client.getGasPrice(),
+        client.getBalance({ address: account }),
+    ]);
+
+    // Узел отклоняет вызов с value больше баланса ещё до выполнения контракта; нехватку баланса окно проверки
+    // показывает отдельно, поэтому симуляция проверяет сам вызов
+    const simulation = await simulateRubasCall(
+        request,
+        balance < value ? [{ address: account, balance: value }] : undefined,
+    );
+
+    const gas = simulation.ok
+        ? await client.estimateGas({ account, to: address, data, value }).catch((error: unknown) => {
+            log.warn(`transactionReview: не удалось оценить газ для ${id}.${call.functionName}.`, error);
+            return null;
+        })
+        : null;
+
+    const fee = gas !== null ? gas * gasPrice : null;
+    const total = value + (fee ?? 0n);
+
+    log.debug(`transactionReview: ${id}.${call.functionName} — газ ${gas}, цена газа ${gasPrice}, комиссия ${fee}, баланс ${balance}.`);
+
+    return {
+        contract: id,
+        address,
+        chainId,
+        account,
+        data,
+        call,
+        simulation,
+        value,
+        gas,
+        gasPrice,
+        fee,
+        total,
+        balance,
+        isBalanceSufficient: balance >= total,
+    };
+};
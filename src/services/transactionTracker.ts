@@ -0,0 +1,206 @@
+// Сервис отслеживания транзакции: ожидание квитанции, подсчёт подтверждений и замена транзакции [★★★☆☆]
+
+/**
+ * trackTransaction - отслеживает транзакцию из useTransactionStore до итогового статуса и записывает каждый этап
+ * в хранилище: pending (ожидание квитанции, действие waitForTransactionReceipt с опросом узла), подсчёт подтверждений
+ * по новым блокам, confirmed после TX_REQUIRED_CONFIRMATIONS подтверждений, failed (reverted, таймаут или неподдерживаемая
+ * сеть) или replaced (транзакция заменена в кошельке; заменившая транзакция добавляется в хранилище и отслеживается отдельно).
+ * Запросы идут через публичный клиент wagmi сети транзакции, поэтому кошелёк для отслеживания не нужен.
+ * Ошибка узла временная: запрос повторяется с удваивающейся задержкой, а транзакция остаётся в ожидании.
+ * Отслеживание прерывается через signal; прерванная транзакция остаётся в статусе pending и продолжит отслеживаться
+ * при следующем запуске (например, после перезагрузки страницы).
+ * waitForTransactionOutcome - ждёт, пока транзакция из хранилища получит итоговый статус (само отслеживание ведёт
+ * useTransactionTracking); если транзакция заменена в кошельке, ожидание продолжается по заменившей транзакции.
+ * @module transactionTracker
+ * @category Services
+ * @example
+ *   const controller = new AbortController();
+ *   void trackTransaction(transaction, controller.signal);
+ *   const { status } = await waitForTransactionOutcome(hash, controller.signal); // confirmed или failed
+ */
+
+import { type Hash, type TransactionReceipt, WaitForTransactionReceiptTimeoutError } from 'viem';
+import { getPublicClient } from 'wagmi/actions';
+
+import {
+    TransactionErrors,
+    TransactionStatuses,
+    TX_POLLING_INTERVAL_MS,
+    TX_RECEIPT_TIMEOUT_MS,
+    TX_RPC_RETRY_BACKOFF_MS,
+    TX_RPC_RETRY_MAX_BACKOFF_MS,
+} from '@/constants/transactions';
+import log from '@/log';
+import { isAbortError, withAbortSignal } from '@/services/abortableRequest';
+import { isTransactionActive, type TransactionRecord, useTransactionStore } from '@/stores/useTransactionStore';
+import { wagmiConfig } from '@/wagmi';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Транзакция с указанным хешем (в списках всех аккаунтов и сетей)
+const findTransaction = (hash: Hash): TransactionRecord | undefined =>
+    Object.values(useTransactionStore.getState().transactions).flat().find((transaction) => transaction.hash === hash);
+
+// Выполняет запрос к узлу, повторяя его после ошибки узла с удваивающейся задержкой, пока транзакция отслеживается.
+// Прерывание и таймаут ожидания квитанции не повторяются; null — транзакция перестала отслеживаться (например, удалена)
+const withRpcRetry = async <T>(hash: Hash, request: () => Promise<T>, signal?: AbortSignal): Promise<T | null> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await withAbortSignal(request(), signal);
+        } catch (error) {
+            if (isAbortError(error) || error instanceof WaitForTransactionReceiptTimeoutError) throw error;
+
+            const transaction = findTransaction(hash);
+
+            if (!transaction || !isTransactionActive(transaction)) {
+                log.debug(`transactionTracker: ${hash} больше не отслеживается, повтор запроса не нужен.`);
+                return null;
+            }
+
+            const delay = Math.min(TX_RPC_RETRY_BACKOFF_MS * 2 ** attempt, TX_RPC_RETRY_MAX_BACKOFF_MS);
+            log.warn(`transactionTracker: ошибка узла при отслеживании ${hash}, повтор через ${delay} мс.`, error);
+            await withAbortSignal(sleep(delay), signal);
+        }
+    }
+};
+
+/**
+ * Отслеживает транзакцию до итогового статуса (confirmed, failed или replaced)
+ * @param {TransactionRecord} transaction - транзакция из хранилища
+ * @param {AbortSignal} [signal] - сигнал прерывания отслеживания
+ * @returns {Promise<void>} завершается, когда транзакция получила итоговый статус или отслеживание прервано
+ */
+export const trackTransaction = async (transaction: TransactionRecord, signal?: AbortSignal): Promise<void> => {
+    const { hash, chainId, requiredConfirmations } = transaction;
+    const { addTransaction, updateTransaction } = useTransactionStore.getState();
+    const client = getPublicClient(wagmiConfig, { chainId });
+
+    if (!client) {
+        log.warn(`transactionTracker: сеть ${chainId} транзакции ${hash} не поддерживается приложением.`);
+        updateTransaction(hash, { status: TransactionStatuses.FAILED, error: TransactionErrors.UNSUPPORTED_CHAIN });
+        return;
+    }
+
+    if (transaction.status === TransactionStatuses.SUBMITTED) {
+        updateTransaction(hash, { status: TransactionStatuses.PENDING });
+    }
+
+    log.debug(`transactionTracker: отслеживание ${hash} в сети ${chainId} (нужно подтверждений: ${requiredConfirmations}).`);
+
+    try {
+        let isReplaced = false;
+        // Срок ожидания квитанции общий для всех повторов после ошибок узла
+        const deadline = Date.now() + TX_RECEIPT_TIMEOUT_MS;
+
+        const receipt: TransactionReceipt | null = await withRpcRetry(hash, () => {
+            const timeout = deadline - Date.now();
+            if (timeout <= 0) throw new WaitForTransactionReceiptTimeoutError({ hash });
+
+            return client.waitForTransactionReceipt({
+                hash,
+                pollingInterval: TX_POLLING_INTERVAL_MS,
+                timeout,
+                onReplaced: ({ reason, transaction: replacement }) => {
+                    isReplaced = true;
+                    log.debug(`transactionTracker: ${hash} заменена (${reason}) транзакцией ${replacement.hash}.`);
+                    updateTransaction(hash, { status: TransactionStatuses.REPLACED, replacedBy: replacement.hash });
+                    addTransaction({
+                        hash: replacement.hash,
+                        account: transaction.account,
+                        chainId,
+                        description: transaction.description,
+                    });
+                },
+            });
+        }, signal);
+
+        // Заменившая транзакция отслеживается отдельно (она уже добавлена в хранилище)
+        if (!receipt || isReplaced) return;
+
+        const blockNumber = receipt.blockNumber.toString();
+
+        if (receipt.status === 'reverted') {
+            log.warn(`transactionTracker: ${hash} отклонена сетью (reverted) в блоке ${blockNumber}.`);
+            updateTransaction(hash, { status: TransactionStatuses.FAILED, blockNumber, error: TransactionErrors.REVERTED });
+            return;
+        }
+
+        // Подтверждения считаются по новым блокам: блок транзакции — первое подтверждение
+        for (;;) {
+            const latest = await withRpcRetry(hash, () => client.getBlockNumber({ cacheTime: 0 }), signal);
+            if (latest === null) return;
+
+            const confirmations = Math.max(Number(latest - receipt.blockNumber) + 1, 1);
+
+            if (confirmations >= requiredConfirmations) {
+                log.debug(`transactionTracker: ${hash} подтверждена (${confirmations} подтверждений).`);
+                updateTransaction(hash, {
+                    status: TransactionStatuses.CONFIRMED,
+                    blockNumber,
+                    confirmations: requiredConfirmations,
+                });
+                return;
+            }
+
+            updateTransaction(hash, { blockNumber, confirmations });
+            await withAbortSignal(sleep(TX_POLLING_INTERVAL_MS), signal);
+        }
+    } catch (error) {
+        if (isAbortError(error)) {
+            log.debug(`transactionTracker: отслеживание ${hash} прервано, транзакция остаётся в ожидании.`);
+            return;
+        }
+
+        if (error instanceof WaitForTransactionReceiptTimeoutError) {
+            log.warn(`transactionTracker: ${hash} не появилась в блоке за ${TX_RECEIPT_TIMEOUT_MS} мс.`, error);
+            updateTransaction(hash, { status: TransactionStatuses.FAILED, error: TransactionErrors.TIMEOUT });
+            return;
+        }
+
+        // Итог транзакции неизвестен: она остаётся в ожидании и продолжит отслеживаться при следующем запуске
+        log.error(`transactionTracker: отслеживание ${hash} остановлено из-за непредвиденной ошибки.`, error);
+    }
+};
+
+/**
+ * Ждёт итогового статуса транзакции (confirmed или failed), переходя по цепочке замен
+ * @param {Hash} hash - хеш транзакции из хранилища
+ * @param {AbortSignal} [signal] - сигнал прерывания ожидания
+ * @returns {Promise<TransactionRecord>} транзакция (последняя в цепочке замен) с итоговым статусом
+ * @throws {Error} транзакция отсутствует в хранилище; AbortError — ожидание прервано
+ */
+export const waitForTransactionOutcome = (hash: Hash, signal?: AbortSignal): Promise<TransactionRecord> => {
+    const outcome = new Promise<TransactionRecord>((resolve, reject) => {
+        let currentHash = hash;
+
+        const check = (): boolean => {
+            const transaction = findTransaction(currentHash);
+
+            if (!transaction) {
+                reject(new Error(`Транзакция ${currentHash} не найдена в хранилище`));
+                return true;
+            }
+
+            if (transaction.status === TransactionStatuses.REPLACED && transaction.replacedBy) {
+                log.debug(`transactionTracker: ожидание ${currentHash} продолжается по ${transaction.replacedBy}.`);
+                currentHash = transaction.replacedBy;
+                return check();
+            }
+
+            if (isTransactionActive(transaction)) return false;
+
+            resolve(transaction);
+            return true;
+        };
+
+        if (check()) return;
+
+        const unsubscribe = useTransactionStore.subscribe(() => {
+            if (check()) unsubscribe();
+        });
+
+        signal?.addEventListener('abort', unsubscribe, { once: true });
+    });
+
+    return withAbortSignal(outcome, signal);
+};
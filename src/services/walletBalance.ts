@@ -0,0 +1,45 @@
+// Сервис получения баланса нативной монеты (BNB) через провайдер кошелька [★★☆☆☆]
+
+/**
+ * getNativeBalance - запрашивает баланс адреса в нативной монете сети (eth_getBalance) у провайдера кошелька,
+ * то есть в той сети, которая сейчас выбрана в кошельке.
+ * formatNativeBalance - представляет баланс (в wei) строкой с ограниченным числом знаков после запятой.
+ * @module walletBalance
+ * @category Services
+ * @example
+ *   const balance = await getNativeBalance(provider, account); // 1500000000000000000n
+ *   formatNativeBalance(balance); // "1.5"
+ */
+
+import { formatEther, type Hex, hexToBigInt } from 'viem';
+
+import log from '@/log';
+import { type EIP1193Provider } from '@/services/eip6963ProviderDiscovery';
+
+// Количество знаков после запятой при отображении баланса
+const BALANCE_FRACTION_DIGITS = 4;
+
+/**
+ * Запрашивает баланс адреса в нативной монете выбранной в кошельке сети
+ * @param {EIP1193Provider} provider - провайдер кошелька
+ * @param {string} address - адрес
+ * @returns {Promise<bigint>} баланс в wei
+ */
+export const getNativeBalance = async (provider: EIP1193Provider, address: string): Promise<bigint> => {
+    const balance = await provider.request<Hex>({ method: 'eth_getBalance', params: [address, 'latest'] });
+
+    log.debug(`walletBalance: баланс ${address} = ${balance}.`);
+    return hexToBigInt(balance);
+};
+
+/**
+ * Представляет баланс строкой (не более BALANCE_FRACTION_DIGITS знаков после запятой, без лишних нулей)
+ * @param {bigint} balance - баланс в wei
+ * @returns {string} баланс в монетах (например, "1.5" или "0.0012")
+ */
+export const formatNativeBalance = (balance: bigint): string => {
+    const [whole, fraction = ''] = formatEther(balance).split('.');
+    const trimmed = fraction.slice(0, BALANCE_FRACTION_DIGITS).replace(/0+$/, '');
+
+    return trimmed ? `${whole}.${trimmed}` : whole;
+};
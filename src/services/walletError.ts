@@ -0,0 +1,93 @@
+// Сервис классификации ошибок кошелька по кодам EIP-1193 / JSON-RPC [★★★☆☆]
+
+/**
+ * WalletError - ошибка кошелька с причиной (WalletErrorReason) и исходным кодом провайдера.
+ * classifyWalletError - приводит любую перехваченную ошибку (ответ провайдера, ошибки viem/wagmi с цепочкой
+ * cause, AbortError) к WalletError, чтобы фазы подключения сообщали причину неудачи, а не только false.
+ * @module walletError
+ * @category Services
+ * @see {@link https://eips.ethereum.org/EIPS/eip-1193#provider-errors EIP-1193: Provider Errors}
+ * @example
+ *   try {
+ *       await connect(wagmiConfig, { connector });
+ *   } catch (error) {
+ *       const { reason } = classifyWalletError(error); // например, 'userRejected' для кода 4001
+ *   }
+ */
+
+import {
+    WALLET_ERROR_CODE_REASONS,
+    type WalletErrorReason,
+    WalletErrorReasons,
+} from '@/constants/walletErrors';
+import { isAbortError } from '@/services/abortableRequest';
+
+// Глубина обхода цепочки cause (viem и wagmi оборачивают ответ провайдера в несколько ошибок)
+const MAX_CAUSE_DEPTH = 10;
+
+/**
+ * @description Ошибка кошелька с определённой причиной
+ *
+ * @property {WalletErrorReason} reason - Причина ошибки
+ * @property {number | null}     code   - Код ошибки провайдера (если был)
+ * @property {unknown}           cause  - Исходная ошибка
+ */
+export class WalletError extends Error {
+    readonly reason: WalletErrorReason;
+    readonly code: number | null;
+    readonly cause: unknown;
+
+    constructor(reason: WalletErrorReason, message: string, options: { code?: number | null; cause?: unknown } = {}) {
+        super(message);
+        this.name = 'WalletError';
+        this.reason = reason;
+        this.code = options.code ?? null;
+        this.cause = options.cause;
+    }
+}
+
+/**
+ * Ищет код ошибки провайдера в самой ошибке и в цепочке cause (а также в data.originalError, как у MetaMask)
+ * @param {unknown} error - перехваченная ошибка
+ * @returns {number | null} первый известный код или null
+ */
+export const getWalletErrorCode = (error: unknown): number | null => {
+    let current: unknown = error;
+
+    for (let depth = 0; current && depth < MAX_CAUSE_DEPTH; depth++) {
+        const { code, data, cause } = current as {
+            code?: unknown;
+            data?: { originalError?: { code?: unknown } };
+            cause?: unknown;
+        };
+
+        if (typeof code === 'number' && code in WALLET_ERROR_CODE_REASONS) return code;
+
+        const originalCode = data?.originalError?.code;
+        if (typeof originalCode === 'number' && originalCode in WALLET_ERROR_CODE_REASONS) return originalCode;
+
+        current = cause;
+    }
+
+    return null;
+};
+
+/**
+ * Определяет причину ошибки кошелька
+ * @param {unknown} error - перехваченная ошибка
+ * @returns {WalletError} ошибка с причиной (исходная ошибка сохраняется в cause)
+ */
+export const classifyWalletError = (error: unknown): WalletError => {
+    if (error instanceof WalletError) return error;
+
+    const message = (error as { message?: string } | null)?.message ?? String(error);
+
+    if (isAbortError(error)) {
+        return new WalletError(WalletErrorReasons.CANCELLED, message, { cause: error });
+    }
+
+    const code = getWalletErrorCode(error);
+    const reason = code === null ? WalletErrorReasons.UNKNOWN : WALLET_ERROR_CODE_REASONS[code];
+
+    return new WalletError(reason, message, { code, cause: error });
+};
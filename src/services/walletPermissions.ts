@@ -0,0 +1,101 @@
+// Сервис проверки разблокировки кошелька и разрешений сайта (EIP-2255) [★★★☆☆]
+
+/**
+ * getUnlockState - без всплывающего окна узнаёт, разблокирован ли MetaMask (_metamask.isUnlocked).
+ * hasAccountsPermission - без всплывающего окна проверяет, выдано ли сайту разрешение eth_accounts
+ * (wallet_getPermissions, а если метод не поддерживается — eth_accounts).
+ * requestAccountsPermission - запрашивает разрешение eth_accounts (окно MetaMask с выбором аккаунтов).
+ * revokeAccountsPermission - отзывает разрешение eth_accounts при отключении (wallet_revokePermissions),
+ * если кошелёк поддерживает этот метод.
+ * @module walletPermissions
+ * @category Services
+ * @see {@link https://eips.ethereum.org/EIPS/eip-2255 EIP-2255: Wallet Permissions System}
+ * @example
+ *   if (!(await hasAccountsPermission(provider))) {
+ *       await requestAccountsPermission(provider);
+ *   }
+ */
+
+import log from '@/log';
+import { type EIP1193Provider } from '@/services/eip6963ProviderDiscovery';
+import { classifyWalletError } from '@/services/walletError';
+
+// Разрешение на доступ к аккаунтам
+const ACCOUNTS_PERMISSION = 'eth_accounts';
+
+/**
+ * @description Разрешение сайта в кошельке (ответ wallet_getPermissions / wallet_requestPermissions)
+ */
+export interface WalletPermission {
+    parentCapability: string;
+    invoker?: string;
+    caveats?: Array<{ type: string; value: unknown }>;
+}
+
+/**
+ * Узнаёт, разблокирован ли MetaMask, не открывая окно кошелька
+ * @param {EIP1193Provider} provider - провайдер MetaMask
+ * @returns {Promise<boolean | null>} true/false или null, если кошелёк не сообщает своё состояние
+ */
+export const getUnlockState = async (provider: EIP1193Provider): Promise<boolean | null> => {
+    if (typeof provider._metamask?.isUnlocked !== 'function') {
+        log.debug('walletPermissions: провайдер не поддерживает _metamask.isUnlocked.');
+        return null;
+    }
+
+    return provider._metamask.isUnlocked();
+};
+
+/**
+ * Проверяет, выдано ли сайту разрешение eth_accounts, не открывая окно кошелька
+ * @param {EIP1193Provider} provider - провайдер кошелька
+ * @returns {Promise<boolean>} true — сайт авторизован
+ */
+export const hasAccountsPermission = async (provider: EIP1193Provider): Promise<boolean> => {
+    try {
+        const permissions = await provider.request<WalletPermission[]>({ method: 'wallet_getPermissions' });
+        return permissions.some(({ parentCapability }) => parentCapability === ACCOUNTS_PERMISSION);
+    } catch (error) {
+        log.debug('walletPermissions: wallet_getPermissions недоступен, проверяем eth_accounts.', error);
+    }
+
+    const accounts = await provider.request<string[]>({ method: 'eth_accounts' });
+    return accounts.length > 0;
+};
+
+/**
+ * Запрашивает у пользователя разрешение eth_accounts (всплывающее окно MetaMask)
+ * @param {EIP1193Provider} provider - провайдер кошелька
+ * @returns {Promise<WalletPermission[]>} выданные разрешения
+ */
+export const requestAccountsPermission = async (provider: EIP1193Provider): Promise<WalletPermission[]> => {
+    log.debug('walletPermissions: запрос разрешения eth_accounts.');
+
+    return provider.request<WalletPermission[]>({
+        method: 'wallet_requestPermissions',
+        params: [{ [ACCOUNTS_PERMISSION]: {} }],
+    });
+};
+
+/**
+ * Отзывает у сайта разрешение eth_accounts (без всплывающего окна).
+ * Метод wallet_revokePermissions поддерживают не все кошельки: в этом случае разрешение остаётся в кошельке,
+ * а отключение выполняется только на стороне сайта.
+ * @param {EIP1193Provider} provider - провайдер кошелька
+ * @returns {Promise<boolean>} true — разрешение отозвано, false — кошелёк не поддерживает отзыв или отказал
+ */
+export const revokeAccountsPermission = async (provider: EIP1193Provider): Promise<boolean> => {
+    try {
+        await provider.request({
+            method: 'wallet_revokePermissions',
+            params: [{ [ACCOUNTS_PERMISSION]: {} }],
+        });
+
+        log.debug('walletPermissions: разрешение eth_accounts отозвано.');
+        return true;
+    } catch (error) {
+        const { reason } = classifyWalletError(error);
+        log.debug(`walletPermissions: не удалось отозвать разрешение eth_accounts (${reason}).`, error);
+        return false;
+    }
+};
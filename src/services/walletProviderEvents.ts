@@ -0,0 +1,119 @@
+// Сервис подписки на события провайдера EIP-1193 (accountsChanged, chainChanged, connect, disconnect) [★★★☆☆]
+
+/**
+ * subscribeToProviderEvents - подписывает переданные обработчики на события провайдера кошелька
+ * и возвращает функцию отписки. Сам сервис состояние не меняет: что делать с событием,
+ * решает вызывающая сторона (см. хук useWalletProviderEvents).
+ * @module walletProviderEvents
+ * @category Services
+ * @see {@link https://eips.ethereum.org/EIPS/eip-1193#events-1 EIP-1193 Events}
+ * @example
+ *   const unsubscribe = subscribeToProviderEvents(provider, {
+ *       onAccountsChanged: (accounts) => console.log(accounts),
+ *   });
+ */
+
+import log from '@/log';
+import { type EIP1193EventListener, type EIP1193Provider } from '@/services/eip6963ProviderDiscovery';
+
+/**
+ * @description Данные события connect
+ */
+export interface ProviderConnectInfo {
+    chainId: string;
+}
+
+/**
+ * @description Ошибка, передаваемая в событии disconnect
+ */
+export interface ProviderRpcError {
+    code: number;
+    message: string;
+}
+
+/**
+ * @description Обработчики событий провайдера (все необязательные)
+ *
+ * @property {Function} onAccountsChanged - Смена списка доступных аккаунтов (пустой список — доступ утрачен)
+ * @property {Function} onChainChanged    - Смена сети (chainId в шестнадцатеричном виде)
+ * @property {Function} onConnect         - Провайдер подключился к сети
+ * @property {Function} onDisconnect      - Провайдер отключился от всех сетей
+ */
+export interface ProviderEventHandlers {
+    onAccountsChanged?: (accounts: string[]) => void;
+    onChainChanged?: (chainIdHex: string) => void;
+    onConnect?: (info: ProviderConnectInfo) => void;
+    onDisconnect?: (error: ProviderRpcError) => void;
+}
+
+// Проверки данных событий: провайдер передаёт их без типов, неожиданные данные не доходят до обработчиков
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isConnectInfo = (value: unknown): value is ProviderConnectInfo =>
+    typeof (value as Partial<ProviderConnectInfo> | null)?.chainId === 'string';
+
+const isProviderRpcError = (value: unknown): value is ProviderRpcError =>
+    typeof (value as Partial<ProviderRpcError> | null)?.code === 'number'
+    && typeof (value as Partial<ProviderRpcError>).message === 'string';
+
+/**
+ * Оборачивает обработчик события: вызывает его, только если данные события прошли проверку
+ * @param {string} event - имя события (для журнала)
+ * @param {Function} isPayload - проверка данных события
+ * @param {Function} [handler] - обработчик
+ * @returns {EIP1193EventListener | undefined} обработчик для провайдера (undefined, если обработчик не передан)
+ */
+const guardListener = <T>(
+    event: string,
+    isPayload: (value: unknown) => value is T,
+    handler?: (payload: T) => void,
+): EIP1193EventListener | undefined => {
+    if (!handler) return undefined;
+
+    return (payload) => {
+        if (!isPayload(payload)) {
+            log.warn(`walletProviderEvents: неожиданные данные события ${event}, событие пропущено.`, payload);
+            return;
+        }
+
+        handler(payload);
+    };
+};
+
+/**
+ * Подписывает обработчики на события провайдера
+ * @param {EIP1193Provider} provider - провайдер кошелька
+ * @param {ProviderEventHandlers} handlers - обработчики событий
+ * @returns {() => void} функция отписки от всех событий
+ */
+export const subscribeToProviderEvents = (
+    provider: EIP1193Provider,
+    handlers: ProviderEventHandlers,
+): (() => void) => {
+    if (typeof provider.on !== 'function') {
+        log.warn('walletProviderEvents: провайдер не поддерживает подписку на события.');
+        return () => {};
+    }
+
+    const listeners: Array<[string, EIP1193EventListener]> = [];
+
+    const add = (event: string, listener?: EIP1193EventListener) => {
+        if (!listener) return;
+
+        provider.on!(event, listener);
+        listeners.push([event, listener]);
+    };
+
+    add('accountsChanged', guardListener('accountsChanged', isStringArray, handlers.onAccountsChanged));
+    add('chainChanged', guardListener('chainChanged', (value): value is string => typeof value === 'string', handlers.onChainChanged));
+    add('connect', guardListener('connect', isConnectInfo, handlers.onConnect));
+    add('disconnect', guardListener('disconnect', isProviderRpcError, handlers.onDisconnect));
+
+    log.debug(`walletProviderEvents: подписка на события (${listeners.map(([event]) => event).join(', ')}).`);
+
+    return () => {
+        listeners.forEach(([event, listener]) => provider.removeListener?.(event, listener));
+        log.debug('walletProviderEvents: подписка на события провайдера снята.');
+    };
+};
@@ -0,0 +1,80 @@
+// Хранилище запроса выбора аккаунта на фазе получения аккаунта (zustand) [★★★☆☆]
+
+import { create } from 'zustand';
+
+import log from '@/log';
+
+/**
+ * @description Запрос выбора аккаунта
+ *
+ * @property {string[]}      accounts  - Авторизованные аккаунты, среди которых выбирает пользователь
+ * @property {string | null} preferred - Аккаунт, выбранный в прошлый раз (выделяется в списке)
+ */
+export interface AccountSelectionRequest {
+    accounts: string[];
+    preferred: string | null;
+}
+
+export interface AccountSelectionState {
+    request: AccountSelectionRequest | null;
+}
+
+interface AccountSelectionStore extends AccountSelectionState {
+    /**
+     * Показывает список аккаунтов и ждёт выбора пользователя.
+     * Возвращает выбранный адрес или null, если выбор прерван (signal или новый запрос)
+     */
+    requestSelection: (request: AccountSelectionRequest, signal?: AbortSignal) => Promise<string | null>;
+
+    /**
+     * Выбор аккаунта пользователем (завершает текущий запрос)
+     */
+    choose: (account: string) => void;
+}
+
+// Завершение ожидающего запроса (один запрос в каждый момент времени)
+let resolvePending: ((account: string | null) => void) | null = null;
+
+export const useAccountSelectionStore = create<AccountSelectionStore>((set) => ({
+    request: null,
+
+    requestSelection: (request, signal) => {
+        resolvePending?.(null);
+        log.debug(`[AccountSelection] Запрос выбора из ${request.accounts.length} аккаунтов`);
+
+        return new Promise((resolve) => {
+            const finish = (account: string | null) => {
+                if (resolvePending !== finish) return;
+
+                resolvePending = null;
+                signal?.removeEventListener('abort', onAbort);
+                set({ request: null });
+                resolve(account);
+            };
+            const onAbort = () => {
+                log.debug('[AccountSelection] Выбор аккаунта прерван');
+                finish(null);
+            };
+
+            resolvePending = finish;
+            set({ request });
+
+            if (signal?.aborted) {
+                onAbort();
+                return;
+            }
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    },
+
+    choose: (account) => {
+        if (!resolvePending) {
+            log.warn(`[AccountSelection] Аккаунт ${account} выбран без запроса выбора`);
+            return;
+        }
+
+        log.debug(`[AccountSelection] Выбран аккаунт ${account}`);
+        resolvePending(account);
+    },
+}));
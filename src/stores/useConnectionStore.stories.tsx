@@ -6,6 +6,7 @@ import { Button, Divider, message, Space, Tag, Typography } from 'antd';
 import { useEffect } from 'react';
 import * as React from 'react';
 
+import { SIWE_ENABLED } from '@/constants/connection';
 import {
     type ConnectionPhase,
     ConnectionPhases,
@@ -28,7 +29,9 @@ const DevConnectionStorePanel: React.FC = () => {
         reStart,
         goOn,
         goFail,
+        goTimeout,
         cancel,
+        retryFromCurrent,
         resetStatuses,
         fullReset,
     } = useConnectionStore();
@@ -50,6 +53,9 @@ const DevConnectionStorePanel: React.FC = () => {
             success: 'green',
             fail: 'red',
             cancelled: 'orange',
+            switching: 'gold',
+            selecting: 'orange',
+            timeout: 'purple',
         };
 
         return (
@@ -143,11 +149,18 @@ const DevConnectionStorePanel: React.FC = () => {
                 </Button>
                 <Button
                     danger
-                    onClick={goFail}
+                    onClick={() => goFail()}
                     data-testid="btn-go-fail"
                 >
                     goFail
                 </Button>
+                <Button
+                    danger
+                    onClick={goTimeout}
+                    data-testid="btn-go-timeout"
+                >
+                    goTimeout
+                </Button>
                 <Button
                     danger
                     onClick={cancel}
@@ -155,6 +168,12 @@ const DevConnectionStorePanel: React.FC = () => {
                 >
                     cancel
                 </Button>
+                <Button
+                    onClick={retryFromCurrent}
+                    data-testid="btn-retry-from-current"
+                >
+                    retryFromCurrent
+                </Button>
                 <Button
                     onClick={resetStatuses}
                     data-testid="btn-reset-statuses"
@@ -179,6 +198,9 @@ const DevConnectionStorePanel: React.FC = () => {
                         success: 'green',
                         fail: 'red',
                         cancelled: 'orange',
+                        switching: 'gold',
+                        selecting: 'orange',
+                        timeout: 'purple',
                     };
                     return (
                         <div key={status} style={{ marginBottom: 4 }}>
@@ -211,8 +233,10 @@ const DevConnectionStorePanel: React.FC = () => {
                             const phaseLabels: Record<ConnectionPhase, string> = {
                                 [ConnectionPhases.CHECK_IF_INSTALLED]:    'Налич.',
                                 [ConnectionPhases.CHECK_IF_UNLOCKED]:     'Блок.',
-                                [ConnectionPhases.CHECK_IF_CONNECTED_TO_BSC]: 'Сеть',
-                                [ConnectionPhases.CHECK_OUT_ACCOUNT]:     'Аккаунт'
+                                [ConnectionPhases.CHECK_IF_AUTHORIZED]:   'Доступ',
+                                [ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK]: 'Сеть',
+                                [ConnectionPhases.CHECK_OUT_ACCOUNT]:     'Аккаунт',
+                                [ConnectionPhases.SIGN_IN_WITH_ETHEREUM]: 'SIWE'
                             };
                             return (
                                 <th
@@ -344,13 +368,22 @@ export const BasicConnectionFlow: Story = {
 
         // 3. Завершаем все фазы
         await userEvent.click(goOnBtn); // CHECK_IF_UNLOCKED -> SUCCESS
-        await userEvent.click(goOnBtn); // CHECK_IF_CONNECTED_TO_BSC -> IN_PROGRESS
+        await userEvent.click(goOnBtn); // CHECK_IF_AUTHORIZED -> SUCCESS
+        await userEvent.click(goOnBtn); // CHECK_IF_CONNECTED_TO_NETWORK -> IN_PROGRESS
         await userEvent.click(goOnBtn); // CHECK_OUT_ACCOUNT -> IN_PROGRESS (последняя фаза)
 
         // Проверяем финальное состояние
         await expect(canvas.getByTestId(`status-${ConnectionPhases.CHECK_OUT_ACCOUNT}`))
             .toHaveTextContent(PhaseStatuses.SUCCESS);
 
+        // 4. Необязательная фаза входа с подписью (EIP-4361)
+        if (SIWE_ENABLED) {
+            await userEvent.click(goOnBtn); // SIGN_IN_WITH_ETHEREUM -> SUCCESS (последняя фаза)
+
+            await expect(canvas.getByTestId(`status-${ConnectionPhases.SIGN_IN_WITH_ETHEREUM}`))
+                .toHaveTextContent(PhaseStatuses.SUCCESS);
+        }
+
         // Проверяем, что появилось время последнего успешного подключения
         const lastSuccessElement = canvas.queryByTestId('last-success-time');
         if (lastSuccessElement) {
@@ -391,6 +424,53 @@ export const ErrorHandlingFlow: Story = {
         // Проверяем статус CANCELLED
         await expect(canvas.getByTestId(`status-${ConnectionPhases.CHECK_IF_INSTALLED}`))
             .toHaveTextContent(PhaseStatuses.CANCELLED);
+
+        // 4. Тестируем истечение времени ожидания
+        await userEvent.click(restartBtn);
+
+        const goTimeoutBtn = canvas.getByTestId('btn-go-timeout');
+        await userEvent.click(goTimeoutBtn);
+
+        // Проверяем статус TIMEOUT и наличие временной метки в timeline
+        await expect(canvas.getByTestId(`status-${ConnectionPhases.CHECK_IF_INSTALLED}`))
+            .toHaveTextContent(PhaseStatuses.TIMEOUT);
+        await expect(canvas.getByTestId(`timeline-${ConnectionPhases.CHECK_IF_INSTALLED}-${PhaseStatuses.TIMEOUT}`))
+            .not.toHaveTextContent('—');
+    },
+};
+
+// === ТЕСТ ПОВТОРА НЕУДАВШЕЙСЯ ФАЗЫ ===
+export const RetryFromCurrentFlow: Story = {
+    render: () => <DevConnectionStorePanel />,
+    play: async ({ canvasElement }) => {
+        const canvas = within(canvasElement);
+
+        // 1. Проходим первую фазу и имитируем ошибку на второй
+        await userEvent.click(canvas.getByTestId('btn-first-start'));
+        await userEvent.click(canvas.getByTestId('btn-go-on'));
+        await userEvent.click(canvas.getByTestId('btn-go-fail'));
+
+        await expect(canvas.getByTestId(`status-${ConnectionPhases.CHECK_IF_UNLOCKED}`))
+            .toHaveTextContent(PhaseStatuses.FAIL);
+
+        // 2. Повторяем текущую фазу: она снова выполняется, пройденная фаза сохраняется
+        await userEvent.click(canvas.getByTestId('btn-retry-from-current'));
+
+        await expect(canvas.getByTestId(`status-${ConnectionPhases.CHECK_IF_UNLOCKED}`))
+            .toHaveTextContent(PhaseStatuses.IN_PROGRESS);
+
+        await expect(canvas.getByTestId(`status-${ConnectionPhases.CHECK_IF_INSTALLED}`))
+            .toHaveTextContent(PhaseStatuses.SUCCESS);
+
+        await expect(canvas.getByTestId('current-phase'))
+            .toHaveTextContent(ConnectionPhases.CHECK_IF_UNLOCKED);
+
+        // 3. Повтор учтён в счётчике фазы
+        await expect(usePhaseTimelineStore.getState().retries[ConnectionPhases.CHECK_IF_UNLOCKED]).toBe(1);
+
+        // 4. Фазу в процессе выполнения повторить нельзя
+        await userEvent.click(canvas.getByTestId('btn-retry-from-current'));
+        await expect(usePhaseTimelineStore.getState().retries[ConnectionPhases.CHECK_IF_UNLOCKED]).toBe(1);
     },
 };
 
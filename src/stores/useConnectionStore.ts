@@ -7,7 +7,7 @@
  * Zustand для управления состоянием и localStorage для персистентности.
  *
  * Основные возможности:
- * - Отслеживание фаз подключения (установка, разблокировка, сеть, аккаунт)
+ * - Отслеживание фаз подключения (установка, разблокировка, доступ к аккаунтам, сеть, аккаунт)
  * - Сохранение состояния между сессиями через localStorage
  * - Автоматический сброс по таймауту ({@link CONNECTION_RESET_TIMEOUT_MINUTES})
  * - Интеграция с системой логов приложения
@@ -29,7 +29,9 @@ import {
     type PhaseStatus,
     PhaseStatuses,
 } from '@/constants/connectionPhases';
+import { type WalletErrorReason } from '@/constants/walletErrors';
 import log from '@/log';
+import { CONNECTION_PHASE_ORDER, createPhaseRecord } from '@/services/connectionPhaseRegistry';
 import { usePhaseTimelineStore } from '@/stores/usePhaseTimelineStore';
 
 /**
@@ -64,12 +66,16 @@ export interface PhaseInfo {
  * @property {Phase}     currentPhase              - Текущая активная фаза подключения
  * @property {Record}    phaseStatuses             - Словарь статусов всех фаз [фаза: статус]
  * @property {Record}    phaseTimestamps           - Словарь временных меток для всех фаз [фаза: timestamp]
+ * @property {Record}    phaseReasons              - Словарь причин неудачи фаз [фаза: причина] (для статуса FAIL)
  *
  * @property {Function}  firstStart                - Инициализация нового подключения (сброс + старт первой фазы)
  * @property {Function}  reStart                   - Перезапуск текущего подключения (полный сброс прогресса)
  * @property {Function}  goOn                      - Успешное завершение текущей фазы (переход к следующей)
- * @property {Function}  goFail                    - Обработка ошибки выполнения фазы (фиксация статуса FAIL)
+ * @property {Function}  goFail                    - Обработка ошибки выполнения фазы (фиксация статуса FAIL и причины)
+ * @property {Function}  goTimeout                 - Истечение времени ожидания фазы (фиксация статуса TIMEOUT)
  * @property {Function}  cancel                    - Отмена подключения (фиксация статуса CANCELLED)
+ * @property {Function}  retryFromCurrent          - Повторный запуск неудавшейся текущей фазы (пройденные фазы сохраняются)
+ * @property {Function}  restore                   - Тихое восстановление сессии (все фазы в SUCCESS без запуска процесса)
  * @property {Function}  setPhaseStatus            - Ручное изменение статуса фазы (для кастомных сценариев)
  * @property {Function}  resetStatuses             - Сброс всех статусов к начальным значениям
  * @property {Function}  fullReset                 - Полный сброс состояния (включая персистентные данные)
@@ -82,6 +88,7 @@ export interface ConnectionStoreState {
     currentPhase:              ConnectionPhase;                         // Текущая активная фаза
     phaseStatuses:             Record<ConnectionPhase, PhaseStatus>;    // Статусы фаз
     phaseTimestamps:           Record<ConnectionPhase, number | null>;  // Временные метки фаз
+    phaseReasons:              Record<ConnectionPhase, WalletErrorReason | null>;  // Причины неудачи фаз
 
     // === Методы управления состоянием ===
 
@@ -109,9 +116,17 @@ export interface ConnectionStoreState {
     /**
      * @function goFail
      * @description Обработка ошибки выполнения текущей фазы
+     * @param {WalletErrorReason} [reason] - Причина неудачи (по ней таймлайн выбирает комментарий)
      * @returns {void}
      */
-    goFail: () => void;
+    goFail: (reason?: WalletErrorReason) => void;
+
+    /**
+     * @function goTimeout
+     * @description Истечение времени ожидания текущей фазы
+     * @returns {void}
+     */
+    goTimeout: () => void;
 
     /**
      * @function cancel
@@ -120,6 +135,20 @@ export interface ConnectionStoreState {
      */
     cancel: () => void;
 
+    /**
+     * @function retryFromCurrent
+     * @description Повторный запуск текущей фазы после неудачи, таймаута или отмены
+     * @returns {boolean} true — фаза снова запущена, false — текущая фаза не завершилась неудачей
+     */
+    retryFromCurrent: () => boolean;
+
+    /**
+     * @function restore
+     * @description Фиксация тихого восстановления сессии после перезагрузки страницы
+     * @returns {void}
+     */
+    restore: () => void;
+
     /**
      * @function setPhaseStatus
      * @description Ручное изменение статуса конкретной фазы
@@ -153,31 +182,29 @@ export interface ConnectionStoreState {
 
 /**
  * @constant {ConnectionPhase[]} phaseOrder
- * @description Упорядоченный массив фаз подключения к MetaMask
+ * @description Упорядоченный массив фаз подключения к MetaMask (см. {@link CONNECTION_PHASE_ORDER})
  *
- * Определяет последовательность выполнения фаз:
- * 1. Проверка установки MetaMask в браузере
- * 2. Проверка разблокировки кошелька
- * 3. Проверка подключения к сети BSC
- * 4. Проверка доступности аккаунта
+ * Последовательность выполнения фаз задаёт реестр фаз (CONNECTION_PHASE_REGISTRY):
+ * обязательные фазы и включённые необязательные (например, вход с подписью EIP-4361).
  *
  * @example
  * // Получение следующей фазы
  * const currentIndex = phaseOrder.indexOf(currentPhase);
  * const nextPhase = phaseOrder[currentIndex + 1];
  */
-const phaseOrder: ConnectionPhase[] = [
-    ConnectionPhases.CHECK_IF_INSTALLED,        // Проверка установки MetaMask
-    ConnectionPhases.CHECK_IF_UNLOCKED,         // Проверка разблокировки кошелька
-    ConnectionPhases.CHECK_IF_CONNECTED_TO_BSC, // Проверка подключения к BSC
-    ConnectionPhases.CHECK_OUT_ACCOUNT,         // Проверка аккаунта
-];
+const phaseOrder: readonly ConnectionPhase[] = CONNECTION_PHASE_ORDER;
+
+/**
+ * @constant {ConnectionPhase} firstPhase
+ * @description Первая фаза подключения, с которой начинается каждый запуск
+ */
+const firstPhase: ConnectionPhase = phaseOrder[0];
 
 /**
  * @constant {Record<ConnectionPhase, PhaseStatus>} initialStatuses
  * @description Начальные статусы для всех фаз подключения
  *
- * Все фазы инициализируются в состоянии WAITING (ожидание).
+ * Все фазы реестра инициализируются в состоянии WAITING (ожидание).
  * Используется при создании нового состояния или сбросе.
  *
  * @example
@@ -187,12 +214,7 @@ const phaseOrder: ConnectionPhase[] = [
  *   phaseStatuses: { ...initialStatuses }
  * };
  */
-const initialStatuses: Record<ConnectionPhase, PhaseStatus> = {
-    [ConnectionPhases.CHECK_IF_INSTALLED]:        PhaseStatuses.WAITING,  // Ожидание проверки установки
-    [ConnectionPhases.CHECK_IF_UNLOCKED]:         PhaseStatuses.WAITING,  // Ожидание проверки разблокировки
-    [ConnectionPhases.CHECK_IF_CONNECTED_TO_BSC]: PhaseStatuses.WAITING,  // Ожидание проверки сети
-    [ConnectionPhases.CHECK_OUT_ACCOUNT]:         PhaseStatuses.WAITING,  // Ожидание проверки аккаунта
-};
+const initialStatuses: Record<ConnectionPhase, PhaseStatus> = createPhaseRecord<PhaseStatus>(PhaseStatuses.WAITING);
 
 /**
  * @constant {Record<ConnectionPhase, number|null>} initialTimestamps
@@ -208,12 +230,25 @@ const initialStatuses: Record<ConnectionPhase, PhaseStatus> = {
  *   phaseTimestamps: {...initialTimestamps}
  * };
  */
-const initialTimestamps: Record<ConnectionPhase, number | null> = {
-    [ConnectionPhases.CHECK_IF_INSTALLED]:        null,  // Время проверки установки
-    [ConnectionPhases.CHECK_IF_UNLOCKED]:         null,  // Время проверки разблокировки
-    [ConnectionPhases.CHECK_IF_CONNECTED_TO_BSC]: null,  // Время проверки сети
-    [ConnectionPhases.CHECK_OUT_ACCOUNT]:         null,  // Время проверки аккаунта
-};
+const initialTimestamps: Record<ConnectionPhase, number | null> = createPhaseRecord<number | null>(null);
+
+/**
+ * @constant {Record<ConnectionPhase, WalletErrorReason|null>} initialReasons
+ * @description Начальные причины неудачи для всех фаз
+ *
+ * Все причины инициализируются как null и заполняются только в goFail.
+ */
+const initialReasons: Record<ConnectionPhase, WalletErrorReason | null> = createPhaseRecord<WalletErrorReason | null>(null);
+
+/**
+ * @constant {PhaseStatus[]} retryableStatuses
+ * @description Статусы завершившейся неудачей фазы, из которых её можно запустить повторно (retryFromCurrent)
+ */
+const retryableStatuses: readonly PhaseStatus[] = [
+    PhaseStatuses.FAIL,
+    PhaseStatuses.TIMEOUT,
+    PhaseStatuses.CANCELLED,
+];
 
 /**
  * @constant {Function} useConnectionStore
@@ -252,9 +287,10 @@ export const useConnectionStore = create<ConnectionStoreState>()(
             const initialState = get() ?? {
                 firstTimeConnection:      true,                         // Флаг первого запуска
                 lastSuccessfulConnection: null,                         // Время последнего подключения
-                currentPhase:             ConnectionPhases.CHECK_IF_INSTALLED,  // Начальная фаза
+                currentPhase:             firstPhase,                   // Начальная фаза
                 phaseStatuses:            { ...initialStatuses },      // Копия начальных статусов
                 phaseTimestamps:          { ...initialTimestamps },    // Копия начальных меток
+                phaseReasons:             { ...initialReasons },       // Причин неудачи пока нет
             };
 
             // === Логика автоматического сброса по таймауту ===
@@ -297,19 +333,20 @@ export const useConnectionStore = create<ConnectionStoreState>()(
                     log.debug('[Store] Инициализация нового подключения');
 
                     // Обновление timeline во внешнем store
-                    setTimestamp(ConnectionPhases.CHECK_IF_INSTALLED, PhaseStatuses.IN_PROGRESS);
+                    setTimestamp(firstPhase, PhaseStatuses.IN_PROGRESS);
 
                     // Обновление локального состояния
                     set((state) => ({
-                        currentPhase: ConnectionPhases.CHECK_IF_INSTALLED,  // Установка первой фазы
+                        currentPhase: firstPhase,  // Установка первой фазы
                         phaseStatuses: {
                             ...state.phaseStatuses,
-                            [ConnectionPhases.CHECK_IF_INSTALLED]: PhaseStatuses.IN_PROGRESS,
+                            [firstPhase]: PhaseStatuses.IN_PROGRESS,
                         },
                         phaseTimestamps: {
                             ...state.phaseTimestamps,
-                            [ConnectionPhases.CHECK_IF_INSTALLED]: Date.now(),  // Фиксация времени начала
+                            [firstPhase]: Date.now(),  // Фиксация времени начала
                         },
+                        phaseReasons: { ...initialReasons },  // Причины прошлых неудач не переносятся
                         firstTimeConnection: false,  // Сброс флага первого подключения
                     }));
                 },
@@ -344,19 +381,20 @@ export const useConnectionStore = create<ConnectionStoreState>()(
                     resetTimeline();
 
                     // Установка первой фазы в активное состояние
-                    setTimestamp(ConnectionPhases.CHECK_IF_INSTALLED, PhaseStatuses.IN_PROGRESS);
+                    setTimestamp(firstPhase, PhaseStatuses.IN_PROGRESS);
 
                     // Обновление состояния с полным сбросом
-                    set((state) => ({
-                        currentPhase: ConnectionPhases.CHECK_IF_INSTALLED,
+                    set(() => ({
+                        currentPhase: firstPhase,
                         phaseStatuses: {
-                            ...state.phaseStatuses,
-                            [ConnectionPhases.CHECK_IF_INSTALLED]: PhaseStatuses.IN_PROGRESS,
+                            ...initialStatuses,
+                            [firstPhase]: PhaseStatuses.IN_PROGRESS,
                         },
                         phaseTimestamps: {
-                            ...state.phaseTimestamps,
-                            [ConnectionPhases.CHECK_IF_INSTALLED]: Date.now(),
+                            ...initialTimestamps,
+                            [firstPhase]: Date.now(),
                         },
+                        phaseReasons: { ...initialReasons },
                     }));
                 },
 
@@ -440,8 +478,10 @@ export const useConnectionStore = create<ConnectionStoreState>()(
                  * Используется при:
                  * - Технических ошибках (отсутствие MetaMask, проблемы сети)
                  * - Отказе пользователя от действий в MetaMask
-                 * - Таймаутах операций
                  *
+                 * Для таймаутов операций используется goTimeout.
+                 *
+                 * @param {WalletErrorReason} [reason] - Причина неудачи (классифицированная ошибка кошелька)
                  * @returns {void}
                  *
                  * @example
@@ -453,13 +493,13 @@ export const useConnectionStore = create<ConnectionStoreState>()(
                  *     goOn();
                  *   } catch (error) {
                  *     console.error('Ошибка подключения к сети:', error);
-                 *     goFail(); // Фиксируем ошибку
+                 *     goFail(classifyWalletError(error).reason); // Фиксируем ошибку и её причину
                  *   }
                  * };
                  */
-                goFail: (): void => {
-                    const { currentPhase, phaseStatuses, phaseTimestamps } = get();
-                    log.debug(`[Store] Ошибка на фазе ${currentPhase}`);
+                goFail: (reason?: WalletErrorReason): void => {
+                    const { currentPhase, phaseStatuses, phaseTimestamps, phaseReasons } = get();
+                    log.debug(`[Store] Ошибка на фазе ${currentPhase}${reason ? ` (${reason})` : ''}`);
 
                     // Обновление timeline
                     setTimestamp(currentPhase, PhaseStatuses.FAIL);
@@ -474,6 +514,41 @@ export const useConnectionStore = create<ConnectionStoreState>()(
                             ...phaseTimestamps,
                             [currentPhase]: Date.now(),  // Время возникновения ошибки
                         },
+                        phaseReasons: {
+                            ...phaseReasons,
+                            [currentPhase]: reason ?? null,  // Причина ошибки (если известна)
+                        },
+                    });
+                },
+
+                /**
+                 * @method goTimeout
+                 * @description Истечение времени ожидания текущей фазы
+                 *
+                 * Устанавливает статус текущей фазы в TIMEOUT и фиксирует время.
+                 * Как и goFail, не переходит к следующей фазе. Вызывается, когда кошелёк
+                 * не ответил за время, отведённое политикой фазы (см. реестр фаз),
+                 * и все повторные попытки исчерпаны (например, окно MetaMask проигнорировано).
+                 *
+                 * @returns {void}
+                 */
+                goTimeout: (): void => {
+                    const { currentPhase, phaseStatuses, phaseTimestamps } = get();
+                    log.debug(`[Store] Истекло время ожидания на фазе ${currentPhase}`);
+
+                    // Обновление timeline
+                    setTimestamp(currentPhase, PhaseStatuses.TIMEOUT);
+
+                    // Фиксация таймаута в состоянии
+                    set({
+                        phaseStatuses: {
+                            ...phaseStatuses,
+                            [currentPhase]: PhaseStatuses.TIMEOUT,
+                        },
+                        phaseTimestamps: {
+                            ...phaseTimestamps,
+                            [currentPhase]: Date.now(),
+                        },
                     });
                 },
 
@@ -518,6 +593,93 @@ export const useConnectionStore = create<ConnectionStoreState>()(
                     });
                 },
 
+                /**
+                 * @method retryFromCurrent
+                 * @description Повторный запуск текущей фазы после неудачи
+                 *
+                 * Переводит текущую фазу из FAIL, TIMEOUT или CANCELLED обратно в IN_PROGRESS и сбрасывает
+                 * причину неудачи. Пройденные фазы, их статусы и временные метки сохраняются, поэтому
+                 * процесс продолжается с неудавшейся фазы, а не с первой. Счётчик повторов фазы
+                 * увеличивается во внешнем timeline-хранилище.
+                 *
+                 * @returns {boolean} true — фаза снова запущена, false — повторять нечего
+                 *
+                 * @example
+                 * // Кнопка "Повторить" в панели подключения
+                 * const handleRetry = () => {
+                 *   if (retryFromCurrent()) void orchestrator.retry();
+                 * };
+                 */
+                retryFromCurrent: (): boolean => {
+                    const { currentPhase, phaseStatuses, phaseTimestamps, phaseReasons } = get();
+                    const status = phaseStatuses[currentPhase];
+
+                    if (!retryableStatuses.includes(status)) {
+                        log.debug(`[Store] Повтор невозможен: фаза ${currentPhase} в статусе ${status}`);
+                        return false;
+                    }
+
+                    log.debug(`[Store] Повтор фазы ${currentPhase} (предыдущий статус ${status})`);
+
+                    // Обновление timeline и счётчика повторов
+                    const { incrementRetry } = usePhaseTimelineStore.getState();
+                    incrementRetry(currentPhase);
+                    setTimestamp(currentPhase, PhaseStatuses.IN_PROGRESS);
+
+                    // Пройденные фазы не трогаем, текущая снова выполняется
+                    set({
+                        phaseStatuses: {
+                            ...phaseStatuses,
+                            [currentPhase]: PhaseStatuses.IN_PROGRESS,
+                        },
+                        phaseTimestamps: {
+                            ...phaseTimestamps,
+                            [currentPhase]: Date.now(),
+                        },
+                        phaseReasons: {
+                            ...phaseReasons,
+                            [currentPhase]: null,
+                        },
+                    });
+
+                    return true;
+                },
+
+                /**
+                 * @method restore
+                 * @description Фиксация тихого восстановления сессии после перезагрузки страницы
+                 *
+                 * Переводит все фазы в SUCCESS (с текущим временем), делает текущей последнюю фазу
+                 * и продлевает lastSuccessfulConnection. Вызывается хуком useSessionRestore, когда
+                 * кошелёк без всплывающих окон подтвердил аккаунт и сеть.
+                 *
+                 * @returns {void}
+                 */
+                restore: (): void => {
+                    const now = Date.now();
+                    const lastPhase = phaseOrder[phaseOrder.length - 1];
+
+                    log.debug('[Store] Восстановление сессии: все фазы считаются пройденными');
+
+                    const restoredStatuses = { ...initialStatuses };
+                    const restoredTimestamps = { ...initialTimestamps };
+
+                    phaseOrder.forEach((phase) => {
+                        restoredStatuses[phase] = PhaseStatuses.SUCCESS;
+                        restoredTimestamps[phase] = now;
+                        setTimestamp(phase, PhaseStatuses.SUCCESS);
+                    });
+
+                    set({
+                        firstTimeConnection:      false,
+                        lastSuccessfulConnection: now,
+                        currentPhase:             lastPhase,
+                        phaseStatuses:            restoredStatuses,
+                        phaseTimestamps:          restoredTimestamps,
+                        phaseReasons:             { ...initialReasons },
+                    });
+                },
+
                 /**
                  * @method setPhaseStatus
                  * @description Ручное изменение статуса конкретной фазы
@@ -597,9 +759,10 @@ export const useConnectionStore = create<ConnectionStoreState>()(
 
                     // Сброс к начальному состоянию
                     set({
-                        currentPhase:    ConnectionPhases.CHECK_IF_INSTALLED,  // Первая фаза
+                        currentPhase:    firstPhase,                           // Первая фаза
                         phaseStatuses:   { ...initialStatuses },               // Все статусы в WAITING
                         phaseTimestamps: { ...initialTimestamps },             // Все метки времени обнулены
+                        phaseReasons:    { ...initialReasons },                // Причины неудач обнулены
                     });
                 },
 
@@ -636,9 +799,10 @@ export const useConnectionStore = create<ConnectionStoreState>()(
                     set({
                         firstTimeConnection:      true,                                // Восстановление флага первого подключения
                         lastSuccessfulConnection: null,                                // Обнуление времени последнего подключения
-                        currentPhase:             ConnectionPhases.CHECK_IF_INSTALLED, // Первая фаза
+                        currentPhase:             firstPhase,                          // Первая фаза
                         phaseStatuses:            { ...initialStatuses },              // Начальные статусы
                         phaseTimestamps:          { ...initialTimestamps },            // Начальные метки времени
+                        phaseReasons:             { ...initialReasons },               // Причин неудачи нет
                     });
                 },
 
@@ -719,7 +883,23 @@ export const useConnectionStore = create<ConnectionStoreState>()(
                 lastSuccessfulConnection: persistedState.lastSuccessfulConnection ?? null,
                 phaseStatuses:            persistedState.phaseStatuses ?? initialStatuses,
                 phaseTimestamps:          persistedState.phaseTimestamps ?? initialTimestamps,
+                phaseReasons:             persistedState.phaseReasons ?? initialReasons,
             }),
         }
     )
 );
+
+/**
+ * Подключение завершено: все фазы процесса подключения пройдены успешно
+ */
+export const selectIsConnectionComplete = (state: ConnectionStoreState): boolean =>
+    CONNECTION_PHASE_ORDER.every((phase) => state.phaseStatuses[phase] === PhaseStatuses.SUCCESS);
+
+/**
+ * Подключение завершено без учёта сети: пройдены все фазы, кроме проверки сети
+ * (кошелёк подключён, но мог перейти в другую сеть после подключения)
+ */
+export const selectIsConnectionCompleteExceptNetwork = (state: ConnectionStoreState): boolean =>
+    CONNECTION_PHASE_ORDER
+        .filter((phase) => phase !== ConnectionPhases.CHECK_IF_CONNECTED_TO_NETWORK)
+        .every((phase) => state.phaseStatuses[phase] === PhaseStatuses.SUCCESS);
@@ -4,11 +4,11 @@ import { create } from 'zustand';
 
 import {
     type ConnectionPhase,
-    ConnectionPhases,
     type PhaseStatus,
     PhaseStatuses,
 } from '@/constants/connectionPhases';
 import log from '@/log';
+import { CONNECTION_PHASE_REGISTRY, createPhaseRecord } from '@/services/connectionPhaseRegistry';
 
 
 type Timestamp = string | null;
@@ -18,6 +18,12 @@ export type PhaseTimeline = Record<ConnectionPhase, Record<PhaseStatus, Timestam
 interface PhaseTimelineStore {
     timeline: PhaseTimeline;
 
+    /**
+     Количество повторных запусков каждой фазы (retryFromCurrent) с момента последнего сброса
+     */
+
+    retries: Record<ConnectionPhase, number>;
+
     /**
      Устанавливает временную метку для определенной фазы и статуса
      */
@@ -25,7 +31,13 @@ interface PhaseTimelineStore {
     setTimestamp: (phase: ConnectionPhase, status: PhaseStatus, timestamp?: string | null) => void;
 
     /**
-     Сброс всех временных меток (начальная инициализация)
+     Увеличивает счётчик повторных запусков фазы
+     */
+
+    incrementRetry: (phase: ConnectionPhase) => void;
+
+    /**
+     Сброс всех временных меток и счётчиков повторов (начальная инициализация)
      */
 
     resetTimeline: () => void;
@@ -34,14 +46,10 @@ interface PhaseTimelineStore {
 const createInitialTimeline = (): PhaseTimeline => {
     const initial: PhaseTimeline = {} as PhaseTimeline;
 
-    Object.values(ConnectionPhases).forEach((phase) => {
-        initial[phase] = {
-            [PhaseStatuses.WAITING]: null,
-            [PhaseStatuses.IN_PROGRESS]: null,
-            [PhaseStatuses.SUCCESS]: null,
-            [PhaseStatuses.FAIL]: null,
-            [PhaseStatuses.CANCELLED]: null,
-        };
+    CONNECTION_PHASE_REGISTRY.forEach(({ id }) => {
+        initial[id] = Object.fromEntries(
+            Object.values(PhaseStatuses).map((status) => [status, null]),
+        ) as Record<PhaseStatus, Timestamp>;
     });
 
     return initial;
@@ -49,6 +57,7 @@ const createInitialTimeline = (): PhaseTimeline => {
 
 export const usePhaseTimelineStore = create<PhaseTimelineStore>((set) => ({
     timeline: createInitialTimeline(),
+    retries: createPhaseRecord(0),
 
     setTimestamp: (phase, status, timestamp = new Date().toISOString()) => {
         log.debug(`[PhaseTimeline] Установка timestamp: phase="${phase}", status="${status}", time="${timestamp}"`);
@@ -63,10 +72,25 @@ export const usePhaseTimelineStore = create<PhaseTimelineStore>((set) => ({
         }));
     },
 
+    incrementRetry: (phase) => {
+        set((state) => {
+            const retries = state.retries[phase] + 1;
+            log.debug(`[PhaseTimeline] Повтор фазы: phase="${phase}", retries=${retries}`);
+
+            return {
+                retries: {
+                    ...state.retries,
+                    [phase]: retries,
+                },
+            };
+        });
+    },
+
     resetTimeline: () => {
         log.debug('[PhaseTimeline] Сброс всех временных меток');
         set(() => ({
             timeline: createInitialTimeline(),
+            retries: createPhaseRecord(0),
         }));
     },
 }));
\ No newline at end of file
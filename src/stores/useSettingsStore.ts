@@ -0,0 +1,69 @@
+// Хранилище пользовательских настроек приложения: целевая сеть и вид разрешения на списание токенов (zustand + persist) [★★☆☆☆]
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+import { type ApprovalMode, ApprovalModes } from '@/constants/approvalFlow';
+import { NETWORK_REGISTRY, type NetworkDefinition, type NetworkId } from '@/constants/network';
+import log from '@/log';
+import { DEFAULT_NETWORK_ID, isNetworkId } from '@/services/networkRegistry';
+
+export interface SettingsState {
+    networkId: NetworkId;
+    approvalMode: ApprovalMode;
+}
+
+interface SettingsStore extends SettingsState {
+    /**
+     * Выбирает целевую сеть (к ней подключается кошелёк и переключается при проверке сети)
+     */
+    setNetworkId: (networkId: NetworkId) => void;
+
+    /**
+     * Запоминает выбор пользователя: разрешать списание ровно нужной суммы или без ограничения
+     */
+    setApprovalMode: (approvalMode: ApprovalMode) => void;
+}
+
+// Проверяет, что сохранённое значение является видом разрешения на списание
+const isApprovalMode = (value: unknown): value is ApprovalMode =>
+    typeof value === 'string' && (Object.values(ApprovalModes) as string[]).includes(value);
+
+export const useSettingsStore = create<SettingsStore>()(
+    persist(
+        (set) => ({
+            networkId: DEFAULT_NETWORK_ID,
+            approvalMode: ApprovalModes.EXACT,
+
+            setNetworkId: (networkId) => {
+                log.debug(`[SettingsStore] Целевая сеть: "${networkId}"`);
+                set({ networkId });
+            },
+
+            setApprovalMode: (approvalMode) => {
+                log.debug(`[SettingsStore] Вид разрешения на списание: "${approvalMode}"`);
+                set({ approvalMode });
+            },
+        }),
+        {
+            name: 'settings-storage',
+            version: 1,
+            partialize: (state): SettingsState => ({ networkId: state.networkId, approvalMode: state.approvalMode }),
+            // Сеть, удалённая из реестра после сохранения настроек, заменяется сетью по умолчанию;
+            // настройки, сохранённые до появления вида разрешения, получают значение по умолчанию
+            merge: (persisted, current) => {
+                const { networkId, approvalMode } = (persisted as Partial<SettingsState> | undefined) ?? {};
+                return {
+                    ...current,
+                    networkId: isNetworkId(networkId) ? networkId : current.networkId,
+                    approvalMode: isApprovalMode(approvalMode) ? approvalMode : current.approvalMode,
+                };
+            },
+        },
+    ),
+);
+
+/**
+ * Описание целевой сети
+ */
+export const selectTargetNetwork = (state: SettingsState): NetworkDefinition => NETWORK_REGISTRY[state.networkId];
@@ -0,0 +1,82 @@
+// Хранилище сессии Sign-In with Ethereum (EIP-4361) (zustand + persist) [★★★☆☆]
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+import log from '@/log';
+
+/**
+ * @description Сессия, полученная после проверки подписи сообщения EIP-4361
+ *
+ * @property {string} address   - Адрес, владение которым подтверждено подписью (checksum)
+ * @property {number} chainId   - Сеть, в которой выполнен вход
+ * @property {string} message   - Подписанное сообщение EIP-4361
+ * @property {string} signature - Подпись сообщения
+ * @property {number} issuedAt  - Время выдачи (мс)
+ * @property {number} expiresAt - Время окончания действия сессии (мс)
+ */
+export interface SiweSession {
+    address:   string;
+    chainId:   number;
+    message:   string;
+    signature: string;
+    issuedAt:  number;
+    expiresAt: number;
+}
+
+export interface SiweSessionState {
+    session: SiweSession | null;
+}
+
+interface SiweSessionStore extends SiweSessionState {
+    /**
+     * Сохраняет новую сессию (после успешной проверки подписи)
+     */
+    setSession: (session: SiweSession) => void;
+
+    /**
+     * Завершает сессию (смена аккаунта, отключение, истечение срока)
+     */
+    clearSession: () => void;
+}
+
+export const useSiweSessionStore = create<SiweSessionStore>()(
+    persist(
+        (set) => ({
+            session: null,
+
+            setSession: (session) => {
+                log.debug(
+                    `[SiweSession] Новая сессия: address="${session.address}", chainId=${session.chainId}, до ${new Date(session.expiresAt).toISOString()}`,
+                );
+                set({ session });
+            },
+
+            clearSession: () => {
+                log.debug('[SiweSession] Сессия завершена');
+                set({ session: null });
+            },
+        }),
+        {
+            name: 'siwe-session-storage',
+            version: 1,
+        },
+    ),
+);
+
+/**
+ * Действующая (не истёкшая) сессия для указанного адреса и сети (или null)
+ */
+export const selectValidSession = (
+    state: SiweSessionState,
+    address: string | null,
+    chainId: number | null,
+    now: number = Date.now(),
+): SiweSession | null => {
+    const { session } = state;
+
+    if (!session || !address || session.expiresAt <= now) return null;
+    if (session.address.toLowerCase() !== address.toLowerCase() || session.chainId !== chainId) return null;
+
+    return session;
+};
@@ -0,0 +1,83 @@
+// Хранилище запроса проверки транзакции перед подписью (zustand) [★★★☆☆]
+
+import { create } from 'zustand';
+
+import log from '@/log';
+import { type TransactionReview } from '@/services/transactionReview';
+
+export interface TransactionReviewState {
+    request: TransactionReview | null;
+}
+
+interface TransactionReviewStore extends TransactionReviewState {
+    /**
+     * Показывает окно проверки транзакции и ждёт решения пользователя.
+     * Возвращает true, если пользователь подтвердил транзакцию, и false, если отклонил
+     * или проверка прервана (signal или новый запрос)
+     */
+    requestReview: (review: TransactionReview, signal?: AbortSignal) => Promise<boolean>;
+
+    /**
+     * Пользователь подтвердил транзакцию (завершает текущий запрос)
+     */
+    confirm: () => void;
+
+    /**
+     * Пользователь отклонил транзакцию (завершает текущий запрос)
+     */
+    reject: () => void;
+}
+
+// Завершение ожидающего запроса (один запрос в каждый момент времени)
+let resolvePending: ((confirmed: boolean) => void) | null = null;
+
+export const useTransactionReviewStore = create<TransactionReviewStore>((set) => ({
+    request: null,
+
+    requestReview: (review, signal) => {
+        resolvePending?.(false);
+        log.debug(`[TransactionReview] Проверка вызова ${review.contract}.${review.call.functionName}`);
+
+        return new Promise((resolve) => {
+            const finish = (confirmed: boolean) => {
+                if (resolvePending !== finish) return;
+
+                resolvePending = null;
+                signal?.removeEventListener('abort', onAbort);
+                set({ request: null });
+                resolve(confirmed);
+            };
+            const onAbort = () => {
+                log.debug('[TransactionReview] Проверка транзакции прервана');
+                finish(false);
+            };
+
+            resolvePending = finish;
+            set({ request: review });
+
+            if (signal?.aborted) {
+                onAbort();
+                return;
+            }
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    },
+
+    confirm: () => {
+        if (!resolvePending) {
+            log.warn('[TransactionReview] Подтверждение без запроса проверки');
+            return;
+        }
+
+        log.debug('[TransactionReview] Транзакция подтверждена пользователем');
+        resolvePending(true);
+    },
+
+    reject: () => {
+        if (!resolvePending) return;
+
+        log.debug('[TransactionReview] Транзакция отклонена пользователем');
+        resolvePending(false);
+    },
+}));
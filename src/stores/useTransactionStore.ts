@@ -0,0 +1,201 @@
+// Хранилище транзакций пользователя по аккаунтам и сетям (zustand + persist) [★★★☆☆]
+
+import { type Hash } from 'viem';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+import {
+    TRANSACTION_ACTIVE_STATUSES,
+    type TransactionError,
+    type TransactionStatus,
+    TransactionStatuses,
+    TX_HISTORY_LIMIT,
+    TX_REQUIRED_CONFIRMATIONS,
+} from '@/constants/transactions';
+import log from '@/log';
+import { type DecodedRevert } from '@/services/contractSimulation';
+
+/**
+ * @description Запись о транзакции
+ *
+ * @property {Hash}                    hash                  - Хеш транзакции
+ * @property {string}                  account               - Аккаунт, подписавший транзакцию (в нижнем регистре)
+ * @property {number}                  chainId               - Сеть транзакции
+ * @property {string}                  description           - Краткое описание (например, rubasToken.approve)
+ * @property {TransactionStatus}       status                - Текущий статус
+ * @property {number}                  confirmations         - Набранные подтверждения
+ * @property {number}                  requiredConfirmations - Подтверждения, после которых транзакция считается подтверждённой
+ * @property {string | null}           blockNumber           - Номер блока транзакции (строкой: bigint не сохраняется в JSON)
+ * @property {Hash | null}             replacedBy            - Хеш транзакции, заменившей эту
+ * @property {TransactionError | null} error                 - Причина неудачи
+ * @property {object}                  stageTimestamps       - Время перехода в каждый статус (мс)
+ * @property {DecodedRevert | null}    simulationRevert      - Причина отклонения, найденная симуляцией, если пользователь отправил транзакцию несмотря на неё
+ */
+export interface TransactionRecord {
+    hash: Hash;
+    account: string;
+    chainId: number;
+    description: string;
+    status: TransactionStatus;
+    confirmations: number;
+    requiredConfirmations: number;
+    blockNumber: string | null;
+    replacedBy: Hash | null;
+    error: TransactionError | null;
+    stageTimestamps: Partial<Record<TransactionStatus, number>>;
+    simulationRevert: DecodedRevert | null;
+}
+
+/**
+ * Данные новой транзакции (остальные поля заполняет хранилище)
+ */
+export type NewTransaction = Pick<TransactionRecord, 'hash' | 'account' | 'chainId' | 'description'>
+    & Partial<Pick<TransactionRecord, 'simulationRevert'>>;
+
+/**
+ * Изменяемые при отслеживании поля транзакции
+ */
+export type TransactionUpdate = Partial<
+    Pick<TransactionRecord, 'status' | 'confirmations' | 'blockNumber' | 'replacedBy' | 'error'>
+>;
+
+export interface TransactionState {
+    // Транзакции по ключу аккаунта и сети (getTransactionsKey), новые — в начале списка
+    transactions: Record<string, TransactionRecord[]>;
+}
+
+interface TransactionStore extends TransactionState {
+    /**
+     * Добавляет подписанную транзакцию (статус submitted)
+     */
+    addTransaction: (transaction: NewTransaction) => void;
+
+    /**
+     * Обновляет транзакцию; при смене статуса запоминает время перехода
+     */
+    updateTransaction: (hash: Hash, update: TransactionUpdate) => void;
+
+    /**
+     * Удаляет завершённые транзакции аккаунта в сети (отслеживаемые остаются)
+     */
+    clearFinished: (account: string, chainId: number) => void;
+}
+
+/**
+ * Ключ списка транзакций для аккаунта в сети
+ * @param {string} account - адрес аккаунта
+ * @param {number} chainId - идентификатор сети
+ * @returns {string} ключ вида "<адрес в нижнем регистре>:<chainId>"
+ */
+export const getTransactionsKey = (account: string, chainId: number): string => `${account.toLowerCase()}:${chainId}`;
+
+// Применяет изменение к транзакции с указанным хешем во всех списках
+const mapTransaction = (
+    transactions: Record<string, TransactionRecord[]>,
+    hash: Hash,
+    apply: (transaction: TransactionRecord) => TransactionRecord,
+): Record<string, TransactionRecord[]> =>
+    Object.fromEntries(Object.entries(transactions).map(([key, list]) => [
+        key,
+        list.map((transaction) => (transaction.hash === hash ? apply(transaction) : transaction)),
+    ]));
+
+export const useTransactionStore = create<TransactionStore>()(
+    persist(
+        (set) => ({
+            transactions: {},
+
+            addTransaction: ({ hash, account, chainId, description, simulationRevert = null }) => {
+                const key = getTransactionsKey(account, chainId);
+                log.debug(`[TransactionStore] Новая транзакция ${hash} (${description}) для "${key}"`);
+
+                const record: TransactionRecord = {
+                    hash,
+                    account: account.toLowerCase(),
+                    chainId,
+                    description,
+                    status: TransactionStatuses.SUBMITTED,
+                    confirmations: 0,
+                    requiredConfirmations: TX_REQUIRED_CONFIRMATIONS,
+                    blockNumber: null,
+                    replacedBy: null,
+                    error: null,
+                    stageTimestamps: { [TransactionStatuses.SUBMITTED]: Date.now() },
+                    simulationRevert,
+                };
+
+                set((state) => {
+                    const list = (state.transactions[key] ?? []).filter((transaction) => transaction.hash !== hash);
+                    return { transactions: { ...state.transactions, [key]: [record, ...list].slice(0, TX_HISTORY_LIMIT) } };
+                });
+            },
+
+            updateTransaction: (hash, update) => {
+                log.debug(`[TransactionStore] Транзакция ${hash}: ${JSON.stringify(update)}`);
+
+                set((state) => ({
+                    transactions: mapTransaction(state.transactions, hash, (transaction) => ({
+                        ...transaction,
+                        ...update,
+                        stageTimestamps: update.status && update.status !== transaction.status
+                            ? { ...transaction.stageTimestamps, [update.status]: Date.now() }
+                            : transaction.stageTimestamps,
+                    })),
+                }));
+            },
+
+            clearFinished: (account, chainId) => {
+                const key = getTransactionsKey(account, chainId);
+                log.debug(`[TransactionStore] Очистка завершённых транзакций "${key}"`);
+
+                set((state) => ({
+                    transactions: {
+                        ...state.transactions,
+                        [key]: (state.transactions[key] ?? []).filter(isTransactionActive),
+                    },
+                }));
+            },
+        }),
+        {
+            name: 'transaction-storage',
+            version: 2,
+            partialize: (state): TransactionState => ({ transactions: state.transactions }),
+            // Версия 1: транзакции без simulationRevert
+            migrate: (persistedState): TransactionState => {
+                const { transactions = {} } = (persistedState ?? {}) as Partial<TransactionState>;
+
+                return {
+                    transactions: Object.fromEntries(Object.entries(transactions).map(([key, list]) => [
+                        key,
+                        list.map((transaction) => ({ ...transaction, simulationRevert: transaction.simulationRevert ?? null })),
+                    ])),
+                };
+            },
+        },
+    ),
+);
+
+/**
+ * Транзакция ещё отслеживается (submitted или pending)
+ */
+export const isTransactionActive = (transaction: TransactionRecord): boolean =>
+    TRANSACTION_ACTIVE_STATUSES.includes(transaction.status);
+
+// Пустой список (постоянная ссылка, чтобы селектор не вызывал лишних рендеров)
+const NO_TRANSACTIONS: TransactionRecord[] = [];
+
+/**
+ * Транзакции аккаунта в сети (новые — в начале)
+ */
+export const selectTransactions = (
+    state: TransactionState,
+    account: string | null,
+    chainId: number | null,
+): TransactionRecord[] =>
+    (account && chainId !== null ? state.transactions[getTransactionsKey(account, chainId)] : undefined) ?? NO_TRANSACTIONS;
+
+/**
+ * Все отслеживаемые транзакции (всех аккаунтов и сетей)
+ */
+export const selectActiveTransactions = (state: TransactionState): TransactionRecord[] =>
+    Object.values(state.transactions).flat().filter(isTransactionActive);
@@ -0,0 +1,86 @@
+// Реестр кошельков, объявленных через EIP-6963 (zustand) [★★★☆☆]
+
+import { create } from 'zustand';
+
+import { METAMASK_RDNS } from '@/constants/connection';
+import log from '@/log';
+import { type EIP1193Provider, type EIP6963ProviderDetail } from '@/services/eip6963ProviderDiscovery';
+
+/**
+ * @description Состояние реестра провайдеров кошельков
+ *
+ * @property {Record}      providers     - Объявленные провайдеры [uuid: EIP6963ProviderDetail]
+ * @property {string|null} selectedUuid  - uuid провайдера, с которым работают хуки подключения
+ */
+export interface WalletProvidersState {
+    providers:    Record<string, EIP6963ProviderDetail>;
+    selectedUuid: string | null;
+}
+
+interface WalletProvidersStore extends WalletProvidersState {
+    /**
+     * Регистрирует (или обновляет) объявленный провайдер
+     */
+    registerProvider: (detail: EIP6963ProviderDetail) => void;
+
+    /**
+     * Выбирает провайдер, с которым будет работать приложение
+     */
+    selectProvider: (uuid: string | null) => void;
+
+    /**
+     * Очистка реестра (для тестов и историй)
+     */
+    resetProviders: () => void;
+}
+
+export const useWalletProvidersStore = create<WalletProvidersStore>((set) => ({
+    providers: {},
+    selectedUuid: null,
+
+    registerProvider: (detail) => {
+        log.debug(
+            `[WalletProviders] Регистрация кошелька: name="${detail.info.name}", rdns="${detail.info.rdns}", uuid="${detail.info.uuid}"`,
+        );
+        set((state) => ({
+            providers: {
+                ...state.providers,
+                [detail.info.uuid]: detail,
+            },
+        }));
+    },
+
+    selectProvider: (uuid) => {
+        log.debug(`[WalletProviders] Выбран провайдер: uuid="${uuid}"`);
+        set({ selectedUuid: uuid });
+    },
+
+    resetProviders: () => {
+        log.debug('[WalletProviders] Сброс реестра кошельков');
+        set({ providers: {}, selectedUuid: null });
+    },
+}));
+
+/**
+ * Количество объявленных кошельков
+ */
+export const selectWalletsCount = (state: WalletProvidersState): number =>
+    Object.keys(state.providers).length;
+
+/**
+ * Описание провайдера MetaMask среди объявленных (или null)
+ */
+export const selectMetaMaskProvider = (state: WalletProvidersState): EIP6963ProviderDetail | null =>
+    Object.values(state.providers).find((detail) => detail.info.rdns === METAMASK_RDNS) ?? null;
+
+/**
+ * Идентификатор выбранного кошелька (rdns из EIP-6963, постоянный между сессиями, в отличие от uuid) или null
+ */
+export const selectActiveWalletId = (state: WalletProvidersState): string | null =>
+    state.selectedUuid ? state.providers[state.selectedUuid]?.info.rdns ?? null : null;
+
+/**
+ * Выбранный провайдер EIP-1193 (или null, если ничего не выбрано)
+ */
+export const selectActiveProvider = (state: WalletProvidersState): EIP1193Provider | null =>
+    state.selectedUuid ? state.providers[state.selectedUuid]?.provider ?? null : null;
@@ -1,6 +1,10 @@
-// Хранилище состояния MetaMask (zustand)
+// Хранилище состояния MetaMask (zustand + persist)
 
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+import log from '@/log';
+import { selectMetaMaskProvider, useWalletProvidersStore } from '@/stores/useWalletProvidersStore';
 
 export interface WalletState {
     isMetaMaskAvailable: boolean;
@@ -8,38 +12,82 @@ export interface WalletState {
     isConnected: boolean;
     isCorrectNetwork: boolean;
     account: string | null;
+    accounts: string[];
     chainId: number | null;
 }
 
-interface WalletStore extends WalletState {
+/**
+ * Предпочитаемый аккаунт для каждого кошелька [rdns кошелька: адрес] (сохраняется между сессиями)
+ */
+export interface PreferredAccountsState {
+    preferredAccounts: Record<string, string>;
+}
+
+interface WalletStore extends WalletState, PreferredAccountsState {
     /**
      * Обновляет частичное состояние кошелька
      */
     setState: (partial: Partial<WalletState>) => void;
 
     /**
-     * Сброс состояния кошелька к начальному (отключение)
+     * Запоминает выбранный пользователем аккаунт кошелька
+     */
+    setPreferredAccount: (walletId: string, account: string) => void;
+
+    /**
+     * Сброс состояния кошелька к начальному (отключение); предпочитаемые аккаунты сохраняются
      */
     resetState: () => void;
 }
 
-export const useWalletStore = create<WalletStore>((set) => ({
-    isMetaMaskAvailable: typeof window !== 'undefined' && !!window.ethereum?.isMetaMask,
-    isMetaMaskUnlocked: false,
-    isConnected: false,
-    isCorrectNetwork: false,
-    account: null,
-    chainId: null,
-
-    setState: (partial) => set(partial),
-
-    resetState: () =>
-        set({
-            isMetaMaskAvailable: typeof window !== 'undefined' && !!window.ethereum?.isMetaMask,
+export const useWalletStore = create<WalletStore>()(
+    persist(
+        (set) => ({
+            isMetaMaskAvailable: selectMetaMaskProvider(useWalletProvidersStore.getState()) !== null,
             isMetaMaskUnlocked: false,
             isConnected: false,
             isCorrectNetwork: false,
             account: null,
+            accounts: [],
             chainId: null,
+            preferredAccounts: {},
+
+            setState: (partial) => set(partial),
+
+            setPreferredAccount: (walletId, account) => {
+                log.debug(`[WalletStore] Предпочитаемый аккаунт кошелька "${walletId}": ${account}`);
+                set((state) => ({ preferredAccounts: { ...state.preferredAccounts, [walletId]: account } }));
+            },
+
+            resetState: () =>
+                set({
+                    isMetaMaskAvailable: selectMetaMaskProvider(useWalletProvidersStore.getState()) !== null,
+                    isMetaMaskUnlocked: false,
+                    isConnected: false,
+                    isCorrectNetwork: false,
+                    account: null,
+                    accounts: [],
+                    chainId: null,
+                }),
         }),
-}));
\ No newline at end of file
+        {
+            name: 'wallet-storage',
+            version: 1,
+            // Состояние подключения каждый раз определяется заново, сохраняется только выбор аккаунтов
+            partialize: (state): PreferredAccountsState => ({ preferredAccounts: state.preferredAccounts }),
+        },
+    ),
+);
+
+/**
+ * Предпочитаемый аккаунт кошелька среди авторизованных (без учёта регистра) или null, если его среди них нет
+ */
+export const selectPreferredAccount = (
+    state: PreferredAccountsState,
+    walletId: string | null,
+    accounts: readonly string[],
+): string | null => {
+    const preferred = walletId ? state.preferredAccounts[walletId] : undefined;
+
+    return accounts.find((account) => account.toLowerCase() === preferred?.toLowerCase()) ?? null;
+};
@@ -1,2 +1,17 @@
 // Подключает типы Vite для клиента, обеспечивая<br> поддержку TypeScript и автодополнение переменных окружения
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    // Сеть по умолчанию (идентификатор из реестра сетей: bscMainnet, bscTestnet, opBnbMainnet)
+    readonly VITE_DEFAULT_NETWORK?: string;
+    // Вход с подписью сообщения (Sign-In with Ethereum, EIP-4361) после подключения: "true" — включён
+    readonly VITE_SIWE_ENABLED?: string;
+    // Адреса контракта токена RUBAS в каждой сети (если адрес не задан, контракт в этой сети недоступен)
+    readonly VITE_RUBAS_TOKEN_ADDRESS_BSC_MAINNET?: string;
+    readonly VITE_RUBAS_TOKEN_ADDRESS_BSC_TESTNET?: string;
+    readonly VITE_RUBAS_TOKEN_ADDRESS_OPBNB_MAINNET?: string;
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv;
+}
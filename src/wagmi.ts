@@ -0,0 +1,79 @@
+// Импорт и настройка wagmi (сети из реестра сетей, коннектор injected для MetaMask) и клиента react-query
+
+import { QueryClient } from '@tanstack/react-query';
+import { type Chain, defineChain, type EIP1193Provider as WagmiProvider, type Transport } from 'viem';
+import { createConfig, http, injected } from 'wagmi';
+
+import { METAMASK_RDNS } from './constants/connection';
+import { type NetworkDefinition } from './constants/network';
+import {
+    type EIP1193EventListener,
+    type EIP1193Provider,
+    type EIP1193RequestArguments,
+    getActiveProvider,
+} from './services/eip6963ProviderDiscovery';
+import { NETWORK_LIST } from './services/networkRegistry';
+
+// Провайдер в формате viem для каждого обнаруженного провайдера (один и тот же объект при повторных вызовах target)
+const wagmiProviders = new WeakMap<EIP1193Provider, WagmiProvider>();
+
+// Адаптер провайдера EIP-6963 к типу viem: запросы и подписки передаются исходному провайдеру без изменений
+const toWagmiProvider = (provider: EIP1193Provider): WagmiProvider => {
+    let adapted = wagmiProviders.get(provider);
+
+    if (!adapted) {
+        adapted = {
+            // Параметры запросов viem — массив или объект (EIP-1193); только общий вариант схемы типизирован как unknown
+            request: ({ method, params }) => provider.request({ method, params: params as EIP1193RequestArguments['params'] }),
+            // Слушатели viem принимают типизированные аргументы события; провайдер передаёт их как есть
+            on: (event, listener) => provider.on?.(event, listener as EIP1193EventListener),
+            removeListener: (event, listener) => provider.removeListener?.(event, listener as EIP1193EventListener),
+        };
+        wagmiProviders.set(provider, adapted);
+    }
+
+    return adapted;
+};
+
+// Коннектор MetaMask: работает с провайдером, выбранным при обнаружении кошельков по EIP-6963
+const metaMask = injected({
+    target: () => {
+        const provider = getActiveProvider();
+        return provider ? { id: METAMASK_RDNS, name: 'MetaMask', provider: toWagmiProvider(provider) } : undefined;
+    },
+    // Без запроса wallet_requestPermissions при каждом подключении: как и раньше, достаточно eth_requestAccounts
+    shimDisconnect: false,
+});
+
+// Описание сети из реестра в формате viem
+const toChain = (network: NetworkDefinition): Chain =>
+    defineChain({
+        id: network.chainId,
+        name: network.name,
+        nativeCurrency: network.nativeCurrency,
+        rpcUrls: { default: { http: network.rpcUrls } },
+        blockExplorers: { default: { name: network.name, url: network.explorerUrl } },
+        testnet: network.testnet,
+    });
+
+// Все сети реестра: переключение возможно на любую из них (целевая сеть выбирается в настройках)
+const chains = NETWORK_LIST.map(toChain) as [Chain, ...Chain[]];
+
+export const wagmiConfig = createConfig({
+    chains,
+    connectors: [metaMask],
+    // Кошельки обнаруживаются собственным сервисом (eip6963ProviderDiscovery)
+    multiInjectedProviderDiscovery: false,
+    transports: Object.fromEntries(chains.map((chain) => [chain.id, http()])) as Record<number, Transport>,
+});
+
+// Экземпляр коннектора MetaMask (единственный в конфигурации), с которым работают действия wagmi
+export const getMetaMaskConnector = () => wagmiConfig.connectors[0];
+
+export const queryClient = new QueryClient();
+
+declare module 'wagmi' {
+    interface Register {
+        config: typeof wagmiConfig;
+    }
+}